@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `field_definitions` ADD COLUMN `isIndexed` BOOLEAN NOT NULL DEFAULT false;
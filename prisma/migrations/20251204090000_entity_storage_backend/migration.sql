@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `entity_definitions` ADD COLUMN `storageBackend` VARCHAR(20) NULL;
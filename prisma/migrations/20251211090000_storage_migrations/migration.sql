@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `storage_migrations` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `entityId` INTEGER NOT NULL,
+    `sourceBackend` VARCHAR(20) NOT NULL,
+    `targetBackend` VARCHAR(20) NOT NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'pending',
+    `phase` VARCHAR(20) NOT NULL DEFAULT 'pending',
+    `batchSize` INTEGER NOT NULL DEFAULT 500,
+    `total` INTEGER NOT NULL DEFAULT 0,
+    `copied` INTEGER NOT NULL DEFAULT 0,
+    `lastRecordId` VARCHAR(191) NULL,
+    `error` TEXT NULL,
+    `startedAt` DATETIME(3) NULL,
+    `completedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `storage_migrations_entityId_idx`(`entityId`),
+    INDEX `storage_migrations_status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `storage_migrations` ADD CONSTRAINT `storage_migrations_entityId_fkey` FOREIGN KEY (`entityId`) REFERENCES `entity_definitions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
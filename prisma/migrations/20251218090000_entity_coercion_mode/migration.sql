@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `entity_definitions` ADD COLUMN `coercionMode` VARCHAR(20) NOT NULL DEFAULT 'lenient';
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `field_definitions` ADD COLUMN `referenceEntityId` INTEGER NULL,
+    ADD COLUMN `onDelete` VARCHAR(20) NULL;
+
+-- CreateIndex
+CREATE INDEX `field_definitions_referenceEntityId_idx` ON `field_definitions`(`referenceEntityId`);
+
+-- AddForeignKey
+ALTER TABLE `field_definitions` ADD CONSTRAINT `field_definitions_referenceEntityId_fkey` FOREIGN KEY (`referenceEntityId`) REFERENCES `entity_definitions`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
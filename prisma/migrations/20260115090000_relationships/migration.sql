@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE `relationship_definitions` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(255) NOT NULL,
+    `inverseName` VARCHAR(255) NOT NULL,
+    `displayName` VARCHAR(255) NOT NULL,
+    `sourceEntityId` INTEGER NOT NULL,
+    `targetEntityId` INTEGER NOT NULL,
+    `isDeleted` BOOLEAN NOT NULL DEFAULT false,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `relationship_definitions_sourceEntityId_idx`(`sourceEntityId`),
+    INDEX `relationship_definitions_targetEntityId_idx`(`targetEntityId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `record_links` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `relationshipId` INTEGER NOT NULL,
+    `sourceId` VARCHAR(191) NOT NULL,
+    `targetId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `record_links_relationshipId_targetId_idx`(`relationshipId`, `targetId`),
+    UNIQUE INDEX `record_links_relationshipId_sourceId_targetId_key`(`relationshipId`, `sourceId`, `targetId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `relationship_definitions` ADD CONSTRAINT `relationship_definitions_sourceEntityId_fkey` FOREIGN KEY (`sourceEntityId`) REFERENCES `entity_definitions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `relationship_definitions` ADD CONSTRAINT `relationship_definitions_targetEntityId_fkey` FOREIGN KEY (`targetEntityId`) REFERENCES `entity_definitions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
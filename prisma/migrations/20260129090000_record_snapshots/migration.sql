@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE `record_snapshots` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `entityId` INTEGER NOT NULL,
+    `recordId` VARCHAR(191) NOT NULL,
+    `version` INTEGER NOT NULL,
+    `action` VARCHAR(20) NOT NULL,
+    `data` LONGTEXT NOT NULL,
+    `userId` VARCHAR(255) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `record_snapshots_createdAt_idx`(`createdAt`),
+    UNIQUE INDEX `record_snapshots_entityId_recordId_version_key`(`entityId`, `recordId`, `version`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `record_snapshots` ADD CONSTRAINT `record_snapshots_entityId_fkey` FOREIGN KEY (`entityId`) REFERENCES `entity_definitions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE `idempotency_keys` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `key` VARCHAR(255) NOT NULL,
+    `fingerprint` CHAR(64) NOT NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'pending',
+    `response` LONGTEXT NULL,
+    `etag` VARCHAR(64) NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `idempotency_keys_key_key`(`key`),
+    INDEX `idempotency_keys_expiresAt_idx`(`expiresAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
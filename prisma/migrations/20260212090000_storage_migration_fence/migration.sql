@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE `entity_definitions` ADD COLUMN `activeMigrationId` INTEGER NULL,
+    ADD COLUMN `writesLocked` BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE `storage_migration_changes` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `migrationId` INTEGER NOT NULL,
+    `recordId` VARCHAR(191) NOT NULL,
+
+    INDEX `storage_migration_changes_migrationId_idx`(`migrationId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
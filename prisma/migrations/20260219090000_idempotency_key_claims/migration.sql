@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `idempotency_keys` ADD COLUMN `claimedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3);
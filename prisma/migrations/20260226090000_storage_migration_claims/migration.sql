@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE `storage_migrations` ADD COLUMN `ownerId` VARCHAR(64) NULL,
+    ADD COLUMN `heartbeatAt` DATETIME(3) NULL;
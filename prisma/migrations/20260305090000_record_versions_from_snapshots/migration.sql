@@ -0,0 +1,11 @@
+-- Snapshots are numbered with the record version from now on; raise the
+-- version of records whose history got ahead of it (deletes and restores
+-- kept a version without raising the record's)
+UPDATE `dynamic_records` r
+JOIN (
+    SELECT `entityId`, `recordId`, MAX(`version`) AS `version`
+    FROM `record_snapshots`
+    GROUP BY `entityId`, `recordId`
+) s ON s.`entityId` = r.`entityId` AND s.`recordId` = r.`id`
+SET r.`version` = s.`version`
+WHERE r.`version` < s.`version`;
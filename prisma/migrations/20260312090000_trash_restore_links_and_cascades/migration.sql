@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE `dynamic_records` ADD COLUMN `deletedAt` DATETIME(3) NULL;
+
+-- Records already in the trash were deleted when they were last updated
+UPDATE `dynamic_records` SET `deletedAt` = `updatedAt` WHERE `isDeleted` = true;
+
+-- CreateIndex
+CREATE INDEX `dynamic_records_deletedAt_idx` ON `dynamic_records`(`deletedAt`);
+
+-- CreateTable
+CREATE TABLE `trashed_links` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `entityId` INTEGER NOT NULL,
+    `recordId` VARCHAR(191) NOT NULL,
+    `relationshipId` INTEGER NOT NULL,
+    `sourceId` VARCHAR(191) NOT NULL,
+    `targetId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL,
+
+    INDEX `trashed_links_entityId_recordId_idx`(`entityId`, `recordId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `trash_cascades` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `entityId` INTEGER NOT NULL,
+    `recordId` VARCHAR(191) NOT NULL,
+    `parentEntityId` INTEGER NOT NULL,
+    `parentRecordId` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `trash_cascades_entityId_recordId_key`(`entityId`, `recordId`),
+    INDEX `trash_cascades_parentEntityId_parentRecordId_idx`(`parentEntityId`, `parentRecordId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `job_leases` (
+    `name` VARCHAR(64) NOT NULL,
+    `ownerId` VARCHAR(64) NOT NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`name`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `idempotency_keys` ADD COLUMN `renewedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3);
+
+-- Pending keys were last known alive when they were claimed
+UPDATE `idempotency_keys` SET `renewedAt` = `claimedAt`;
@@ -48,6 +48,7 @@ async function main() {
           fieldType: 'string',
           isRequired: true,
           isUnique: true,
+          maxLength: 255,
           displayOrder: 2,
         },
       ];
@@ -6,6 +6,7 @@ import { MetadataModule } from './modules/metadata/metadata.module';
 import { DynamicModule } from './modules/dynamic/dynamic.module';
 import { LookupModule } from './modules/lookup/lookup.module';
 import { HealthModule } from './modules/health/health.module';
+import { StorageMigrationModule } from './modules/storage-migration/storage-migration.module';
 
 @Module({
   imports: [
@@ -19,6 +20,7 @@ import { HealthModule } from './modules/health/health.module';
     DynamicModule,
     LookupModule,
     HealthModule,
+    StorageMigrationModule,
   ],
 })
 export class AppModule {}
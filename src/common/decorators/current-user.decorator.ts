@@ -0,0 +1,13 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+/**
+ * Id of the calling user, taken from the X-User-Id header set by the
+ * gateway in front of the service; null for anonymous requests
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): string | null => {
+    const request = ctx.switchToHttp().getRequest();
+    const userId = request.headers['x-user-id'];
+    return typeof userId === 'string' && userId.trim() ? userId.trim() : null;
+  },
+);
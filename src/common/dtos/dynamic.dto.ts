@@ -1,4 +1,13 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
 
 /**
  * DTO for lookup/dropdown values
@@ -47,6 +56,74 @@ export class CreateDynamicRecordDto {
   [key: string]: any;
 }
 
+/**
+ * An update of a bulk request
+ */
+export class BulkUpdateItemDto {
+  @ApiProperty({
+    example: 'clhxyz123abc',
+    description: 'Record ID',
+  })
+  @IsString()
+  id: string;
+
+  @ApiProperty({
+    example: { email: 'john.doe@example.com' },
+    description: 'Changed field values',
+  })
+  @IsObject()
+  data: Record<string, any>;
+}
+
+/**
+ * DTO for creating, updating and deleting records in one request
+ */
+export class BulkOperationDto {
+  @ApiProperty({
+    example: 'transactional',
+    description:
+      'transactional: every item is checked first, then all are written in one transaction or none is; ' +
+      'bestEffort: every valid item is written and the others reported',
+    enum: ['transactional', 'bestEffort'],
+    required: false,
+    default: 'transactional',
+  })
+  @IsOptional()
+  @IsIn(['transactional', 'bestEffort'])
+  mode?: 'transactional' | 'bestEffort';
+
+  @ApiProperty({
+    example: [{ firstName: 'Jane', lastName: 'Doe' }],
+    description: 'Payloads of records to create',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsObject({ each: true })
+  create?: CreateDynamicRecordDto[];
+
+  @ApiProperty({
+    type: () => [BulkUpdateItemDto],
+    description: 'Records to update, by ID',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BulkUpdateItemDto)
+  update?: BulkUpdateItemDto[];
+
+  @ApiProperty({
+    example: ['clhabc456def'],
+    description: 'IDs of records to delete',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  delete?: string[];
+}
+
 /**
  * DTO for dynamic record response
  */
@@ -74,6 +151,122 @@ export class DynamicRecordDto {
 
   @ApiProperty()
   updatedAt: Date;
+
+  @ApiProperty({
+    description: 'When the record was deleted, only set on records in the trash',
+    required: false,
+  })
+  deletedAt?: Date;
+
+  @ApiProperty({
+    example: 3,
+    description: 'Record version, raised on every update and sent as the ETag',
+  })
+  version: number;
+
+  @ApiProperty({
+    example: { customer: { id: 'clhabc456def', entityId: 1, data: { name: 'Acme' } } },
+    description:
+      'Related records requested with include: a record or null per reference field, a list per reverse include',
+    required: false,
+  })
+  included?: Record<string, DynamicRecordDto | DynamicRecordDto[] | null>;
+
+  @ApiProperty({
+    example: ['Order'],
+    description:
+      'Reverse includes holding only the latest 100 of the related records',
+    required: false,
+  })
+  includedTruncated?: string[];
+}
+
+/**
+ * DTO for the result of an upsert by a unique field
+ */
+export class UpsertResultDto {
+  @ApiProperty({
+    example: true,
+    description: 'true when the record was created, false when an existing one was updated',
+  })
+  created: boolean;
+
+  @ApiProperty({ type: () => DynamicRecordDto })
+  record: DynamicRecordDto;
+}
+
+/**
+ * DTO for a version of a record: its data after one change
+ */
+export class RecordVersionDto {
+  @ApiProperty({
+    example: 3,
+    description: 'Version number, counting the changes of the record from 1',
+  })
+  version: number;
+
+  @ApiProperty({
+    example: 'update',
+    enum: ['create', 'update', 'delete', 'restore'],
+    description: 'Change that produced the version',
+  })
+  action: string;
+
+  @ApiProperty({
+    example: { firstName: 'John', lastName: 'Doe', email: 'john@example.com' },
+    description: 'Record data after the change; left out of version lists',
+    required: false,
+  })
+  data?: Record<string, any>;
+
+  @ApiProperty({
+    example: 'user-42',
+    description: 'User who made the change, from X-User-Id',
+    nullable: true,
+  })
+  userId: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+/**
+ * A field whose value differs between two versions
+ */
+export class FieldChangeDto {
+  @ApiProperty({ example: 'email' })
+  field: string;
+
+  @ApiProperty({ enum: ['added', 'removed', 'changed'] })
+  change: 'added' | 'removed' | 'changed';
+
+  @ApiProperty({
+    example: 'john@example.com',
+    description: 'Value in the from version, absent when added',
+    required: false,
+  })
+  from?: unknown;
+
+  @ApiProperty({
+    example: 'john.doe@example.com',
+    description: 'Value in the to version, absent when removed',
+    required: false,
+  })
+  to?: unknown;
+}
+
+/**
+ * DTO for the differences between two versions of a record
+ */
+export class RecordVersionDiffDto {
+  @ApiProperty({ example: 2 })
+  from: number;
+
+  @ApiProperty({ example: 5 })
+  to: number;
+
+  @ApiProperty({ type: () => [FieldChangeDto] })
+  changes: FieldChangeDto[];
 }
 
 /**
@@ -83,8 +276,11 @@ export class PaginatedResponseDto<T> {
   @ApiProperty()
   data: T[];
 
-  @ApiProperty()
-  total: number;
+  @ApiProperty({
+    description: 'Number of matching records, left out with withTotal=false',
+    required: false,
+  })
+  total?: number;
 
   @ApiProperty()
   page: number;
@@ -92,8 +288,62 @@ export class PaginatedResponseDto<T> {
   @ApiProperty()
   pageSize: number;
 
+  @ApiProperty({ required: false })
+  totalPages?: number;
+}
+
+/**
+ * DTO for a page of records read with a cursor
+ */
+export class CursorPaginatedResponseDto<T> {
   @ApiProperty()
-  totalPages: number;
+  data: T[];
+
+  @ApiProperty({
+    description: 'Number of matching records, left out with withTotal=false',
+    required: false,
+  })
+  total?: number;
+
+  @ApiProperty()
+  pageSize: number;
+
+  @ApiProperty({
+    description: 'Cursor of the following page, null on the last page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+
+  @ApiProperty({
+    description: 'Cursor of the preceding page, null on the first page',
+    nullable: true,
+  })
+  prevCursor: string | null;
+}
+
+/**
+ * DTO for a group of records of an aggregation
+ */
+export class AggregateGroupDto {
+  @ApiProperty({
+    example: { status: 'active' },
+    description: 'Values of the groupBy fields shared by the group; empty without groupBy',
+  })
+  key: Record<string, unknown>;
+
+  @ApiProperty({
+    example: { count: 42, 'sum:amount': 1520.5, 'min:createdAt': '2024-01-02T08:00:00.000Z' },
+    description: 'Metrics of the group by name; null when no record has a value',
+  })
+  metrics: Record<string, unknown>;
+}
+
+/**
+ * DTO for the result of an aggregation
+ */
+export class AggregateResultDto {
+  @ApiProperty({ type: () => [AggregateGroupDto] })
+  groups: AggregateGroupDto[];
 }
 
 /**
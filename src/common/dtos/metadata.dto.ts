@@ -1,5 +1,6 @@
-import { IsString, IsOptional, MaxLength, MinLength, IsNumber } from 'class-validator';
+import { IsString, IsOptional, MaxLength, MinLength, IsNumber, IsIn } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { FieldValidationError } from '../interfaces/response.interface';
 
 /**
  * DTO for creating or updating an entity definition
@@ -40,6 +41,56 @@ export class CreateEntityDefinitionDto {
   @IsOptional()
   @IsString()
   description?: string;
+
+  @ApiProperty({
+    example: 'json',
+    description:
+      'Record storage: json (shared dynamic_records table) or physical (own table with typed columns)',
+    enum: ['json', 'physical'],
+    default: 'json',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['json', 'physical'])
+  storageMode?: string;
+
+  @ApiProperty({
+    example: 'mongodb',
+    description:
+      'Database adapter holding the records, one of the available adapters (e.g. mysql, mongodb). ' +
+      'Omit or set to null to use the default DATABASE_TYPE; physical entities require mysql',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  storageBackend?: string | null;
+
+  @ApiProperty({
+    example: 'lenient',
+    description:
+      'Conversion of inbound field values: strict only accepts values of the field type, ' +
+      'lenient also converts text and numbers (e.g. "42" for an integer, "true" for a boolean)',
+    enum: ['strict', 'lenient'],
+    default: 'lenient',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['strict', 'lenient'])
+  coercionMode?: string;
+
+  @ApiProperty({
+    example: 'reject',
+    description:
+      'Handling of record payload keys that match no field: reject (400 listing them), ' +
+      'strip (drop them) or store (keep them unvalidated; not available in physical storage mode)',
+    enum: ['reject', 'strip', 'store'],
+    default: 'strip',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['reject', 'strip', 'store'])
+  unknownFieldPolicy?: string;
 }
 
 /**
@@ -61,6 +112,18 @@ export class EntityDefinitionDto {
   @ApiProperty()
   description: string;
 
+  @ApiProperty()
+  storageMode: string;
+
+  @ApiProperty({ nullable: true })
+  storageBackend: string | null;
+
+  @ApiProperty()
+  coercionMode: string;
+
+  @ApiProperty()
+  unknownFieldPolicy: string;
+
   @ApiProperty()
   isDeleted: boolean;
 
@@ -103,8 +166,9 @@ export class CreateFieldDefinitionDto {
 
   @ApiProperty({
     example: 'string',
-    description: 'Field type: string, integer, decimal, datetime, boolean, enum',
-    enum: ['string', 'integer', 'decimal', 'datetime', 'boolean', 'enum'],
+    description:
+      'Field type: string, integer, decimal, datetime, boolean, enum, reference (id of a record of referenceEntityId)',
+    enum: ['string', 'integer', 'decimal', 'datetime', 'boolean', 'enum', 'reference'],
   })
   @IsString()
   fieldType: string;
@@ -154,7 +218,8 @@ export class CreateFieldDefinitionDto {
 
   @ApiProperty({
     example: 'John Doe',
-    description: 'Default value for field',
+    description:
+      'Default value for field, applied when a new record omits it. Literals are converted to the field type; now(), uuid() and currentUser() are evaluated per record',
     required: false,
   })
   @IsOptional()
@@ -178,6 +243,37 @@ export class CreateFieldDefinitionDto {
   @IsOptional()
   @IsNumber()
   displayOrder?: number;
+
+  @ApiProperty({
+    example: false,
+    description:
+      'Whether to index the field for filtering and sorting (string fields need maxLength <= 768)',
+    default: false,
+  })
+  @IsOptional()
+  isIndexed?: boolean;
+
+  @ApiProperty({
+    example: 1,
+    description: 'Entity whose records a reference field points to (reference fields only)',
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  referenceEntityId?: number;
+
+  @ApiProperty({
+    example: 'restrict',
+    description:
+      'What deleting a referenced record does to records pointing to it (reference fields only): ' +
+      'restrict (deletion fails with 409), setNull (the field is cleared) or cascade (they are deleted too)',
+    enum: ['restrict', 'setNull', 'cascade'],
+    default: 'restrict',
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['restrict', 'setNull', 'cascade'])
+  onDelete?: string;
 }
 
 /**
@@ -223,6 +319,15 @@ export class FieldDefinitionDto {
   @ApiProperty()
   displayOrder: number;
 
+  @ApiProperty()
+  isIndexed: boolean;
+
+  @ApiProperty({ nullable: true })
+  referenceEntityId: number | null;
+
+  @ApiProperty({ nullable: true })
+  onDelete: string | null;
+
   @ApiProperty()
   isDeleted: boolean;
 
@@ -243,6 +348,102 @@ export class BulkOperationResultDto {
   @ApiProperty()
   failed: number;
 
+  @ApiProperty({
+    example: [
+      {
+        field: 'create.3.email',
+        code: 'PATTERN',
+        message: "Field 'Email' format is invalid",
+        params: { item: 'create.3' },
+      },
+    ],
+    description:
+      'Errors of the failed items; fields are prefixed with the item position (create.3, update.0, delete.1)',
+  })
+  errors: FieldValidationError[];
+
+  @ApiProperty({
+    example: ['clhxyz123abc', null],
+    description: 'Id of each created record in request order, null for failed creates',
+  })
+  created: string[];
+}
+
+/**
+ * DTO for creating a many-to-many relationship between two entities
+ */
+export class CreateRelationshipDefinitionDto {
+  @ApiProperty({
+    example: 'tags',
+    description: 'Relation name on the source entity, used in /api/dynamic/:entity/:id/relations/:relation',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    example: 'products',
+    description: 'Relation name on the target entity',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  inverseName: string;
+
+  @ApiProperty({
+    example: 'Product Tags',
+    description: 'Display name for UI',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  displayName?: string;
+
+  @ApiProperty({
+    example: 1,
+    description: 'Source entity ID; links are stored in its database',
+  })
+  @IsNumber()
+  sourceEntityId: number;
+
+  @ApiProperty({
+    example: 2,
+    description: 'Target entity ID',
+  })
+  @IsNumber()
+  targetEntityId: number;
+}
+
+/**
+ * DTO for relationship definition response
+ */
+export class RelationshipDefinitionDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  inverseName: string;
+
   @ApiProperty()
-  errors: string[];
+  displayName: string;
+
+  @ApiProperty()
+  sourceEntityId: number;
+
+  @ApiProperty()
+  targetEntityId: number;
+
+  @ApiProperty()
+  isDeleted: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
 }
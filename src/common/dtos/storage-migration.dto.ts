@@ -0,0 +1,96 @@
+import { IsString, IsOptional, IsInt, Min, Max, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for starting a storage migration
+ */
+export class StartStorageMigrationDto {
+  @ApiProperty({
+    example: 'Customer',
+    description: 'Entity whose records are moved',
+  })
+  @IsString()
+  @MaxLength(255)
+  entityName: string;
+
+  @ApiProperty({
+    example: 'mongodb',
+    description: 'Storage backend to move the records to',
+  })
+  @IsString()
+  targetBackend: string;
+
+  @ApiProperty({
+    example: 500,
+    description: 'Records copied per batch',
+    default: 500,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5000)
+  batchSize?: number;
+}
+
+/**
+ * DTO for storage migration response
+ */
+export class StorageMigrationDto {
+  @ApiProperty()
+  id: number;
+
+  @ApiProperty()
+  entityId: number;
+
+  @ApiProperty({ example: 'mysql' })
+  sourceBackend: string;
+
+  @ApiProperty({ example: 'mongodb' })
+  targetBackend: string;
+
+  @ApiProperty({ enum: ['pending', 'running', 'completed', 'failed'] })
+  status: string;
+
+  @ApiProperty({
+    enum: ['pending', 'copying', 'syncing', 'verifying', 'cleaning', 'done'],
+    description:
+      'copying: bulk copy in id order; syncing: copying records changed meanwhile; ' +
+      'verifying: writes held back for the final sync, count check and routing switch; ' +
+      'cleaning: removing the records from the source after the switch',
+  })
+  phase: string;
+
+  @ApiProperty()
+  batchSize: number;
+
+  @ApiProperty({ description: 'Records in the source when copying started' })
+  total: number;
+
+  @ApiProperty({ description: 'Records copied by the bulk copy so far' })
+  copied: number;
+
+  @ApiProperty({ nullable: true })
+  lastRecordId: string | null;
+
+  @ApiProperty({ nullable: true })
+  error: string | null;
+
+  @ApiProperty({ nullable: true, description: 'Instance running the migration' })
+  ownerId: string | null;
+
+  @ApiProperty({ nullable: true, description: 'Last sign of life of the owner' })
+  heartbeatAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  startedAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  completedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
@@ -6,6 +6,7 @@ import {
   Logger,
 } from '@nestjs/common';
 import { Response } from 'express';
+import { FieldValidationError } from '../interfaces/response.interface';
 
 @Catch(BadRequestException)
 export class ValidationExceptionFilter implements ExceptionFilter {
@@ -17,10 +18,15 @@ export class ValidationExceptionFilter implements ExceptionFilter {
     const status = exception.getStatus();
     const exceptionResponse = exception.getResponse();
 
-    const message =
+    const errors: FieldValidationError[] | undefined =
       typeof exceptionResponse === 'object'
-        ? (exceptionResponse as any).message || exception.message
-        : exception.message;
+        ? (exceptionResponse as any).errors
+        : undefined;
+
+    // Record validation lists every failing field, summarised in `error`
+    const message = errors
+      ? errors.map((e) => e.message).join('; ')
+      : this.messageOf(exception, exceptionResponse);
 
     this.logger.warn(`Validation error: ${message}`);
     console.error('VALIDATION ERROR DETAILS:', exception.message, exceptionResponse);
@@ -30,7 +36,17 @@ export class ValidationExceptionFilter implements ExceptionFilter {
       statusCode: status,
       message: 'Validation failed',
       error: message,
+      ...(errors && { errors }),
       timestamp: new Date().toISOString(),
     });
   }
+
+  private messageOf(
+    exception: BadRequestException,
+    exceptionResponse: string | object,
+  ): unknown {
+    return typeof exceptionResponse === 'object'
+      ? (exceptionResponse as any).message || exception.message
+      : exception.message;
+  }
 }
@@ -15,7 +15,7 @@ export class LoggingInterceptor implements NestInterceptor {
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
     const ctx = context.switchToHttp();
     const request = ctx.getRequest();
-    const { method, url, body } = request;
+    const { method, url } = request;
     const startTime = Date.now();
 
     return next.handle().pipe(
@@ -12,7 +12,26 @@ export interface ApiErrorResponse {
   statusCode: number;
   message: string;
   error?: string;
+  errors?: FieldValidationError[];
   timestamp: string;
   path?: string;
   trace?: string;
 }
+
+export interface FieldValidationError {
+  field: string;
+  code: string; // REQUIRED, TYPE, MIN_LENGTH, MAX_LENGTH, PATTERN, ENUM, REFERENCE, UNKNOWN_FIELD, INVALID, NOT_FOUND, CONFLICT, FAILED
+  message: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Body of the 409 answering a write that took a value of a unique field
+ * another record holds
+ */
+export interface UniqueConflictResponse {
+  message: string;
+  error: 'Conflict';
+  field: string;
+  existingRecordId: string | null;
+}
@@ -35,38 +35,3 @@ export const getDatabaseConfig = (): DatabaseConfig => {
 
   return config;
 };
-
-/**
- * Database routing configuration
- * Determine which database to use for specific entity types
- */
-export interface EntityDatabaseRouting {
-  [entityName: string]: DatabaseType;
-}
-
-export const getEntityDatabaseRouting = (): EntityDatabaseRouting => {
-  // Parse from environment or return default
-  // Default: entities go to MySQL, can override via env
-  // Example: ROUTING_CUSTOMER=mongodb,ROUTING_ORDER=mongodb
-  const routing: EntityDatabaseRouting = {};
-
-  // Check environment for specific entity routing
-  Object.entries(process.env).forEach(([key, value]) => {
-    if (key.startsWith('ROUTING_')) {
-      const entityName = key.replace('ROUTING_', '').toLowerCase();
-      routing[entityName] = value as DatabaseType;
-    }
-  });
-
-  return routing;
-};
-
-/**
- * Get database type for a specific entity
- */
-export const getDatabaseForEntity = (
-  entityName: string,
-  routing: EntityDatabaseRouting,
-): DatabaseType => {
-  return routing[entityName.toLowerCase()] || DatabaseType.MYSQL;
-};
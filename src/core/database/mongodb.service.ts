@@ -1,5 +1,6 @@
 import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
-import { MongoClient, Db, Collection } from 'mongodb';
+import { MongoClient, Db, Collection, ClientSession } from 'mongodb';
+import { AsyncLocalStorage } from 'async_hooks';
 import { LoggerService } from '@/core/logger/logger.service';
 
 /**
@@ -11,6 +12,8 @@ export class MongoDBService implements OnModuleInit, OnModuleDestroy {
   private client: MongoClient;
   private db: Db;
   private isConnected = false;
+  private transactional: Promise<boolean> | null = null;
+  private transactions = new AsyncLocalStorage<{ session?: ClientSession }>();
 
   constructor(private readonly logger: LoggerService) {}
 
@@ -70,6 +73,62 @@ export class MongoDBService implements OnModuleInit, OnModuleDestroy {
     return this.db.collection<T>(collectionName);
   }
 
+  /**
+   * Session of the transaction the caller runs in, if any; operations
+   * given it take part in the transaction. The transaction starts with
+   * the first operation asking for it.
+   */
+  get session(): ClientSession | undefined {
+    const transaction = this.transactions.getStore();
+    if (transaction && !transaction.session) {
+      transaction.session = this.client.startSession();
+      transaction.session.startTransaction();
+    }
+    return transaction?.session;
+  }
+
+  /**
+   * Whether the deployment runs transactions: replica sets and sharded
+   * clusters do, a standalone server doesn't
+   */
+  supportsTransactions(): Promise<boolean> {
+    this.transactional ??= this.db
+      .admin()
+      .command({ hello: 1 })
+      .then((hello) => Boolean(hello.setName) || hello.msg === 'isdbgrid')
+      .catch(() => {
+        this.transactional = null;
+        return false;
+      });
+    return this.transactional;
+  }
+
+  /**
+   * Run `work` in a transaction, which operations given `session` while
+   * it runs take part in; work not using MongoDB opens none. Work started
+   * inside a transaction joins it. The transaction isn't retried, so work
+   * runs at most once.
+   */
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.transactions.getStore()) {
+      return work();
+    }
+
+    const transaction: { session?: ClientSession } = {};
+    try {
+      const result = await this.transactions.run(transaction, work);
+      await transaction.session?.commitTransaction();
+      return result;
+    } catch (error) {
+      if (transaction.session?.inTransaction()) {
+        await transaction.session.abortTransaction().catch(() => undefined);
+      }
+      throw error;
+    } finally {
+      await transaction.session?.endSession();
+    }
+  }
+
   /**
    * Check connection status
    */
@@ -0,0 +1,171 @@
+/**
+ * MySQL JSON helpers
+ * SQL fragments for reading typed field values out of the JSON `data`
+ * column of dynamic_records. Shared by record queries and the DDL that
+ * maintains generated columns for indexed fields, so both always agree
+ * on how a field value is extracted and typed.
+ */
+import { uniqueConstraintName } from './unique-constraint';
+
+export interface JsonFieldRef {
+  id?: number;
+  entityId?: number;
+  fieldName: string;
+  fieldType: string;
+  maxLength?: number | null;
+}
+
+/**
+ * Longest indexable VARCHAR for utf8mb4 (3072 byte key limit / 4 bytes)
+ */
+export const MAX_INDEXED_STRING_LENGTH = 768;
+
+export const quoteIdentifier = (name: string): string =>
+  `\`${name.replace(/`/g, '``')}\``;
+
+const quoteLiteral = (value: string): string =>
+  `'${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+
+/**
+ * JSON path selecting a top-level key, quoted so any field name is valid
+ */
+export const jsonPath = (fieldName: string): string =>
+  `$."${fieldName.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Expression converting ISO-8601 text to a UTC DATETIME(3). A 'Z' suffix
+ * is dropped and ±HH:MM / ±HHMM offsets are subtracted; text without a
+ * zone is taken as UTC. Built from deterministic functions only, as
+ * generated columns require.
+ */
+const utcDatetimeSql = (text: string): string => {
+  const local = (suffix: number) =>
+    `CAST(REPLACE(LEFT(${text}, CHAR_LENGTH(${text}) - ${suffix}), 'T', ' ') AS DATETIME(3))`;
+  const offsetMinutes = (suffix: number) =>
+    `IF(SUBSTRING(${text}, -${suffix}, 1) = '-', -1, 1) * ` +
+    `(CAST(SUBSTRING(${text}, -${suffix - 1}, 2) AS SIGNED) * 60 + CAST(RIGHT(${text}, 2) AS SIGNED))`;
+  const hasTime = `LOCATE('T', ${text}) > 0`;
+
+  return (
+    `(CASE ` +
+    `WHEN RIGHT(${text}, 1) = 'Z' THEN ${local(1)} ` +
+    `WHEN ${hasTime} AND SUBSTRING(${text}, -6, 1) IN ('+', '-') AND SUBSTRING(${text}, -3, 1) = ':' ` +
+    `THEN ${local(6)} - INTERVAL (${offsetMinutes(6)}) MINUTE ` +
+    `WHEN ${hasTime} AND SUBSTRING(${text}, -5, 1) IN ('+', '-') ` +
+    `THEN ${local(5)} - INTERVAL (${offsetMinutes(5)}) MINUTE ` +
+    `ELSE CAST(REPLACE(${text}, 'T', ' ') AS DATETIME(3)) END)`
+  );
+};
+
+/**
+ * Expression yielding the field value typed for comparison and ordering:
+ * DECIMAL for numbers, DATETIME(3) in UTC for dates, 1/0 for booleans and
+ * binary-collated text otherwise. JSON null and missing keys yield NULL.
+ */
+export const fieldValueSql = (field: JsonFieldRef): string => {
+  const extracted = `JSON_EXTRACT(\`data\`, ${quoteLiteral(jsonPath(field.fieldName))})`;
+  const text = `JSON_UNQUOTE(NULLIF(${extracted}, CAST('null' AS JSON)))`;
+
+  switch (field.fieldType) {
+    case 'integer':
+    case 'decimal':
+      return `CAST(${text} AS DECIMAL(65,10))`;
+    case 'datetime':
+      return utcDatetimeSql(text);
+    case 'boolean':
+      return `(${text} = 'true')`;
+    default:
+      return text;
+  }
+};
+
+/**
+ * Expression yielding the `data` column as JSON text holding only the
+ * given fields. Fields a record lacks stay absent rather than null.
+ */
+export const projectedDataSql = (fieldNames: string[]): string => {
+  const parts = fieldNames.map((name) => {
+    const path = quoteLiteral(jsonPath(name));
+    return (
+      `IF(JSON_CONTAINS_PATH(\`data\`, 'one', ${path}), ` +
+      `JSON_OBJECT(${quoteLiteral(name)}, JSON_EXTRACT(\`data\`, ${path})), JSON_OBJECT())`
+    );
+  });
+  return `CAST(JSON_MERGE_PRESERVE(JSON_OBJECT(), ${parts.join(', ')}) AS CHAR)`;
+};
+
+/**
+ * Name of the generated column holding an indexed field's value
+ */
+export const indexedColumnName = (fieldId: number): string =>
+  `field_${fieldId}`;
+
+const indexName = (fieldId: number): string =>
+  `dynamic_records_field_${fieldId}_idx`;
+
+/**
+ * Column type of the generated column for an indexed field
+ */
+export const indexedColumnType = (field: JsonFieldRef): string => {
+  switch (field.fieldType) {
+    case 'integer':
+    case 'decimal':
+      return 'DECIMAL(65,10)';
+    case 'datetime':
+      return 'DATETIME(3)';
+    case 'boolean':
+      return 'TINYINT(1)';
+    default: {
+      const length = Math.min(
+        field.maxLength || 255,
+        MAX_INDEXED_STRING_LENGTH,
+      );
+      return `VARCHAR(${length}) CHARACTER SET utf8mb4 COLLATE utf8mb4_bin`;
+    }
+  }
+};
+
+/**
+ * DDL adding a virtual generated column and index for a field.
+ * The column is only populated for rows of the field's entity.
+ */
+export const addIndexedColumnSql = (field: JsonFieldRef): string => {
+  const column = quoteIdentifier(indexedColumnName(field.id));
+  return (
+    `ALTER TABLE \`dynamic_records\` ` +
+    `ADD COLUMN ${column} ${indexedColumnType(field)} ` +
+    `GENERATED ALWAYS AS (IF(\`entityId\` = ${Number(field.entityId)}, ${fieldValueSql(field)}, NULL)) VIRTUAL, ` +
+    `ADD INDEX ${quoteIdentifier(indexName(field.id))} (\`entityId\`, ${column})`
+  );
+};
+
+/**
+ * DDL removing the generated column and index of a field
+ */
+export const dropIndexedColumnSql = (field: JsonFieldRef): string =>
+  `ALTER TABLE \`dynamic_records\` ` +
+  `DROP INDEX ${quoteIdentifier(indexName(field.id))}, ` +
+  `DROP COLUMN ${quoteIdentifier(indexedColumnName(field.id))}`;
+
+/**
+ * DDL adding a virtual generated column with a unique index for a field.
+ * The column is only populated for live rows of the field's entity, so
+ * soft-deleted records and other entities never conflict.
+ */
+export const addUniqueColumnSql = (field: JsonFieldRef): string => {
+  const column = quoteIdentifier(uniqueConstraintName(field.id));
+  return (
+    `ALTER TABLE \`dynamic_records\` ` +
+    `ADD COLUMN ${column} ${indexedColumnType(field)} ` +
+    `GENERATED ALWAYS AS (IF(\`entityId\` = ${Number(field.entityId)} AND \`isDeleted\` = false, ${fieldValueSql(field)}, NULL)) VIRTUAL, ` +
+    `ADD UNIQUE INDEX ${quoteIdentifier(`dynamic_records_${uniqueConstraintName(field.id)}_key`)} (\`entityId\`, ${column})`
+  );
+};
+
+/**
+ * DDL removing the unique generated column of a field
+ */
+export const dropUniqueColumnSql = (field: JsonFieldRef): string =>
+  `ALTER TABLE \`dynamic_records\` ` +
+  `DROP INDEX ${quoteIdentifier(`dynamic_records_${uniqueConstraintName(field.id)}_key`)}, ` +
+  `DROP COLUMN ${quoteIdentifier(uniqueConstraintName(field.id))}`;
@@ -0,0 +1,191 @@
+/**
+ * MySQL table helpers
+ * DDL for entities stored in their own table ("physical" storage mode),
+ * where every field definition is a real typed column.
+ */
+import { MAX_INDEXED_STRING_LENGTH, quoteIdentifier } from './mysql-json';
+import { uniqueConstraintName } from './unique-constraint';
+
+export interface TableFieldRef {
+  id: number;
+  fieldName: string;
+  fieldType: string;
+  maxLength?: number | null;
+  options?: string | null;
+}
+
+/**
+ * Columns every physical table has besides its field columns
+ */
+export const SYSTEM_COLUMNS = [
+  'id',
+  'createdAt',
+  'updatedAt',
+  'isDeleted',
+  'deletedAt',
+  'version',
+];
+
+/**
+ * Tables owned by the service that an entity table must not replace, as
+ * mapped in prisma/schema.prisma
+ */
+export const RESERVED_TABLES = [
+  'entity_definitions',
+  'field_definitions',
+  'relationship_definitions',
+  'record_links',
+  'dynamic_records',
+  'storage_migrations',
+  'storage_migration_changes',
+  'idempotency_keys',
+  'record_snapshots',
+  'trashed_links',
+  'trash_cascades',
+  'job_leases',
+  'audit_logs',
+  '_prisma_migrations',
+];
+
+const MAX_VARCHAR_LENGTH = 16383;
+
+const quoteLiteral = (value: string): string =>
+  `'${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+
+const enumValues = (options?: string | null): string[] => {
+  try {
+    const parsed = JSON.parse(options ?? '');
+    return Array.isArray(parsed) ? parsed.map((o: any) => String(o.value)) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Column type for a field definition
+ */
+export const columnTypeSql = (field: TableFieldRef): string => {
+  switch (field.fieldType) {
+    case 'integer':
+      return 'INT';
+    case 'decimal':
+      return 'DECIMAL(18,4)';
+    case 'datetime':
+      return 'DATETIME(3)';
+    case 'boolean':
+      return 'TINYINT(1)';
+    case 'reference':
+      return 'VARCHAR(191)';
+    case 'enum': {
+      const values = enumValues(field.options);
+      return values.length
+        ? `ENUM(${values.map(quoteLiteral).join(', ')})`
+        : 'VARCHAR(255)';
+    }
+    default:
+      return field.maxLength && field.maxLength > MAX_VARCHAR_LENGTH
+        ? 'LONGTEXT'
+        : `VARCHAR(${field.maxLength || 255})`;
+  }
+};
+
+const columnSql = (field: TableFieldRef): string =>
+  `${quoteIdentifier(field.fieldName)} ${columnTypeSql(field)} NULL`;
+
+const indexName = (field: TableFieldRef): string => `field_${field.id}_idx`;
+
+export const createTableSql = (tableName: string): string =>
+  `CREATE TABLE ${quoteIdentifier(tableName)} (` +
+  '`id` VARCHAR(191) NOT NULL, ' +
+  '`createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3), ' +
+  '`updatedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3), ' +
+  '`isDeleted` BOOLEAN NOT NULL DEFAULT false, ' +
+  '`deletedAt` DATETIME(3) NULL, ' +
+  '`version` INT NOT NULL DEFAULT 1, ' +
+  'INDEX `isDeleted_idx`(`isDeleted`), ' +
+  'INDEX `deletedAt_idx`(`deletedAt`), ' +
+  'INDEX `createdAt_idx`(`createdAt`), ' +
+  'PRIMARY KEY (`id`)' +
+  ') DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci';
+
+/**
+ * Record version column for tables created before records had versions
+ */
+export const addVersionColumnSql = (tableName: string): string =>
+  `ALTER TABLE ${quoteIdentifier(tableName)} ADD COLUMN \`version\` INT NOT NULL DEFAULT 1`;
+
+/**
+ * Deletion time column for tables created before the trash kept it
+ */
+export const addDeletedAtColumnSql = (tableName: string): string =>
+  `ALTER TABLE ${quoteIdentifier(tableName)} ADD COLUMN \`deletedAt\` DATETIME(3) NULL, ` +
+  'ADD INDEX `deletedAt_idx`(`deletedAt`)';
+
+/**
+ * Records already in the trash were deleted when they were last updated;
+ * setting updatedAt to itself keeps ON UPDATE from changing it
+ */
+export const fillDeletedAtSql = (tableName: string): string =>
+  `UPDATE ${quoteIdentifier(tableName)} ` +
+  'SET `deletedAt` = `updatedAt`, `updatedAt` = `updatedAt` WHERE `isDeleted` = true';
+
+export const renameTableSql = (from: string, to: string): string =>
+  `RENAME TABLE ${quoteIdentifier(from)} TO ${quoteIdentifier(to)}`;
+
+export const addColumnSql = (tableName: string, field: TableFieldRef): string =>
+  `ALTER TABLE ${quoteIdentifier(tableName)} ADD COLUMN ${columnSql(field)}`;
+
+export const modifyColumnSql = (
+  tableName: string,
+  field: TableFieldRef,
+): string =>
+  `ALTER TABLE ${quoteIdentifier(tableName)} MODIFY COLUMN ${columnSql(field)}`;
+
+export const dropColumnSql = (
+  tableName: string,
+  field: TableFieldRef,
+): string =>
+  `ALTER TABLE ${quoteIdentifier(tableName)} DROP COLUMN ${quoteIdentifier(field.fieldName)}`;
+
+/**
+ * Long string columns are indexed on a prefix to stay within the key limit
+ */
+export const addIndexSql = (tableName: string, field: TableFieldRef): string => {
+  const prefix =
+    field.fieldType === 'string' &&
+    (field.maxLength || 255) > MAX_INDEXED_STRING_LENGTH
+      ? `(${MAX_INDEXED_STRING_LENGTH})`
+      : '';
+  return (
+    `ALTER TABLE ${quoteIdentifier(tableName)} ` +
+    `ADD INDEX ${quoteIdentifier(indexName(field))} (${quoteIdentifier(field.fieldName)}${prefix})`
+  );
+};
+
+export const dropIndexSql = (tableName: string, field: TableFieldRef): string =>
+  `ALTER TABLE ${quoteIdentifier(tableName)} DROP INDEX ${quoteIdentifier(indexName(field))}`;
+
+/**
+ * DDL adding a virtual generated column with a unique index for a field.
+ * Soft-deleted rows leave the column NULL so they never conflict.
+ */
+export const addUniqueConstraintSql = (
+  tableName: string,
+  field: TableFieldRef,
+): string => {
+  const column = quoteIdentifier(uniqueConstraintName(field.id));
+  return (
+    `ALTER TABLE ${quoteIdentifier(tableName)} ` +
+    `ADD COLUMN ${column} ${columnTypeSql(field)} ` +
+    `GENERATED ALWAYS AS (IF(\`isDeleted\`, NULL, ${quoteIdentifier(field.fieldName)})) VIRTUAL, ` +
+    `ADD UNIQUE INDEX ${quoteIdentifier(`${uniqueConstraintName(field.id)}_key`)} (${column})`
+  );
+};
+
+export const dropUniqueConstraintSql = (
+  tableName: string,
+  field: TableFieldRef,
+): string =>
+  `ALTER TABLE ${quoteIdentifier(tableName)} ` +
+  `DROP INDEX ${quoteIdentifier(`${uniqueConstraintName(field.id)}_key`)}, ` +
+  `DROP COLUMN ${quoteIdentifier(uniqueConstraintName(field.id))}`;
@@ -1,9 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AsyncLocalStorage } from 'async_hooks';
 
 @Injectable()
 export class PrismaService extends PrismaClient {
   private logger = new Logger(PrismaService.name);
+  private transactions = new AsyncLocalStorage<Prisma.TransactionClient>();
 
   constructor() {
     super({
@@ -25,4 +27,27 @@ export class PrismaService extends PrismaClient {
     await this.$disconnect();
     this.logger.log('✓ Database disconnected');
   }
+
+  /**
+   * Client of the transaction the caller runs in, or this one outside
+   * of a transaction
+   */
+  get client(): Prisma.TransactionClient {
+    return this.transactions.getStore() ?? this;
+  }
+
+  /**
+   * Run `work` in an interactive transaction, which every query made
+   * through `client` while it runs takes part in. Work started inside
+   * a transaction joins it instead of starting another.
+   */
+  async transaction<T>(work: () => Promise<T>, timeout: number): Promise<T> {
+    if (this.transactions.getStore()) {
+      return work();
+    }
+
+    return this.$transaction((tx) => this.transactions.run(tx, work), {
+      timeout,
+    });
+  }
 }
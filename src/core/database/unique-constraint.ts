@@ -0,0 +1,24 @@
+/**
+ * Unique field constraints
+ * The constraints enforcing FieldDefinition.isUnique are named after the
+ * field id in every database, so a duplicate key error tells which field
+ * a write violated.
+ */
+
+export const uniqueConstraintName = (fieldId: number): string =>
+  `unique_${fieldId}`;
+
+/**
+ * Id of the field whose unique constraint a write violated, or null when
+ * the error is not a duplicate key error on such a constraint
+ */
+export const violatedUniqueFieldId = (error: any): number | null => {
+  const message = `${error?.message ?? ''} ${JSON.stringify(error?.meta ?? {})}`;
+  const duplicate =
+    error?.code === 'P2002' || // Prisma unique constraint failed
+    error?.code === 11000 || // MongoDB duplicate key
+    /Duplicate entry|1062/.test(message); // MySQL error from a raw query
+
+  const match = duplicate ? /unique_(\d+)/.exec(message) : null;
+  return match ? Number(match[1]) : null;
+};
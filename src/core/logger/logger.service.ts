@@ -1,4 +1,4 @@
-import { Injectable, Logger as NestLogger } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import * as winston from 'winston';
 
 @Injectable()
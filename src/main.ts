@@ -1,18 +1,56 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
-import { ValidationPipe, BadRequestException } from '@nestjs/common';
+import {
+  ValidationPipe,
+  BadRequestException,
+  ValidationError,
+} from '@nestjs/common';
 import { AppModule } from './app.module';
 import { HttpExceptionFilter } from './core/filters/http-exception.filter';
 import { ValidationExceptionFilter } from './common/filters/validation-exception.filter';
 import { LoggerService } from './core/logger/logger.service';
 import { TransformResponseInterceptor } from './common/interceptors/transform-response.interceptor';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
+import { FieldValidationError } from './common/interfaces/response.interface';
+
+/**
+ * Request body validation errors, nested ones named by their path
+ * (update.0.id)
+ */
+function toFieldErrors(
+  errors: ValidationError[],
+  parent?: string,
+): FieldValidationError[] {
+  return errors.flatMap((error) => {
+    const field = parent ? `${parent}.${error.property}` : error.property;
+    return [
+      ...Object.values(error.constraints ?? {}).map((constraint) => ({
+        field,
+        code: 'INVALID',
+        message: `${field}: ${constraint}`,
+      })),
+      ...toFieldErrors(error.children ?? [], field),
+    ];
+  });
+}
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     bufferLogs: true,
   });
 
+  // Room for bulk requests of up to 1000 records; PATCH bodies use the
+  // merge-patch and json-patch media types
+  app.useBodyParser('json', {
+    limit: '10mb',
+    type: [
+      'application/json',
+      'application/merge-patch+json',
+      'application/json-patch+json',
+    ],
+  });
+
   const logger = new LoggerService();
   app.useLogger(logger);
 
@@ -24,7 +62,9 @@ async function bootstrap() {
     origin: process.env.CORS_ORIGIN?.split(',') || '*',
     credentials: true,
     methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
-    allowedHeaders: 'Content-Type,Authorization',
+    allowedHeaders:
+      'Content-Type,Authorization,X-User-Id,If-Match,Idempotency-Key',
+    exposedHeaders: 'ETag,Idempotent-Replayed',
   });
 
   // Global validation pipe
@@ -36,17 +76,12 @@ async function bootstrap() {
       transformOptions: {
         enableImplicitConversion: true,
       },
-      exceptionFactory: (errors) => {
-        const messages = errors.map(
-          (error) =>
-            `${error.property}: ${Object.values(error.constraints).join(', ')}`,
-        );
-        return new BadRequestException({
+      exceptionFactory: (errors) =>
+        new BadRequestException({
           statusCode: 400,
           message: 'Validation failed',
-          errors: messages,
-        });
-      },
+          errors: toFieldErrors(errors),
+        }),
     }),
   );
 
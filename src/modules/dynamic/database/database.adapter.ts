@@ -1,51 +1,202 @@
-import { DynamicRecordDto, CreateDynamicRecordDto } from '@/common/dtos/dynamic.dto';
+import {
+  AggregateGroupDto,
+  DynamicRecordDto,
+} from '@/common/dtos/dynamic.dto';
+import {
+  AggregateQuery,
+  DynamicEntityContext,
+  FilterCondition,
+  KeysetOptions,
+  SortSpec,
+} from '../engine/query.types';
 
 /**
  * Database Adapter Interface
- * Defines contract for database operations across different backends
+ * Defines contract for database operations across different backends.
+ * Every operation receives the entity context so the adapter can resolve
+ * field types, indexed columns and the entity's storage mode.
  */
 export interface IDatabaseAdapter {
   /**
    * Create a new record
    */
-  create(entityId: number, payload: CreateDynamicRecordDto): Promise<DynamicRecordDto>;
+  create(
+    context: DynamicEntityContext,
+    payload: Record<string, any>,
+  ): Promise<DynamicRecordDto>;
 
   /**
-   * Find many records with pagination
+   * Find many records with pagination, filters and sorting. The total is
+   * null when not counted.
    */
   findMany(
-    entityId: number,
-    options?: {
-      page?: number;
-      pageSize?: number;
-      filters?: { [key: string]: any };
-    },
+    context: DynamicEntityContext,
+    options?: QueryOptions,
+  ): Promise<{ records: DynamicRecordDto[]; total: number | null }>;
+
+  /**
+   * Find a single record by ID, optionally with only some fields of its data
+   */
+  findOne(
+    context: DynamicEntityContext,
+    recordId: string,
+    fields?: string[],
+  ): Promise<DynamicRecordDto | null>;
+
+  /**
+   * Find the live records with the given IDs, in no particular order
+   */
+  findByIds(
+    context: DynamicEntityContext,
+    recordIds: string[],
+  ): Promise<DynamicRecordDto[]>;
+
+  /**
+   * Find the live records with the given IDs as last committed, keeping
+   * them from being changed or deleted until the caller's transaction
+   * ends where the database can lock records
+   */
+  lockByIds(
+    context: DynamicEntityContext,
+    recordIds: string[],
+  ): Promise<DynamicRecordDto[]>;
+
+  /**
+   * Find soft-deleted records, the latest deleted first
+   */
+  findDeleted(
+    context: DynamicEntityContext,
+    options: DeletedQueryOptions,
   ): Promise<{ records: DynamicRecordDto[]; total: number }>;
 
   /**
-   * Find a single record by ID
+   * Find a soft-deleted record by ID
    */
-  findOne(entityId: number, recordId: string): Promise<DynamicRecordDto | null>;
+  findDeletedOne(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<DynamicRecordDto | null>;
 
   /**
    * Count records for an entity
    */
-  count(entityId: number, filters?: { [key: string]: any }): Promise<number>;
+  count(
+    context: DynamicEntityContext,
+    filters?: FilterCondition[],
+  ): Promise<number>;
+
+  /**
+   * Group the records matching the filters and compute metrics per group,
+   * ordered by group key, returning at most `limit` groups
+   */
+  aggregate(
+    context: DynamicEntityContext,
+    query: AggregateQuery,
+    filters: FilterCondition[],
+    limit: number,
+  ): Promise<AggregateGroupDto[]>;
+
+  /**
+   * Update a live record of the entity and raise its version. With
+   * `expectedVersion`, only a record still at that version is updated;
+   * null means nothing was.
+   */
+  update(
+    context: DynamicEntityContext,
+    recordId: string,
+    payload: Record<string, any>,
+    expectedVersion?: number,
+  ): Promise<DynamicRecordDto | null>;
+
+  /**
+   * Soft delete a live record of the entity and raise its version,
+   * returning the new one. With `expectedVersion`, only a record still at
+   * that version is deleted; null means nothing was.
+   */
+  softDelete(
+    context: DynamicEntityContext,
+    recordId: string,
+    expectedVersion?: number,
+  ): Promise<number | null>;
+
+  /**
+   * Hard delete a record of the entity, live or soft-deleted
+   */
+  hardDelete(context: DynamicEntityContext, recordId: string): Promise<void>;
+
+  /**
+   * Bring back a soft-deleted record of the entity and raise its version,
+   * returning the new one; null means there was none
+   */
+  restore(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<number | null>;
+
+  /**
+   * Read stored records of a JSON-mode entity, soft-deleted ones included,
+   * in id order. Used to copy an entity's records to another database.
+   */
+  exportBatch(
+    context: DynamicEntityContext,
+    options: ExportOptions,
+  ): Promise<StoredRecord[]>;
+
+  /**
+   * Write stored records as they are, keeping ids and timestamps and
+   * replacing records that already exist
+   */
+  importBatch(
+    context: DynamicEntityContext,
+    records: StoredRecord[],
+  ): Promise<void>;
+
+  /**
+   * Count stored records of an entity, soft-deleted ones included
+   */
+  countStored(context: DynamicEntityContext): Promise<number>;
+
+  /**
+   * Remove the stored records of an entity, every one or those with the
+   * given ids
+   */
+  purge(context: DynamicEntityContext, ids?: string[]): Promise<void>;
+
+  /**
+   * Create what the adapter needs to store relationship links
+   */
+  prepareLinkStore(): Promise<void>;
+
+  /**
+   * Link two records of a relationship; linking them again changes nothing
+   */
+  link(link: RecordLink): Promise<void>;
+
+  /**
+   * Remove the links of a relationship matching a filter, returning how many
+   */
+  unlink(relationshipId: number, filter: LinkFilter): Promise<number>;
 
   /**
-   * Update a record
+   * Find links of a relationship in the order they were made
    */
-  update(recordId: string, payload: { [key: string]: any }): Promise<DynamicRecordDto>;
+  findLinks(
+    relationshipId: number,
+    filter: LinkFilter,
+    pagination: { page: number; pageSize: number },
+  ): Promise<{ links: RecordLink[]; total: number }>;
 
   /**
-   * Soft delete a record
+   * Whether the database can run transactions
    */
-  softDelete(recordId: string): Promise<void>;
+  supportsTransactions(): Promise<boolean>;
 
   /**
-   * Hard delete a record
+   * Run `work` in a transaction of the database, which the adapter's
+   * operations made while it runs take part in. Work started inside a
+   * transaction joins it.
    */
-  hardDelete(recordId: string): Promise<void>;
+  transaction<T>(work: () => Promise<T>): Promise<T>;
 
   /**
    * Get database type
@@ -60,12 +211,39 @@ export interface IDatabaseAdapter {
 
 /**
  * Query Options
+ * With `keyset`, page and pageSize are ignored. `withTotal: false` skips
+ * counting the matching records. `fields` limits the data read to those
+ * fields.
  */
 export interface QueryOptions {
   page?: number;
   pageSize?: number;
-  filters?: { [key: string]: any };
-  sort?: { [key: string]: 1 | -1 };
+  filters?: FilterCondition[];
+  sort?: SortSpec[];
+  keyset?: KeysetOptions;
+  withTotal?: boolean;
+  fields?: string[];
+}
+
+/**
+ * Deleted Query Options
+ * Optionally only records deleted before a point in time
+ */
+export interface DeletedQueryOptions {
+  page: number;
+  pageSize: number;
+  deletedBefore?: Date;
+}
+
+/**
+ * Export Options
+ * Records come after `afterId` in id order, optionally only those with
+ * the given ids
+ */
+export interface ExportOptions {
+  afterId?: string | null;
+  ids?: string[];
+  limit: number;
 }
 
 /**
@@ -78,4 +256,24 @@ export interface StoredRecord {
   createdAt: Date;
   updatedAt: Date;
   isDeleted: boolean;
+  deletedAt: Date | null;
+  version: number;
+}
+
+/**
+ * Link between a source and a target record of a many-to-many relationship
+ */
+export interface RecordLink {
+  relationshipId: number;
+  sourceId: string;
+  targetId: string;
+  createdAt?: Date;
+}
+
+/**
+ * Links with the given source and/or target record; empty matches all
+ */
+export interface LinkFilter {
+  sourceId?: string;
+  targetId?: string;
 }
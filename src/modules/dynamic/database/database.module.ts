@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { CoreModule } from '@/core/core.module';
+import { DynamicSqlBuilder } from '../engine/sql-builder.service';
+import { DatabaseService } from './database.service';
+import { MySQLAdapter } from './mysql.adapter';
+import { MongoDBAdapter } from './mongodb.adapter';
+import { PhysicalTableService } from './physical-table.service';
+
+/**
+ * Database adapters and the service routing entities to them.
+ * Kept apart from DynamicModule so metadata can validate storage backends
+ * without depending on the record endpoints.
+ */
+@Module({
+  imports: [CoreModule],
+  providers: [
+    DatabaseService,
+    MySQLAdapter,
+    MongoDBAdapter,
+    PhysicalTableService,
+    DynamicSqlBuilder,
+  ],
+  exports: [DatabaseService],
+})
+export class DatabaseModule {}
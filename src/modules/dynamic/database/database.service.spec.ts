@@ -0,0 +1,63 @@
+import { NotFoundException, PreconditionFailedException } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+
+// Physical tables skip the write fence, so writes go straight to the adapter
+const context = {
+  entity: { id: 7, entityName: 'Customer', storageMode: 'physical', tableName: 'customers' },
+  fields: [],
+} as any;
+
+describe('DatabaseService', () => {
+  let mysqlAdapter: any;
+  let service: DatabaseService;
+
+  beforeEach(() => {
+    mysqlAdapter = {
+      getType: () => 'mysql',
+      update: jest.fn(async () => null),
+      softDelete: jest.fn(async () => null),
+      restore: jest.fn(async () => null),
+      findDeletedOne: jest.fn(async () => null),
+    };
+    const config = { get: jest.fn((_key: string, fallback: string) => fallback) };
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+    service = new DatabaseService(
+      config as any,
+      {} as any,
+      logger as any,
+      mysqlAdapter,
+      undefined,
+    );
+  });
+
+  it('fails with 412 when a record moved on from the expected version', async () => {
+    await expect(service.update(context, 'r1', {}, 3)).rejects.toThrow(
+      PreconditionFailedException,
+    );
+    await expect(service.softDelete(context, 'r1', 3)).rejects.toThrow(
+      'Record r1 of Customer was changed since version 3',
+    );
+  });
+
+  it('fails with 404 when there is no live record to change', async () => {
+    await expect(service.update(context, 'r1', {})).rejects.toThrow(NotFoundException);
+    await expect(service.softDelete(context, 'r1')).rejects.toThrow(
+      'Record r1 not found in Customer',
+    );
+  });
+
+  it('returns the version a soft delete or restore raised the record to', async () => {
+    mysqlAdapter.softDelete.mockResolvedValue(4);
+    mysqlAdapter.restore.mockResolvedValue(5);
+
+    await expect(service.softDelete(context, 'r1', 3)).resolves.toBe(4);
+    await expect(service.restore(context, 'r1')).resolves.toBe(5);
+  });
+
+  it('fails with 404 when restoring a record that is not in the trash', async () => {
+    await expect(service.restore(context, 'r1')).rejects.toThrow(
+      'Record r1 not found in the trash of Customer',
+    );
+  });
+});
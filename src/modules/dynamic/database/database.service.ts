@@ -1,29 +1,80 @@
-import { Injectable, Inject, Optional } from '@nestjs/common';
+import {
+  Injectable,
+  Optional,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  PreconditionFailedException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { AsyncLocalStorage } from 'async_hooks';
+import { PrismaService } from '@/core/database/prisma.service';
 import { LoggerService } from '@/core/logger/logger.service';
-import { IDatabaseAdapter } from './database.adapter';
+import {
+  DeletedQueryOptions,
+  IDatabaseAdapter,
+  LinkFilter,
+  QueryOptions,
+  RecordLink,
+} from './database.adapter';
 import { MySQLAdapter } from './mysql.adapter';
 import { MongoDBAdapter } from './mongodb.adapter';
-import { DynamicRecordDto, CreateDynamicRecordDto } from '@/common/dtos/dynamic.dto';
+import {
+  AggregateGroupDto,
+  DynamicRecordDto,
+} from '@/common/dtos/dynamic.dto';
+import { UniqueConflictResponse } from '@/common/interfaces/response.interface';
+import {
+  AggregateQuery,
+  DynamicEntityContext,
+  FilterCondition,
+} from '../engine/query.types';
+import { toComparable } from '../engine/field-values';
+import {
+  uniqueConstraintName,
+  violatedUniqueFieldId,
+} from '@/core/database/unique-constraint';
+
+/**
+ * Longest a JSON-mode record write may hold the entity's write fence
+ */
+const WRITE_FENCE_TIMEOUT_MS = 30000;
+
+/**
+ * Databases taking part in the transaction a caller runs in; a strict
+ * transaction refuses writes to other databases
+ */
+interface TransactionScope {
+  backends: Set<string>;
+  strict: boolean;
+}
+
+interface WriteFence {
+  storageBackend: string | null;
+  writesLocked: number | boolean;
+  activeMigrationId: number | null;
+}
 
 /**
  * Database Service
- * Manages multiple database adapters and routes operations based on configuration
+ * Manages multiple database adapters and routes operations to the
+ * storage backend set on each entity definition
  */
 @Injectable()
 export class DatabaseService {
   private adapters: Map<string, IDatabaseAdapter> = new Map();
   private defaultAdapter: IDatabaseAdapter;
-  private databaseRouting: Map<string, string> = new Map(); // entityName => databaseType
+  private transactions = new AsyncLocalStorage<TransactionScope>();
 
   constructor(
     private readonly config: ConfigService,
+    private readonly prisma: PrismaService,
     private readonly logger: LoggerService,
     private readonly mysqlAdapter: MySQLAdapter,
     @Optional() private readonly mongodbAdapter: MongoDBAdapter,
   ) {
     this.initializeAdapters();
-    this.loadDatabaseRouting();
   }
 
   /**
@@ -50,119 +101,484 @@ export class DatabaseService {
   }
 
   /**
-   * Load entity-specific database routing from configuration
+   * Get the appropriate adapter for an entity
    */
-  private loadDatabaseRouting(): void {
-    // Example: ROUTING_CUSTOMER=mongodb,ROUTING_ORDER=mongodb
-    Object.entries(process.env).forEach(([key, value]) => {
-      if (key.startsWith('ROUTING_')) {
-        const entityName = key.replace('ROUTING_', '').toLowerCase();
-        this.databaseRouting.set(entityName, value as string);
-        this.logger.debug(
-          `Entity ${entityName} routed to database: ${value}`,
-          'DatabaseService',
-        );
-      }
-    });
+  private getAdapterForEntity(context: DynamicEntityContext): IDatabaseAdapter {
+    // Physical tables only exist in MySQL
+    if (context.entity.storageMode === 'physical') {
+      return this.mysqlAdapter;
+    }
+
+    const dbType = context.entity.storageBackend;
+    if (!dbType) {
+      return this.defaultAdapter;
+    }
+
+    const adapter = this.adapters.get(dbType);
+    if (!adapter) {
+      throw new ServiceUnavailableException(
+        `Storage backend '${dbType}' of entity '${context.entity.entityName}' is not available`,
+      );
+    }
+    return adapter;
   }
 
   /**
-   * Get the appropriate adapter for an entity
+   * Run `work` all-or-nothing, in a transaction of every database that
+   * runs them, committed together once it's done: MongoDB's first, so
+   * only a failure between the two commits can tell them apart.
+   * Writes to a database without transactions (a standalone MongoDB)
+   * are made right away or, when `strict`, fail with 400.
+   * Work started inside a transaction joins it.
    */
-  private getAdapterForEntity(entityName: string): IDatabaseAdapter {
-    const dbType = this.databaseRouting.get(entityName.toLowerCase());
-    if (dbType && this.adapters.has(dbType)) {
-      return this.adapters.get(dbType)!;
+  async transaction<T>(work: () => Promise<T>, strict = false): Promise<T> {
+    if (this.transactions.getStore()) {
+      return work();
+    }
+
+    const adapters: IDatabaseAdapter[] = [];
+    for (const adapter of this.adapters.values()) {
+      if (await adapter.supportsTransactions()) {
+        adapters.push(adapter);
+      }
     }
-    return this.defaultAdapter;
+
+    const run = adapters.reduceRight(
+      (inner, adapter) => () => adapter.transaction(inner),
+      work,
+    );
+    return this.transactions.run(
+      { backends: new Set(adapters.map((a) => a.getType())), strict },
+      run,
+    );
+  }
+
+  /**
+   * Whether writes to an entity can take part in a transaction
+   */
+  async supportsTransactions(context: DynamicEntityContext): Promise<boolean> {
+    return this.getAdapterForEntity(context).supportsTransactions();
   }
 
   /**
    * Create a new record
    */
   async create(
-    entityName: string,
-    entityId: number,
-    payload: CreateDynamicRecordDto,
+    context: DynamicEntityContext,
+    payload: Record<string, any>,
   ): Promise<DynamicRecordDto> {
-    const adapter = this.getAdapterForEntity(entityName);
+    const adapter = this.getAdapterForEntity(context);
     this.logger.debug(
-      `Creating record in ${adapter.getType()} for entity: ${entityName}`,
+      `Creating record in ${adapter.getType()} for entity: ${context.entity.entityName}`,
       'DatabaseService',
     );
-    return adapter.create(entityId, payload);
+    try {
+      return await this.fenced(
+        context,
+        () => adapter.create(context, payload),
+        (record) => record.id,
+      );
+    } catch (error) {
+      throw await this.toUniqueConflict(adapter, context, payload, error);
+    }
   }
 
   /**
-   * Find many records with pagination
+   * Find many records with pagination, filters and sorting
    */
   async findMany(
-    entityName: string,
-    entityId: number,
-    options?: {
-      page?: number;
-      pageSize?: number;
-      filters?: { [key: string]: any };
-    },
-  ): Promise<{ records: DynamicRecordDto[]; total: number }> {
-    const adapter = this.getAdapterForEntity(entityName);
-    return adapter.findMany(entityId, options);
+    context: DynamicEntityContext,
+    options?: QueryOptions,
+  ): Promise<{ records: DynamicRecordDto[]; total: number | null }> {
+    const adapter = this.getAdapterForEntity(context);
+    return adapter.findMany(context, options);
+  }
+
+  /**
+   * Group records and compute metrics per group
+   */
+  async aggregate(
+    context: DynamicEntityContext,
+    query: AggregateQuery,
+    filters: FilterCondition[],
+    limit: number,
+  ): Promise<AggregateGroupDto[]> {
+    const adapter = this.getAdapterForEntity(context);
+    return adapter.aggregate(context, query, filters, limit);
   }
 
   /**
    * Find a single record by ID
    */
   async findOne(
-    entityName: string,
-    entityId: number,
+    context: DynamicEntityContext,
     recordId: string,
+    fields?: string[],
   ): Promise<DynamicRecordDto | null> {
-    const adapter = this.getAdapterForEntity(entityName);
-    return adapter.findOne(entityId, recordId);
+    const adapter = this.getAdapterForEntity(context);
+    return adapter.findOne(context, recordId, fields);
+  }
+
+  /**
+   * Find the live records with the given IDs
+   */
+  async findByIds(
+    context: DynamicEntityContext,
+    recordIds: string[],
+  ): Promise<DynamicRecordDto[]> {
+    const adapter = this.getAdapterForEntity(context);
+    return adapter.findByIds(context, recordIds);
+  }
+
+  /**
+   * Find the live records with the given IDs as last committed, keeping
+   * them until the caller's transaction ends where the database can
+   */
+  async lockByIds(
+    context: DynamicEntityContext,
+    recordIds: string[],
+  ): Promise<DynamicRecordDto[]> {
+    const adapter = this.getAdapterForEntity(context);
+    return adapter.lockByIds(context, recordIds);
+  }
+
+  /**
+   * Find soft-deleted records, the latest deleted first
+   */
+  async findDeleted(
+    context: DynamicEntityContext,
+    options: DeletedQueryOptions,
+  ): Promise<{ records: DynamicRecordDto[]; total: number }> {
+    const adapter = this.getAdapterForEntity(context);
+    return adapter.findDeleted(context, options);
+  }
+
+  /**
+   * Find a soft-deleted record by ID
+   */
+  async findDeletedOne(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<DynamicRecordDto | null> {
+    const adapter = this.getAdapterForEntity(context);
+    return adapter.findDeletedOne(context, recordId);
   }
 
   /**
    * Count records for an entity
    */
-  async count(entityName: string, entityId: number): Promise<number> {
-    const adapter = this.getAdapterForEntity(entityName);
-    return adapter.count(entityId);
+  async count(
+    context: DynamicEntityContext,
+    filters?: FilterCondition[],
+  ): Promise<number> {
+    const adapter = this.getAdapterForEntity(context);
+    return adapter.count(context, filters);
   }
 
   /**
-   * Update a record
+   * Update a record; with `expectedVersion`, fail with 412 when the record
+   * was changed since that version was read
    */
   async update(
-    entityName: string,
+    context: DynamicEntityContext,
     recordId: string,
-    payload: { [key: string]: any },
+    payload: Record<string, any>,
+    expectedVersion?: number,
   ): Promise<DynamicRecordDto> {
-    const adapter = this.getAdapterForEntity(entityName);
+    const adapter = this.getAdapterForEntity(context);
     this.logger.debug(
-      `Updating record in ${adapter.getType()} for entity: ${entityName}`,
+      `Updating record in ${adapter.getType()} for entity: ${context.entity.entityName}`,
       'DatabaseService',
     );
-    return adapter.update(recordId, payload);
+
+    let record: DynamicRecordDto | null;
+    try {
+      record = await this.fenced(
+        context,
+        () => adapter.update(context, recordId, payload, expectedVersion),
+        recordId,
+      );
+    } catch (error) {
+      throw await this.toUniqueConflict(
+        adapter,
+        context,
+        payload,
+        error,
+        recordId,
+      );
+    }
+
+    if (!record) {
+      throw this.notWritten(context, recordId, expectedVersion);
+    }
+    return record;
   }
 
   /**
-   * Soft delete a record
+   * Soft delete a record, returning its new version; with
+   * `expectedVersion`, fail with 412 when the record was changed since
+   * that version was read
    */
-  async softDelete(entityName: string, recordId: string): Promise<void> {
-    const adapter = this.getAdapterForEntity(entityName);
+  async softDelete(
+    context: DynamicEntityContext,
+    recordId: string,
+    expectedVersion?: number,
+  ): Promise<number> {
+    const adapter = this.getAdapterForEntity(context);
     this.logger.debug(
-      `Soft deleting record in ${adapter.getType()} for entity: ${entityName}`,
+      `Soft deleting record in ${adapter.getType()} for entity: ${context.entity.entityName}`,
       'DatabaseService',
     );
-    return adapter.softDelete(recordId);
+    const version = await this.fenced(
+      context,
+      () => adapter.softDelete(context, recordId, expectedVersion),
+      recordId,
+    );
+
+    if (version === null) {
+      throw this.notWritten(context, recordId, expectedVersion);
+    }
+    return version;
   }
 
   /**
    * Hard delete a record
    */
-  async hardDelete(entityName: string, recordId: string): Promise<void> {
-    const adapter = this.getAdapterForEntity(entityName);
-    return adapter.hardDelete(recordId);
+  async hardDelete(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<void> {
+    const adapter = this.getAdapterForEntity(context);
+    return this.fenced(
+      context,
+      () => adapter.hardDelete(context, recordId),
+      recordId,
+    );
+  }
+
+  /**
+   * Bring back a soft-deleted record, returning its new version; fails
+   * with 404 when it isn't in the trash and with 409 when a live record
+   * took one of its unique values in the meantime
+   */
+  async restore(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<number> {
+    const adapter = this.getAdapterForEntity(context);
+    let version: number | null;
+    try {
+      version = await this.fenced(
+        context,
+        () => adapter.restore(context, recordId),
+        recordId,
+      );
+    } catch (error) {
+      const record = await adapter.findDeletedOne(context, recordId);
+      throw await this.toUniqueConflict(
+        adapter,
+        context,
+        record?.data ?? {},
+        error,
+        recordId,
+      );
+    }
+
+    if (version === null) {
+      throw new NotFoundException(
+        `Record ${recordId} not found in the trash of ${context.entity.entityName}`,
+      );
+    }
+    return version;
+  }
+
+  /**
+   * Create the link store of a relationship. Links live in the database
+   * of the relationship's source entity.
+   */
+  async prepareLinkStore(source: DynamicEntityContext): Promise<void> {
+    return this.getAdapterForEntity(source).prepareLinkStore();
+  }
+
+  /**
+   * Link two records of a relationship
+   */
+  async link(source: DynamicEntityContext, link: RecordLink): Promise<void> {
+    const adapter = this.getAdapterForEntity(source);
+    return this.fenced(source, () => adapter.link(link));
+  }
+
+  /**
+   * Remove links of a relationship, returning how many
+   */
+  async unlink(
+    source: DynamicEntityContext,
+    relationshipId: number,
+    filter: LinkFilter,
+  ): Promise<number> {
+    const adapter = this.getAdapterForEntity(source);
+    return this.fenced(source, () => adapter.unlink(relationshipId, filter));
+  }
+
+  /**
+   * Find links of a relationship
+   */
+  async findLinks(
+    source: DynamicEntityContext,
+    relationshipId: number,
+    filter: LinkFilter,
+    pagination: { page: number; pageSize: number },
+  ): Promise<{ links: RecordLink[]; total: number }> {
+    return this.getAdapterForEntity(source).findLinks(
+      relationshipId,
+      filter,
+      pagination,
+    );
+  }
+
+  /**
+   * Error for a write that found no record to change: 412 when it expected
+   * a version, the record having been changed or deleted since, 404
+   * otherwise
+   */
+  private notWritten(
+    context: DynamicEntityContext,
+    recordId: string,
+    expectedVersion?: number,
+  ): Error {
+    if (expectedVersion !== undefined) {
+      return new PreconditionFailedException(
+        `Record ${recordId} of ${context.entity.entityName} was changed since version ${expectedVersion}`,
+      );
+    }
+    return new NotFoundException(
+      `Record ${recordId} not found in ${context.entity.entityName}`,
+    );
+  }
+
+  /**
+   * Turn a unique constraint violation into a 409 naming the field and the
+   * record already holding the value; other errors are returned as they are
+   */
+  private async toUniqueConflict(
+    adapter: IDatabaseAdapter,
+    context: DynamicEntityContext,
+    payload: Record<string, any>,
+    error: any,
+    recordId?: string,
+  ): Promise<any> {
+    const fieldId = violatedUniqueFieldId(error);
+    const field = context.fields.find((f) => f.id === fieldId);
+    if (!field) {
+      return error;
+    }
+
+    // Looked up through the unique column, which compares like the constraint
+    const { records } = await adapter.findMany(context, {
+      page: 1,
+      pageSize: 2,
+      filters: [
+        {
+          fieldName: field.fieldName,
+          fieldType: field.fieldType,
+          operator: 'eq',
+          value: toComparable(field.fieldType, payload[field.fieldName]),
+          indexedColumn: uniqueConstraintName(field.id),
+        },
+      ],
+    });
+    const existing = records.find((r) => r.id !== recordId);
+    const response: UniqueConflictResponse = {
+      message: existing
+        ? `Field '${field.displayName}' must be unique, the value is already used by record ${existing.id}`
+        : `Field '${field.displayName}' must be unique, the value is already used`,
+      error: 'Conflict',
+      field: field.fieldName,
+      existingRecordId: existing?.id ?? null,
+    };
+
+    return new ConflictException(response);
+  }
+
+  /**
+   * Get a registered adapter by database type
+   */
+  getAdapter(dbType: string): IDatabaseAdapter {
+    const adapter = this.adapters.get(dbType);
+    if (!adapter) {
+      throw new ServiceUnavailableException(
+        `Storage backend '${dbType}' is not available`,
+      );
+    }
+    return adapter;
+  }
+
+  /**
+   * Run a write of a JSON-mode entity under its write fence: a shared lock
+   * on the entity definition row, taken in a transaction the write runs
+   * in (see PrismaService.client) and held until it commits. A storage
+   * migration updating the row waits for writes holding it, so it can
+   * lock writes or start logging changes knowing none is still running,
+   * on any instance. Writes to MongoDB hold the lock in a MySQL
+   * transaction too, the entity definitions being kept there. In a
+   * strict transaction, writes to a database outside of it fail with 400.
+   * The write fails with 503 while writes are locked or when the entity
+   * was switched to another backend since it was read. While a migration
+   * is active the written record is logged for it, before the write when
+   * its id is known, after it for new records.
+   */
+  private async fenced<T>(
+    context: DynamicEntityContext,
+    write: () => Promise<T>,
+    changedRecord?: string | ((result: T) => string),
+  ): Promise<T> {
+    const scope = this.transactions.getStore();
+    const backend = this.getAdapterForEntity(context).getType();
+    if (scope?.strict && !scope.backends.has(backend)) {
+      throw new BadRequestException(
+        `Entity '${context.entity.entityName}' is stored in a ${backend} database without transactions and can't be written all-or-nothing`,
+      );
+    }
+
+    // Physical tables never move to another database
+    if (context.entity.storageMode === 'physical') {
+      return write();
+    }
+
+    return this.prisma.transaction(async () => {
+      const [fence] = await this.prisma.client.$queryRaw<WriteFence[]>`
+        SELECT storageBackend, writesLocked, activeMigrationId
+        FROM entity_definitions
+        WHERE id = ${context.entity.id}
+        LOCK IN SHARE MODE`;
+
+      if (
+        !fence ||
+        Boolean(Number(fence.writesLocked)) ||
+        (fence.storageBackend ?? null) !== (context.entity.storageBackend ?? null)
+      ) {
+        throw new ServiceUnavailableException(
+          `Entity '${context.entity.entityName}' is being migrated to another database, retry shortly`,
+        );
+      }
+
+      const logChange = async (recordId: string) => {
+        if (fence.activeMigrationId) {
+          await this.prisma.client.storageMigrationChange.create({
+            data: { migrationId: fence.activeMigrationId, recordId },
+          });
+        }
+      };
+
+      if (typeof changedRecord === 'string') {
+        await logChange(changedRecord);
+      }
+      const result = await write();
+      if (typeof changedRecord === 'function') {
+        await logChange(changedRecord(result));
+      }
+      return result;
+    }, WRITE_FENCE_TIMEOUT_MS);
   }
 
   /**
@@ -181,8 +597,11 @@ export class DatabaseService {
   /**
    * Get routing information for an entity
    */
-  getEntityRouting(entityName: string): { database: string; adapter: string } {
-    const adapter = this.getAdapterForEntity(entityName);
+  getEntityRouting(context: DynamicEntityContext): {
+    database: string;
+    adapter: string;
+  } {
+    const adapter = this.getAdapterForEntity(context);
     return {
       database: adapter.getType(),
       adapter: adapter.constructor.name,
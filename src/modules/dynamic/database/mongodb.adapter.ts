@@ -1,33 +1,83 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
 import { MongoDBService } from '@/core/database/mongodb.service';
 import { LoggerService } from '@/core/logger/logger.service';
-import { IDatabaseAdapter } from './database.adapter';
-import { DynamicRecordDto, CreateDynamicRecordDto } from '@/common/dtos/dynamic.dto';
-import { ObjectId } from 'mongodb';
+import {
+  DeletedQueryOptions,
+  ExportOptions,
+  IDatabaseAdapter,
+  LinkFilter,
+  QueryOptions,
+  RecordLink,
+  StoredRecord,
+} from './database.adapter';
+import {
+  AggregateGroupDto,
+  DynamicRecordDto,
+} from '@/common/dtos/dynamic.dto';
+import {
+  AggregateQuery,
+  DEFAULT_SORT,
+  DynamicEntityContext,
+  FilterCondition,
+  MetricSpec,
+  SortSpec,
+} from '../engine/query.types';
+import { ComparableValue } from '../engine/field-values';
+import { toAggregateGroup } from '../engine/aggregate-result';
+import { Decimal128, ObjectId } from 'mongodb';
 
 /**
  * MongoDB Database Adapter
- * Implementation of IDatabaseAdapter for MongoDB
+ * Implementation of IDatabaseAdapter for MongoDB. Operations run in the
+ * transaction the caller runs in, if any (see MongoDBService.session).
  */
 @Injectable()
-export class MongoDBAdapter implements IDatabaseAdapter {
+export class MongoDBAdapter implements IDatabaseAdapter, OnApplicationBootstrap {
   constructor(
     private readonly mongoDb: MongoDBService,
     private readonly logger: LoggerService,
   ) {}
 
-  async create(entityId: number, payload: CreateDynamicRecordDto): Promise<DynamicRecordDto> {
+  /**
+   * Give records deleted before deletion times were kept their last
+   * update as deletion time, so the trash can sort and purge them
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      await this.mongoDb
+        .getCollection('dynamic_records')
+        .updateMany({ isDeleted: true, deletedAt: { $exists: false } }, [
+          { $set: { deletedAt: '$updatedAt' } },
+        ]);
+    } catch (error) {
+      this.logger.error(
+        'Error adding deletion times to deleted records',
+        error.message,
+        'MongoDBAdapter',
+      );
+    }
+  }
+
+  async create(
+    context: DynamicEntityContext,
+    payload: Record<string, any>,
+  ): Promise<DynamicRecordDto> {
     try {
       const collection = this.mongoDb.getCollection('dynamic_records');
       const now = new Date();
+      const entityId = context.entity.id;
 
-      const result = await collection.insertOne({
-        entityId,
-        data: payload,
-        createdAt: now,
-        updatedAt: now,
-        isDeleted: false,
-      });
+      const result = await collection.insertOne(
+        {
+          entityId,
+          data: payload,
+          createdAt: now,
+          updatedAt: now,
+          isDeleted: false,
+          version: 1,
+        },
+        { session: this.mongoDb.session },
+      );
 
       return {
         id: result.insertedId.toString(),
@@ -35,6 +85,7 @@ export class MongoDBAdapter implements IDatabaseAdapter {
         data: payload,
         createdAt: now,
         updatedAt: now,
+        version: 1,
       };
     } catch (error) {
       this.logger.error('MongoDB create failed', error, 'MongoDBAdapter');
@@ -43,35 +94,73 @@ export class MongoDBAdapter implements IDatabaseAdapter {
   }
 
   async findMany(
-    entityId: number,
-    options?: {
-      page?: number;
-      pageSize?: number;
-      filters?: { [key: string]: any };
-    },
-  ): Promise<{ records: DynamicRecordDto[]; total: number }> {
+    context: DynamicEntityContext,
+    options?: QueryOptions,
+  ): Promise<{ records: DynamicRecordDto[]; total: number | null }> {
     try {
       const page = options?.page || 1;
       const pageSize = options?.pageSize || 10;
-      const skip = (page - 1) * pageSize;
+      const sort = options?.sort?.length ? options.sort : DEFAULT_SORT;
+      const keyset = options?.keyset;
 
       const collection = this.mongoDb.getCollection('dynamic_records');
+      const match = this.toMatch(context, options?.filters);
 
-      const [records, total] = await Promise.all([
-        collection
-          .find({
-            entityId,
-            isDeleted: false,
-          })
-          .sort({ createdAt: -1 })
-          .skip(skip)
-          .limit(pageSize)
-          .toArray(),
-        collection.countDocuments({
-          entityId,
-          isDeleted: false,
-        }),
-      ]);
+      // Stored values are canonical, so keys sort on them directly and an
+      // index can serve the sort; decimals are stored as text and sort on
+      // a converted copy
+      const decimalKeys: { [key: string]: any } = {};
+      const sortOrder: { [key: string]: 1 | -1 } = {};
+      const dropDecimalKeys: { [key: string]: 0 } = {};
+      sort.forEach((spec, i) => {
+        const path = this.toSortPath(spec, i);
+        if (!spec.system && spec.fieldType === 'decimal') {
+          decimalKeys[path] = this.toTypedExpression(
+            'decimal',
+            `$data.${spec.fieldName}`,
+          );
+          dropDecimalKeys[path] = 0;
+        }
+        sortOrder[path] = spec.direction === 'asc' ? 1 : -1;
+      });
+      const computed = Object.keys(decimalKeys).length
+        ? [{ $addFields: decimalKeys }]
+        : [];
+
+      // Keyset pages start after a record instead of skipping an offset
+      const after = keyset?.after
+        ? [{ $match: this.toKeysetMatch(sort, keyset.after) }]
+        : [];
+      const range = keyset
+        ? [{ $limit: keyset.limit }]
+        : [{ $skip: (page - 1) * pageSize }, { $limit: pageSize }];
+      const projection = options?.fields
+        ? [{ $project: this.toProjection(options.fields) }]
+        : computed.length
+          ? [{ $project: dropDecimalKeys }]
+          : [];
+
+      const session = this.mongoDb.session;
+      const [records, total] = await this.readBoth(
+        () =>
+          collection
+            .aggregate(
+              [
+                { $match: match },
+                ...computed,
+                ...after,
+                { $sort: sortOrder },
+                ...range,
+                ...projection,
+              ],
+              { session },
+            )
+            .toArray(),
+        async () =>
+          options?.withTotal === false
+            ? null
+            : collection.countDocuments(match, { session }),
+      );
 
       return {
         records: records.map((r) => this.toDynamicRecordDto(r)),
@@ -83,15 +172,25 @@ export class MongoDBAdapter implements IDatabaseAdapter {
     }
   }
 
-  async findOne(entityId: number, recordId: string): Promise<DynamicRecordDto | null> {
+  async findOne(
+    context: DynamicEntityContext,
+    recordId: string,
+    fields?: string[],
+  ): Promise<DynamicRecordDto | null> {
     try {
       const collection = this.mongoDb.getCollection('dynamic_records');
 
-      const record = await collection.findOne({
-        _id: new ObjectId(recordId),
-        entityId,
-        isDeleted: false,
-      });
+      const record = await collection.findOne(
+        {
+          _id: this.toDocumentId(recordId),
+          entityId: context.entity.id,
+          isDeleted: false,
+        },
+        {
+          session: this.mongoDb.session,
+          ...(fields && { projection: this.toProjection(fields) }),
+        },
+      );
 
       return record ? this.toDynamicRecordDto(record) : null;
     } catch (error) {
@@ -100,78 +199,458 @@ export class MongoDBAdapter implements IDatabaseAdapter {
     }
   }
 
-  async count(entityId: number, filters?: { [key: string]: any }): Promise<number> {
+  async findByIds(
+    context: DynamicEntityContext,
+    recordIds: string[],
+  ): Promise<DynamicRecordDto[]> {
+    if (!recordIds.length) {
+      return [];
+    }
+
     try {
       const collection = this.mongoDb.getCollection('dynamic_records');
 
-      return await collection.countDocuments({
-        entityId,
-        isDeleted: false,
-        ...filters,
-      });
+      const records = await collection
+        .find(
+          {
+            _id: { $in: recordIds.map((id) => this.toDocumentId(id)) },
+            entityId: context.entity.id,
+            isDeleted: false,
+          },
+          { session: this.mongoDb.session },
+        )
+        .toArray();
+
+      return records.map((record) => this.toDynamicRecordDto(record));
     } catch (error) {
-      this.logger.error('MongoDB count failed', error, 'MongoDBAdapter');
+      this.logger.error('MongoDB findByIds failed', error, 'MongoDBAdapter');
       throw error;
     }
   }
 
-  async update(recordId: string, payload: { [key: string]: any }): Promise<DynamicRecordDto> {
+  /**
+   * MongoDB has no shared locks: the records are read again in the
+   * caller's transaction, and a concurrent change to them is only caught
+   * when the transaction writes them too
+   */
+  async lockByIds(
+    context: DynamicEntityContext,
+    recordIds: string[],
+  ): Promise<DynamicRecordDto[]> {
+    return this.findByIds(context, recordIds);
+  }
+
+  async findDeleted(
+    context: DynamicEntityContext,
+    options: DeletedQueryOptions,
+  ): Promise<{ records: DynamicRecordDto[]; total: number }> {
+    try {
+      const collection = this.mongoDb.getCollection('dynamic_records');
+      const match: { [key: string]: any } = {
+        entityId: context.entity.id,
+        isDeleted: true,
+      };
+      if (options.deletedBefore) {
+        match.deletedAt = { $lt: options.deletedBefore };
+      }
+
+      const session = this.mongoDb.session;
+      const [records, total] = await this.readBoth(
+        () =>
+          collection
+            .find(match, { session })
+            .sort({ deletedAt: -1, _id: 1 })
+            .skip((options.page - 1) * options.pageSize)
+            .limit(options.pageSize)
+            .toArray(),
+        () => collection.countDocuments(match, { session }),
+      );
+
+      return {
+        records: records.map((r) => this.toDynamicRecordDto(r)),
+        total,
+      };
+    } catch (error) {
+      this.logger.error('MongoDB findDeleted failed', error, 'MongoDBAdapter');
+      throw error;
+    }
+  }
+
+  async findDeletedOne(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<DynamicRecordDto | null> {
     try {
       const collection = this.mongoDb.getCollection('dynamic_records');
-      const now = new Date();
 
-      const result = await collection.findOneAndUpdate(
-        { _id: new ObjectId(recordId) },
+      const record = await collection.findOne(
         {
-          $set: {
-            data: payload,
-            updatedAt: now,
-          },
+          _id: this.toDocumentId(recordId),
+          entityId: context.entity.id,
+          isDeleted: true,
         },
-        { returnDocument: 'after' },
+        { session: this.mongoDb.session },
       );
 
-      if (!result.value) {
-        throw new Error('Record not found');
+      return record ? this.toDynamicRecordDto(record) : null;
+    } catch (error) {
+      this.logger.error('MongoDB findDeletedOne failed', error, 'MongoDBAdapter');
+      throw error;
+    }
+  }
+
+  async count(
+    context: DynamicEntityContext,
+    filters?: FilterCondition[],
+  ): Promise<number> {
+    try {
+      const collection = this.mongoDb.getCollection('dynamic_records');
+
+      return await collection.countDocuments(this.toMatch(context, filters), {
+        session: this.mongoDb.session,
+      });
+    } catch (error) {
+      this.logger.error('MongoDB count failed', error, 'MongoDBAdapter');
+      throw error;
+    }
+  }
+
+  async aggregate(
+    context: DynamicEntityContext,
+    query: AggregateQuery,
+    filters: FilterCondition[],
+    limit: number,
+  ): Promise<AggregateGroupDto[]> {
+    try {
+      const collection = this.mongoDb.getCollection('dynamic_records');
+
+      // Group on typed values, so "42" and 42 fall in the same group
+      const groupKey: { [key: string]: any } = {};
+      const groupOrder: { [key: string]: 1 } = {};
+      query.groupBy.forEach((group, i) => {
+        groupKey[`g${i}`] = this.toTypedExpression(
+          group.fieldType,
+          `$data.${group.fieldName}`,
+        );
+        groupOrder[`_id.g${i}`] = 1;
+      });
+
+      const accumulators: { [key: string]: any } = {};
+      query.metrics.forEach((metric, i) => {
+        accumulators[`m${i}`] = this.toAccumulator(metric);
+      });
+
+      const rows = await collection
+        .aggregate(
+          [
+            { $match: this.toMatch(context, filters) },
+            {
+              $group: {
+                _id: query.groupBy.length ? groupKey : null,
+                ...accumulators,
+              },
+            },
+            ...(query.groupBy.length ? [{ $sort: groupOrder }] : []),
+            { $limit: limit },
+          ],
+          { session: this.mongoDb.session },
+        )
+        .toArray();
+
+      // Without groupBy, no matching record still makes one group, as in SQL
+      if (!rows.length && !query.groupBy.length) {
+        return [
+          toAggregateGroup(
+            query,
+            [],
+            query.metrics.map((metric) =>
+              metric.function === 'count' || metric.function === 'sum' ? 0 : null,
+            ),
+          ),
+        ];
       }
 
-      return this.toDynamicRecordDto(result.value);
+      return rows.map((row) =>
+        toAggregateGroup(
+          query,
+          query.groupBy.map((_, i) => row._id[`g${i}`]),
+          query.metrics.map((_, i) => row[`m${i}`]),
+        ),
+      );
+    } catch (error) {
+      this.logger.error('MongoDB aggregate failed', error, 'MongoDBAdapter');
+      throw error;
+    }
+  }
+
+  async update(
+    context: DynamicEntityContext,
+    recordId: string,
+    payload: Record<string, any>,
+    expectedVersion?: number,
+  ): Promise<DynamicRecordDto | null> {
+    try {
+      const collection = this.mongoDb.getCollection('dynamic_records');
+      const now = new Date();
+
+      const record = await collection.findOneAndUpdate(
+        this.liveRecord(context, recordId, expectedVersion),
+        [
+          {
+            $set: {
+              data: { $literal: payload },
+              updatedAt: now,
+              version: { $add: [{ $ifNull: ['$version', 1] }, 1] },
+            },
+          },
+        ],
+        { returnDocument: 'after', session: this.mongoDb.session },
+      );
+
+      return record ? this.toDynamicRecordDto(record) : null;
     } catch (error) {
       this.logger.error('MongoDB update failed', error, 'MongoDBAdapter');
       throw error;
     }
   }
 
-  async softDelete(recordId: string): Promise<void> {
+  async softDelete(
+    context: DynamicEntityContext,
+    recordId: string,
+    expectedVersion?: number,
+  ): Promise<number | null> {
     try {
       const collection = this.mongoDb.getCollection('dynamic_records');
 
-      await collection.updateOne(
-        { _id: new ObjectId(recordId) },
-        {
-          $set: {
-            isDeleted: true,
-            updatedAt: new Date(),
+      const record = await collection.findOneAndUpdate(
+        this.liveRecord(context, recordId, expectedVersion),
+        [
+          {
+            $set: {
+              isDeleted: true,
+              deletedAt: new Date(),
+              updatedAt: new Date(),
+              version: { $add: [{ $ifNull: ['$version', 1] }, 1] },
+            },
           },
+        ],
+        {
+          returnDocument: 'after',
+          projection: { version: 1 },
+          session: this.mongoDb.session,
         },
       );
+      return record ? record.version : null;
     } catch (error) {
       this.logger.error('MongoDB softDelete failed', error, 'MongoDBAdapter');
       throw error;
     }
   }
 
-  async hardDelete(recordId: string): Promise<void> {
+  async hardDelete(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<void> {
     try {
       const collection = this.mongoDb.getCollection('dynamic_records');
 
-      await collection.deleteOne({ _id: new ObjectId(recordId) });
+      await collection.deleteOne(
+        {
+          _id: this.toDocumentId(recordId),
+          entityId: context.entity.id,
+        },
+        { session: this.mongoDb.session },
+      );
     } catch (error) {
       this.logger.error('MongoDB hardDelete failed', error, 'MongoDBAdapter');
       throw error;
     }
   }
 
+  async restore(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<number | null> {
+    try {
+      const collection = this.mongoDb.getCollection('dynamic_records');
+
+      const record = await collection.findOneAndUpdate(
+        {
+          _id: this.toDocumentId(recordId),
+          entityId: context.entity.id,
+          isDeleted: true,
+        },
+        [
+          {
+            $set: {
+              isDeleted: false,
+              deletedAt: null,
+              updatedAt: new Date(),
+              version: { $add: [{ $ifNull: ['$version', 1] }, 1] },
+            },
+          },
+        ],
+        {
+          returnDocument: 'after',
+          projection: { version: 1 },
+          session: this.mongoDb.session,
+        },
+      );
+      return record ? record.version : null;
+    } catch (error) {
+      this.logger.error('MongoDB restore failed', error, 'MongoDBAdapter');
+      throw error;
+    }
+  }
+
+  async exportBatch(
+    context: DynamicEntityContext,
+    options: ExportOptions,
+  ): Promise<StoredRecord[]> {
+    try {
+      const collection = this.mongoDb.getCollection('dynamic_records');
+      const filter: { [key: string]: any } = { entityId: context.entity.id };
+
+      if (options.afterId) {
+        // String ids (copied from MySQL) sort before ObjectIds
+        const afterId = this.toDocumentId(options.afterId);
+        filter.$or =
+          afterId instanceof ObjectId
+            ? [{ _id: { $gt: afterId } }]
+            : [{ _id: { $gt: afterId } }, { _id: { $type: 'objectId' } }];
+      }
+      if (options.ids) {
+        filter._id = { $in: options.ids.map((id) => this.toDocumentId(id)) };
+      }
+
+      const docs = await collection
+        .find(filter)
+        .sort({ _id: 1 })
+        .limit(options.limit)
+        .toArray();
+
+      return docs.map((doc) => ({
+        ...this.toDynamicRecordDto(doc),
+        isDeleted: !!doc.isDeleted,
+        deletedAt: doc.deletedAt ?? null,
+      }));
+    } catch (error) {
+      this.logger.error('MongoDB exportBatch failed', error, 'MongoDBAdapter');
+      throw error;
+    }
+  }
+
+  async importBatch(
+    context: DynamicEntityContext,
+    records: StoredRecord[],
+  ): Promise<void> {
+    if (!records.length) {
+      return;
+    }
+
+    try {
+      const collection = this.mongoDb.getCollection('dynamic_records');
+
+      await collection.bulkWrite(
+        records.map((r) => ({
+          replaceOne: {
+            filter: { _id: this.toDocumentId(r.id) },
+            replacement: {
+              entityId: context.entity.id,
+              data: r.data ?? {},
+              createdAt: new Date(r.createdAt),
+              updatedAt: new Date(r.updatedAt),
+              isDeleted: r.isDeleted,
+              deletedAt: r.deletedAt && new Date(r.deletedAt),
+              version: r.version ?? 1,
+            },
+            upsert: true,
+          },
+        })),
+      );
+    } catch (error) {
+      this.logger.error('MongoDB importBatch failed', error, 'MongoDBAdapter');
+      throw error;
+    }
+  }
+
+  async countStored(context: DynamicEntityContext): Promise<number> {
+    const collection = this.mongoDb.getCollection('dynamic_records');
+    return collection.countDocuments({ entityId: context.entity.id });
+  }
+
+  async purge(context: DynamicEntityContext, ids?: string[]): Promise<void> {
+    const collection = this.mongoDb.getCollection('dynamic_records');
+    await collection.deleteMany({
+      entityId: context.entity.id,
+      ...(ids && { _id: { $in: ids.map((id) => this.toDocumentId(id)) } }),
+    });
+  }
+
+  async prepareLinkStore(): Promise<void> {
+    const collection = this.mongoDb.getCollection('record_links');
+
+    await collection.createIndex(
+      { relationshipId: 1, sourceId: 1, targetId: 1 },
+      { name: 'record_links_unique', unique: true },
+    );
+    await collection.createIndex(
+      { relationshipId: 1, targetId: 1 },
+      { name: 'record_links_target' },
+    );
+  }
+
+  async link(link: RecordLink): Promise<void> {
+    const { relationshipId, sourceId, targetId } = link;
+
+    await this.mongoDb.getCollection('record_links').updateOne(
+      { relationshipId, sourceId, targetId },
+      { $setOnInsert: { createdAt: link.createdAt ?? new Date() } },
+      { upsert: true, session: this.mongoDb.session },
+    );
+  }
+
+  async unlink(relationshipId: number, filter: LinkFilter): Promise<number> {
+    const { deletedCount } = await this.mongoDb
+      .getCollection('record_links')
+      .deleteMany(
+        { relationshipId, ...filter },
+        { session: this.mongoDb.session },
+      );
+    return deletedCount;
+  }
+
+  async findLinks(
+    relationshipId: number,
+    filter: LinkFilter,
+    pagination: { page: number; pageSize: number },
+  ): Promise<{ links: RecordLink[]; total: number }> {
+    const collection = this.mongoDb.getCollection('record_links');
+    const query = { relationshipId, ...filter };
+
+    const session = this.mongoDb.session;
+    const [links, total] = await this.readBoth(
+      () =>
+        collection
+          .find(query, { session })
+          .sort({ createdAt: 1, _id: 1 })
+          .skip((pagination.page - 1) * pagination.pageSize)
+          .limit(pagination.pageSize)
+          .toArray(),
+      () => collection.countDocuments(query, { session }),
+    );
+
+    return {
+      links: links.map((link) => ({
+        relationshipId: link.relationshipId,
+        sourceId: link.sourceId,
+        targetId: link.targetId,
+        createdAt: link.createdAt,
+      })),
+      total,
+    };
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       const db = this.mongoDb.getDatabase();
@@ -183,10 +662,279 @@ export class MongoDBAdapter implements IDatabaseAdapter {
     }
   }
 
+  supportsTransactions(): Promise<boolean> {
+    return this.mongoDb.supportsTransactions();
+  }
+
+  transaction<T>(work: () => Promise<T>): Promise<T> {
+    return this.mongoDb.transaction(work);
+  }
+
   getType(): string {
     return 'mongodb';
   }
 
+  /**
+   * Run two reads side by side, or one after the other in a transaction,
+   * which runs one operation at a time
+   */
+  private async readBoth<A, B>(
+    first: () => Promise<A>,
+    second: () => Promise<B>,
+  ): Promise<[A, B]> {
+    if (this.mongoDb.session) {
+      return [await first(), await second()];
+    }
+    return Promise.all([first(), second()]);
+  }
+
+  /**
+   * Build the $match stage for an entity's live records and field filters
+   */
+  private toMatch(
+    context: DynamicEntityContext,
+    filters: FilterCondition[] = [],
+  ): { [key: string]: any } {
+    const match: { [key: string]: any } = {
+      entityId: context.entity.id,
+      isDeleted: false,
+    };
+
+    if (filters.length) {
+      match.$and = filters.map((condition) => this.toFilter(condition));
+    }
+
+    return match;
+  }
+
+  /**
+   * Translate a filter condition to a query on the stored field value,
+   * which an index on the field can serve, matching the semantics of the
+   * MySQL adapter: a missing value never satisfies a comparison but does
+   * satisfy `ne`
+   */
+  private toFilter(condition: FilterCondition): any {
+    const path = `data.${condition.fieldName}`;
+    const value = condition.value as any;
+    const param = (item: unknown) =>
+      this.toStoredValue(condition.fieldType, item);
+
+    switch (condition.operator) {
+      case 'eq':
+        return { [path]: param(value) };
+      case 'ne':
+        return { [path]: { $ne: param(value) } };
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        // Decimal text doesn't order as numbers, so decimal ranges compare
+        // converted values
+        return condition.fieldType === 'decimal'
+          ? {
+              $expr: {
+                $and: [
+                  { $ne: [`$${path}`, null] },
+                  {
+                    [`$${condition.operator}`]: [
+                      this.toTypedExpression('decimal', `$${path}`),
+                      Decimal128.fromString(param(value) as string),
+                    ],
+                  },
+                ],
+              },
+            }
+          : { [path]: { [`$${condition.operator}`]: param(value) } };
+      case 'in':
+        return { [path]: { $in: (value as unknown[]).map(param) } };
+      case 'contains':
+        return { [path]: { $regex: this.escapeRegex(value) } };
+      case 'startsWith':
+        return { [path]: { $regex: `^${this.escapeRegex(value)}` } };
+      case 'isNull':
+        return value ? { [path]: null } : { [path]: { $ne: null } };
+    }
+  }
+
+  /**
+   * Projection keeping the record columns and the given fields of `data`
+   */
+  private toProjection(fields: string[]): { [key: string]: 1 } {
+    const projection: { [key: string]: 1 } = {
+      entityId: 1,
+      createdAt: 1,
+      updatedAt: 1,
+      version: 1,
+    };
+    for (const field of fields) {
+      projection[`data.${field}`] = 1;
+    }
+    return projection;
+  }
+
+  /**
+   * Match records ordered after the given sort key values, compared on
+   * the sort paths of findMany. Null orders before any value, as it does
+   * in the MySQL adapter.
+   */
+  private toKeysetMatch(sort: SortSpec[], after: ComparableValue[]): any {
+    const path = (i: number) => this.toSortPath(sort[i], i);
+    const value = (i: number) => this.toSortValue(sort[i], after[i]);
+
+    return {
+      $or: sort.map((spec, i) => ({
+        $and: [
+          ...sort.slice(0, i).map((_, j) => ({ [path(j)]: value(j) })),
+          this.toKeyAfter(path(i), spec.direction, value(i)),
+        ],
+      })),
+    };
+  }
+
+  private toKeyAfter(
+    path: string,
+    direction: SortSpec['direction'],
+    value: unknown,
+  ): any {
+    if (path === '_id') {
+      // String ids (copied from MySQL) sort before ObjectIds, and a
+      // comparison only matches ids of the same type
+      const after = { _id: { [direction === 'asc' ? '$gt' : '$lt']: value } };
+      if (direction === 'asc' && !(value instanceof ObjectId)) {
+        return { $or: [after, { _id: { $type: 'objectId' } }] };
+      }
+      if (direction === 'desc' && value instanceof ObjectId) {
+        return { $or: [after, { _id: { $type: 'string' } }] };
+      }
+      return after;
+    }
+    if (direction === 'asc') {
+      return value === null
+        ? { [path]: { $ne: null } }
+        : { [path]: { $gt: value } };
+    }
+    return value === null
+      ? { $expr: false }
+      : { $or: [{ [path]: { $lt: value } }, { [path]: null }] };
+  }
+
+  /**
+   * $group accumulator of a metric on the typed field value
+   */
+  private toAccumulator(metric: MetricSpec): any {
+    if (metric.function === 'count') {
+      return { $sum: 1 };
+    }
+
+    const path = metric.system
+      ? `$${metric.fieldName === 'id' ? '_id' : metric.fieldName}`
+      : `$data.${metric.fieldName}`;
+
+    return {
+      [`$${metric.function}`]: this.toTypedExpression(metric.fieldType, path),
+    };
+  }
+
+  /**
+   * Path a sort key is read from in findMany: the stored value, or for
+   * decimals the converted copy added to each record
+   */
+  private toSortPath(spec: SortSpec, i: number): string {
+    if (spec.system) {
+      return spec.fieldName === 'id' ? '_id' : spec.fieldName;
+    }
+    return spec.fieldType === 'decimal' ? `__sort${i}` : `data.${spec.fieldName}`;
+  }
+
+  /**
+   * Read a value as its field type, with missing or unconvertible values
+   * becoming null
+   */
+  private toTypedExpression(fieldType: string, path: string): any {
+    switch (fieldType) {
+      case 'integer':
+        return { $convert: { input: path, to: 'double', onError: null, onNull: null } };
+      case 'decimal':
+        return { $convert: { input: path, to: 'decimal', onError: null, onNull: null } };
+      case 'datetime':
+        return { $convert: { input: path, to: 'date', onError: null, onNull: null } };
+      case 'boolean':
+        return { $ifNull: [path, null] };
+      default:
+        return { $convert: { input: path, to: 'string', onError: null, onNull: null } };
+    }
+  }
+
+  /**
+   * Convert a comparable filter value to the form values of its field
+   * type are stored in
+   */
+  private toStoredValue(fieldType: string, value: unknown): unknown {
+    switch (fieldType) {
+      case 'datetime':
+        return new Date(value as number).toISOString();
+      default:
+        // Decimals are exact text already, like the stored values
+        return value;
+    }
+  }
+
+  /**
+   * Convert a cursor value to the value at its sort path
+   */
+  private toSortValue(spec: SortSpec, value: ComparableValue): unknown {
+    if (value === null) {
+      return null;
+    }
+    if (spec.system) {
+      return spec.fieldName === 'id'
+        ? this.toDocumentId(value as string)
+        : new Date(value as number);
+    }
+    switch (spec.fieldType) {
+      case 'decimal':
+        return Decimal128.fromString(value as string);
+      case 'datetime':
+        return new Date(value as number).toISOString();
+      default:
+        return value;
+    }
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  /**
+   * Records created here have ObjectIds, records copied from another
+   * database keep their original string id
+   */
+  private toDocumentId(recordId: string): ObjectId | string {
+    return /^[0-9a-f]{24}$/i.test(recordId) ? new ObjectId(recordId) : recordId;
+  }
+
+  /**
+   * Filter matching a live record of the entity, the only ones writes may
+   * change, optionally only while at `expectedVersion`
+   */
+  private liveRecord(
+    context: DynamicEntityContext,
+    recordId: string,
+    expectedVersion?: number,
+  ): { [key: string]: any } {
+    const filter: { [key: string]: any } = {
+      _id: this.toDocumentId(recordId),
+      entityId: context.entity.id,
+      isDeleted: false,
+    };
+    if (expectedVersion !== undefined) {
+      // Documents written before records had versions are at version 1
+      filter.version =
+        expectedVersion === 1 ? { $in: [1, null] } : expectedVersion;
+    }
+    return filter;
+  }
+
   /**
    * Convert MongoDB document to DTO
    */
@@ -197,6 +945,8 @@ export class MongoDBAdapter implements IDatabaseAdapter {
       data: doc.data || {},
       createdAt: doc.createdAt,
       updatedAt: doc.updatedAt,
+      ...(doc.deletedAt && { deletedAt: doc.deletedAt }),
+      version: doc.version ?? 1,
     };
   }
 }
@@ -1,25 +1,65 @@
 import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '@/core/database/prisma.service';
 import { LoggerService } from '@/core/logger/logger.service';
-import { IDatabaseAdapter, StoredRecord } from './database.adapter';
-import { DynamicRecordDto, CreateDynamicRecordDto } from '@/common/dtos/dynamic.dto';
+import {
+  DeletedQueryOptions,
+  ExportOptions,
+  IDatabaseAdapter,
+  LinkFilter,
+  QueryOptions,
+  RecordLink,
+  StoredRecord,
+} from './database.adapter';
+import {
+  AggregateGroupDto,
+  DynamicRecordDto,
+} from '@/common/dtos/dynamic.dto';
+import {
+  AggregateQuery,
+  DEFAULT_SORT,
+  DynamicEntityContext,
+  FilterCondition,
+} from '../engine/query.types';
+import { isSystemSort, toPrismaOrderBy } from '../engine/record-sorter';
+import { DynamicSqlBuilder } from '../engine/sql-builder.service';
+import { PhysicalTableService } from './physical-table.service';
+import { toAggregateGroup } from '../engine/aggregate-result';
+
+/**
+ * Longest a transaction may run, as long as MongoDB lets one run by
+ * default, so a transaction spanning both databases ends the same way
+ */
+const TRANSACTION_TIMEOUT_MS = 60 * 1000;
 
 /**
  * MySQL Database Adapter
- * Implementation of IDatabaseAdapter for MySQL using Prisma
+ * Implementation of IDatabaseAdapter for MySQL using Prisma.
+ * Records of JSON-mode entities live in dynamic_records, physical-mode
+ * entities are delegated to PhysicalTableService. Queries run in the
+ * transaction the caller runs in, if any (see PrismaService.client).
  */
 @Injectable()
 export class MySQLAdapter implements IDatabaseAdapter {
   constructor(
     private readonly prisma: PrismaService,
     private readonly logger: LoggerService,
+    private readonly sqlBuilder: DynamicSqlBuilder,
+    private readonly physicalTables: PhysicalTableService,
   ) {}
 
-  async create(entityId: number, payload: CreateDynamicRecordDto): Promise<DynamicRecordDto> {
+  async create(
+    context: DynamicEntityContext,
+    payload: Record<string, any>,
+  ): Promise<DynamicRecordDto> {
+    if (this.isPhysical(context)) {
+      return this.physicalTables.create(context, payload);
+    }
+
     try {
-      const record = await this.prisma.dynamicRecord.create({
+      const record = await this.prisma.client.dynamicRecord.create({
         data: {
-          entityId,
+          entityId: context.entity.id,
           data: JSON.stringify(payload),
         },
       });
@@ -32,36 +72,60 @@ export class MySQLAdapter implements IDatabaseAdapter {
   }
 
   async findMany(
-    entityId: number,
-    options?: {
-      page?: number;
-      pageSize?: number;
-      filters?: { [key: string]: any };
-    },
-  ): Promise<{ records: DynamicRecordDto[]; total: number }> {
+    context: DynamicEntityContext,
+    options?: QueryOptions,
+  ): Promise<{ records: DynamicRecordDto[]; total: number | null }> {
+    const page = options?.page || 1;
+    const pageSize = options?.pageSize || 10;
+    const filters = options?.filters ?? [];
+    const sort = options?.sort?.length ? options.sort : DEFAULT_SORT;
+    const keyset = options?.keyset;
+    const withTotal = options?.withTotal ?? true;
+    const fields = options?.fields;
+
+    if (this.isPhysical(context)) {
+      return this.physicalTables.findMany(
+        context,
+        filters,
+        sort,
+        keyset ?? { page, pageSize },
+        withTotal,
+        fields,
+      );
+    }
+
     try {
-      const page = options?.page || 1;
-      const pageSize = options?.pageSize || 10;
-      const skip = (page - 1) * pageSize;
+      if (filters.length || !isSystemSort(sort) || keyset || fields) {
+        // Field filters, field sorts, keyset pages and field selections are
+        // evaluated in SQL on the JSON data column
+        const target = this.sqlBuilder.jsonTarget(context.entity.id, fields);
+        const [records, total] = await Promise.all([
+          this.prisma.client.$queryRaw<StoredRecord[]>(
+            keyset
+              ? this.sqlBuilder.buildKeysetSelect(target, filters, sort, keyset)
+              : this.sqlBuilder.buildSelect(target, filters, sort, {
+                  page,
+                  pageSize,
+                }),
+          ),
+          withTotal ? this.count(context, filters) : null,
+        ]);
 
+        return {
+          records: records.map((r) => this.toDynamicRecordDto(r)),
+          total,
+        };
+      }
+
+      const where = { entityId: context.entity.id, isDeleted: false };
       const [records, total] = await Promise.all([
-        this.prisma.dynamicRecord.findMany({
-          where: {
-            entityId,
-            isDeleted: false,
-          },
-          skip,
+        this.prisma.client.dynamicRecord.findMany({
+          where,
+          skip: (page - 1) * pageSize,
           take: pageSize,
-          orderBy: {
-            createdAt: 'desc',
-          },
-        }),
-        this.prisma.dynamicRecord.count({
-          where: {
-            entityId,
-            isDeleted: false,
-          },
+          orderBy: toPrismaOrderBy(sort),
         }),
+        withTotal ? this.prisma.client.dynamicRecord.count({ where }) : null,
       ]);
 
       return {
@@ -74,12 +138,30 @@ export class MySQLAdapter implements IDatabaseAdapter {
     }
   }
 
-  async findOne(entityId: number, recordId: string): Promise<DynamicRecordDto | null> {
+  async findOne(
+    context: DynamicEntityContext,
+    recordId: string,
+    fields?: string[],
+  ): Promise<DynamicRecordDto | null> {
+    if (this.isPhysical(context)) {
+      return this.physicalTables.findOne(context, recordId, fields);
+    }
+
     try {
-      const record = await this.prisma.dynamicRecord.findFirst({
+      if (fields) {
+        const [record] = await this.prisma.client.$queryRaw<StoredRecord[]>(
+          this.sqlBuilder.buildSelectById(
+            this.sqlBuilder.jsonTarget(context.entity.id, fields),
+            recordId,
+          ),
+        );
+        return record ? this.toDynamicRecordDto(record) : null;
+      }
+
+      const record = await this.prisma.client.dynamicRecord.findFirst({
         where: {
           id: recordId,
-          entityId,
+          entityId: context.entity.id,
           isDeleted: false,
         },
       });
@@ -91,11 +173,141 @@ export class MySQLAdapter implements IDatabaseAdapter {
     }
   }
 
-  async count(entityId: number, filters?: { [key: string]: any }): Promise<number> {
+  async findByIds(
+    context: DynamicEntityContext,
+    recordIds: string[],
+  ): Promise<DynamicRecordDto[]> {
+    if (!recordIds.length) {
+      return [];
+    }
+    if (this.isPhysical(context)) {
+      return this.physicalTables.findByIds(context, recordIds);
+    }
+
     try {
-      return await this.prisma.dynamicRecord.count({
+      const records = await this.prisma.client.dynamicRecord.findMany({
         where: {
-          entityId,
+          id: { in: recordIds },
+          entityId: context.entity.id,
+          isDeleted: false,
+        },
+      });
+
+      return records.map((record) => this.toDynamicRecordDto(record));
+    } catch (error) {
+      this.logger.error('MySQL findByIds failed', error, 'MySQLAdapter');
+      throw error;
+    }
+  }
+
+  async lockByIds(
+    context: DynamicEntityContext,
+    recordIds: string[],
+  ): Promise<DynamicRecordDto[]> {
+    if (!recordIds.length) {
+      return [];
+    }
+    if (this.isPhysical(context)) {
+      return this.physicalTables.lockByIds(context, recordIds);
+    }
+
+    try {
+      const records = await this.prisma.client.$queryRaw<StoredRecord[]>`
+        SELECT id, entityId, data, createdAt, updatedAt, isDeleted, version
+        FROM dynamic_records
+        WHERE id IN (${Prisma.join(recordIds)})
+          AND entityId = ${context.entity.id} AND isDeleted = false
+        LOCK IN SHARE MODE`;
+
+      return records.map((record) => this.toDynamicRecordDto(record));
+    } catch (error) {
+      this.logger.error('MySQL lockByIds failed', error, 'MySQLAdapter');
+      throw error;
+    }
+  }
+
+  async findDeleted(
+    context: DynamicEntityContext,
+    options: DeletedQueryOptions,
+  ): Promise<{ records: DynamicRecordDto[]; total: number }> {
+    if (this.isPhysical(context)) {
+      return this.physicalTables.findDeleted(context, options);
+    }
+
+    try {
+      const where = {
+        entityId: context.entity.id,
+        isDeleted: true,
+        ...(options.deletedBefore && {
+          deletedAt: { lt: options.deletedBefore },
+        }),
+      };
+      const [records, total] = await Promise.all([
+        this.prisma.client.dynamicRecord.findMany({
+          where,
+          skip: (options.page - 1) * options.pageSize,
+          take: options.pageSize,
+          orderBy: [{ deletedAt: 'desc' }, { id: 'asc' }],
+        }),
+        this.prisma.client.dynamicRecord.count({ where }),
+      ]);
+
+      return {
+        records: records.map((r) => this.toDynamicRecordDto(r)),
+        total,
+      };
+    } catch (error) {
+      this.logger.error('MySQL findDeleted failed', error, 'MySQLAdapter');
+      throw error;
+    }
+  }
+
+  async findDeletedOne(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<DynamicRecordDto | null> {
+    if (this.isPhysical(context)) {
+      return this.physicalTables.findDeletedOne(context, recordId);
+    }
+
+    try {
+      const record = await this.prisma.client.dynamicRecord.findFirst({
+        where: {
+          id: recordId,
+          entityId: context.entity.id,
+          isDeleted: true,
+        },
+      });
+
+      return record ? this.toDynamicRecordDto(record) : null;
+    } catch (error) {
+      this.logger.error('MySQL findDeletedOne failed', error, 'MySQLAdapter');
+      throw error;
+    }
+  }
+
+  async count(
+    context: DynamicEntityContext,
+    filters: FilterCondition[] = [],
+  ): Promise<number> {
+    if (this.isPhysical(context)) {
+      return this.physicalTables.count(context, filters);
+    }
+
+    try {
+      if (filters.length) {
+        const [{ total }] = await this.prisma.client.$queryRaw<{ total: bigint }[]>(
+          this.sqlBuilder.buildCount(
+            this.sqlBuilder.jsonTarget(context.entity.id),
+            filters,
+          ),
+        );
+        return Number(total);
+      }
+
+      return await this.prisma.client.dynamicRecord.count({
+        where: {
+          entityId: context.entity.id,
           isDeleted: false,
         },
       });
@@ -105,15 +317,68 @@ export class MySQLAdapter implements IDatabaseAdapter {
     }
   }
 
-  async update(recordId: string, payload: { [key: string]: any }): Promise<DynamicRecordDto> {
+  async aggregate(
+    context: DynamicEntityContext,
+    query: AggregateQuery,
+    filters: FilterCondition[],
+    limit: number,
+  ): Promise<AggregateGroupDto[]> {
+    const target = this.isPhysical(context)
+      ? this.sqlBuilder.physicalTarget(context.entity.tableName)
+      : this.sqlBuilder.jsonTarget(context.entity.id);
+
     try {
-      const record = await this.prisma.dynamicRecord.update({
-        where: { id: recordId },
+      const rows = await this.prisma.client.$queryRaw<Record<string, unknown>[]>(
+        this.sqlBuilder.buildAggregate(target, filters, query, limit),
+      );
+
+      return rows.map((row) =>
+        toAggregateGroup(
+          query,
+          query.groupBy.map((_, i) => row[`group_${i}`]),
+          query.metrics.map((_, i) => row[`metric_${i}`]),
+        ),
+      );
+    } catch (error) {
+      this.logger.error('MySQL aggregate failed', error, 'MySQLAdapter');
+      throw error;
+    }
+  }
+
+  async update(
+    context: DynamicEntityContext,
+    recordId: string,
+    payload: Record<string, any>,
+    expectedVersion?: number,
+  ): Promise<DynamicRecordDto | null> {
+    if (this.isPhysical(context)) {
+      return this.physicalTables.update(
+        context,
+        recordId,
+        payload,
+        expectedVersion,
+      );
+    }
+
+    try {
+      const { count } = await this.prisma.client.dynamicRecord.updateMany({
+        where: {
+          ...this.liveRecord(context, recordId),
+          ...(expectedVersion !== undefined && { version: expectedVersion }),
+        },
         data: {
           data: JSON.stringify(payload),
           updatedAt: new Date(),
+          version: { increment: 1 },
         },
       });
+      if (!count) {
+        return null;
+      }
+
+      const record = await this.prisma.client.dynamicRecord.findUnique({
+        where: { id: recordId },
+      });
 
       return this.toDynamicRecordDto(record);
     } catch (error) {
@@ -122,25 +387,47 @@ export class MySQLAdapter implements IDatabaseAdapter {
     }
   }
 
-  async softDelete(recordId: string): Promise<void> {
+  async softDelete(
+    context: DynamicEntityContext,
+    recordId: string,
+    expectedVersion?: number,
+  ): Promise<number | null> {
+    if (this.isPhysical(context)) {
+      return this.physicalTables.softDelete(context, recordId, expectedVersion);
+    }
+
     try {
-      await this.prisma.dynamicRecord.update({
-        where: { id: recordId },
+      const { count } = await this.prisma.client.dynamicRecord.updateMany({
+        where: {
+          ...this.liveRecord(context, recordId),
+          ...(expectedVersion !== undefined && { version: expectedVersion }),
+        },
         data: {
           isDeleted: true,
+          deletedAt: new Date(),
           updatedAt: new Date(),
+          version: { increment: 1 },
         },
       });
+
+      return count ? this.versionOf(recordId) : null;
     } catch (error) {
       this.logger.error('MySQL softDelete failed', error, 'MySQLAdapter');
       throw error;
     }
   }
 
-  async hardDelete(recordId: string): Promise<void> {
+  async hardDelete(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<void> {
+    if (this.isPhysical(context)) {
+      return this.physicalTables.hardDelete(context, recordId);
+    }
+
     try {
-      await this.prisma.dynamicRecord.delete({
-        where: { id: recordId },
+      await this.prisma.client.dynamicRecord.deleteMany({
+        where: { id: recordId, entityId: context.entity.id },
       });
     } catch (error) {
       this.logger.error('MySQL hardDelete failed', error, 'MySQLAdapter');
@@ -148,6 +435,161 @@ export class MySQLAdapter implements IDatabaseAdapter {
     }
   }
 
+  async restore(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<number | null> {
+    if (this.isPhysical(context)) {
+      return this.physicalTables.restore(context, recordId);
+    }
+
+    try {
+      const { count } = await this.prisma.client.dynamicRecord.updateMany({
+        where: { id: recordId, entityId: context.entity.id, isDeleted: true },
+        data: {
+          isDeleted: false,
+          deletedAt: null,
+          updatedAt: new Date(),
+          version: { increment: 1 },
+        },
+      });
+
+      return count ? this.versionOf(recordId) : null;
+    } catch (error) {
+      this.logger.error('MySQL restore failed', error, 'MySQLAdapter');
+      throw error;
+    }
+  }
+
+  async exportBatch(
+    context: DynamicEntityContext,
+    options: ExportOptions,
+  ): Promise<StoredRecord[]> {
+    try {
+      const records = await this.prisma.client.dynamicRecord.findMany({
+        where: {
+          entityId: context.entity.id,
+          id: {
+            ...(options.afterId && { gt: options.afterId }),
+            ...(options.ids && { in: options.ids }),
+          },
+        },
+        orderBy: { id: 'asc' },
+        take: options.limit,
+      });
+
+      return records.map((r) => ({
+        ...r,
+        data: this.parseJsonData(r.data),
+      }));
+    } catch (error) {
+      this.logger.error('MySQL exportBatch failed', error, 'MySQLAdapter');
+      throw error;
+    }
+  }
+
+  async importBatch(
+    context: DynamicEntityContext,
+    records: StoredRecord[],
+  ): Promise<void> {
+    try {
+      await this.prisma.$transaction(
+        records.map((r) => {
+          const values = {
+            data: JSON.stringify(r.data ?? {}),
+            createdAt: r.createdAt,
+            updatedAt: r.updatedAt,
+            isDeleted: r.isDeleted,
+            deletedAt: r.deletedAt,
+            version: r.version ?? 1,
+          };
+          return this.prisma.dynamicRecord.upsert({
+            where: { id: r.id },
+            create: { id: r.id, entityId: context.entity.id, ...values },
+            update: values,
+          });
+        }),
+      );
+    } catch (error) {
+      this.logger.error('MySQL importBatch failed', error, 'MySQLAdapter');
+      throw error;
+    }
+  }
+
+  async countStored(context: DynamicEntityContext): Promise<number> {
+    return this.prisma.client.dynamicRecord.count({
+      where: { entityId: context.entity.id },
+    });
+  }
+
+  async purge(context: DynamicEntityContext, ids?: string[]): Promise<void> {
+    await this.prisma.client.dynamicRecord.deleteMany({
+      where: { entityId: context.entity.id, ...(ids && { id: { in: ids } }) },
+    });
+  }
+
+  /**
+   * record_links is created by the Prisma migrations
+   */
+  async prepareLinkStore(): Promise<void> {}
+
+  async link(link: RecordLink): Promise<void> {
+    await this.prisma.client.recordLink.createMany({
+      data: [
+        {
+          relationshipId: link.relationshipId,
+          sourceId: link.sourceId,
+          targetId: link.targetId,
+          ...(link.createdAt && { createdAt: link.createdAt }),
+        },
+      ],
+      skipDuplicates: true,
+    });
+  }
+
+  async unlink(relationshipId: number, filter: LinkFilter): Promise<number> {
+    const { count } = await this.prisma.client.recordLink.deleteMany({
+      where: { relationshipId, ...filter },
+    });
+    return count;
+  }
+
+  async findLinks(
+    relationshipId: number,
+    filter: LinkFilter,
+    pagination: { page: number; pageSize: number },
+  ): Promise<{ links: RecordLink[]; total: number }> {
+    const where = { relationshipId, ...filter };
+
+    const [links, total] = await Promise.all([
+      this.prisma.client.recordLink.findMany({
+        where,
+        orderBy: { id: 'asc' },
+        skip: (pagination.page - 1) * pagination.pageSize,
+        take: pagination.pageSize,
+      }),
+      this.prisma.client.recordLink.count({ where }),
+    ]);
+
+    return {
+      links: links.map(({ relationshipId, sourceId, targetId, createdAt }) => ({
+        relationshipId,
+        sourceId,
+        targetId,
+        createdAt,
+      })),
+      total,
+    };
+  }
+
+  async supportsTransactions(): Promise<boolean> {
+    return true;
+  }
+
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    return this.prisma.transaction(work, TRANSACTION_TIMEOUT_MS);
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       await this.prisma.$queryRaw`SELECT 1`;
@@ -163,15 +605,47 @@ export class MySQLAdapter implements IDatabaseAdapter {
   }
 
   /**
-   * Convert Prisma record to DTO
+   * Whether the entity keeps its records in its own table
+   */
+  private isPhysical(context: DynamicEntityContext): boolean {
+    return context.entity.storageMode === 'physical';
+  }
+
+  /**
+   * Condition matching a live record of the entity, the only ones writes
+   * may change
+   */
+  private liveRecord(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Prisma.DynamicRecordWhereInput {
+    return { id: recordId, entityId: context.entity.id, isDeleted: false };
+  }
+
+  /**
+   * Version of a record just written, read in the write's transaction
+   */
+  private async versionOf(recordId: string): Promise<number> {
+    const record = await this.prisma.client.dynamicRecord.findUniqueOrThrow({
+      where: { id: recordId },
+      select: { version: true },
+    });
+    return record.version;
+  }
+
+  /**
+   * Convert Prisma record to DTO, taking the selected fields of a record
+   * read with a field selection as its data
    */
   private toDynamicRecordDto(record: any): DynamicRecordDto {
     return {
       id: record.id,
       entityId: record.entityId,
-      data: this.parseJsonData(record.data),
+      data: this.parseJsonData(record.selectedData ?? record.data),
       createdAt: record.createdAt,
       updatedAt: record.updatedAt,
+      ...(record.deletedAt && { deletedAt: record.deletedAt }),
+      version: Number(record.version),
     };
   }
 
@@ -0,0 +1,383 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { quoteIdentifier } from '@/core/database/mysql-json';
+import { DynamicRecordDto } from '@/common/dtos/dynamic.dto';
+import { FieldDefinitionDto } from '@/common/dtos/metadata.dto';
+import {
+  DynamicEntityContext,
+  FilterCondition,
+  KeysetOptions,
+  PaginationOptions,
+  SortSpec,
+} from '../engine/query.types';
+import { DeletedQueryOptions } from './database.adapter';
+import { DynamicSqlBuilder } from '../engine/sql-builder.service';
+import { toCanonical } from '../engine/field-values';
+
+/**
+ * Physical Table Service
+ * Record operations for entities in physical storage mode, where records
+ * are rows of the entity's own table and each field is a typed column
+ */
+@Injectable()
+export class PhysicalTableService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly sqlBuilder: DynamicSqlBuilder,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Find a page of records by offset or, given keyset options, after a
+   * record, reading only the given fields when some are. The total is
+   * null unless counted.
+   */
+  async findMany(
+    context: DynamicEntityContext,
+    conditions: FilterCondition[],
+    sort: SortSpec[],
+    pagination: PaginationOptions | KeysetOptions,
+    withTotal = true,
+    fields?: string[],
+  ): Promise<{ records: DynamicRecordDto[]; total: number | null }> {
+    const target = this.sqlBuilder.physicalTarget(
+      context.entity.tableName,
+      fields,
+    );
+
+    try {
+      const [rows, total] = await Promise.all([
+        this.prisma.client.$queryRaw<any[]>(
+          'limit' in pagination
+            ? this.sqlBuilder.buildKeysetSelect(target, conditions, sort, pagination)
+            : this.sqlBuilder.buildSelect(target, conditions, sort, pagination),
+        ),
+        withTotal ? this.count(context, conditions) : null,
+      ]);
+
+      return {
+        records: rows.map((row) => this.toDynamicRecordDto(context, row)),
+        total,
+      };
+    } catch (error) {
+      this.logger.error(
+        'Physical findMany failed',
+        error.message,
+        'PhysicalTableService',
+      );
+      throw error;
+    }
+  }
+
+  async count(
+    context: DynamicEntityContext,
+    conditions: FilterCondition[],
+  ): Promise<number> {
+    const [{ total }] = await this.prisma.client.$queryRaw<{ total: bigint }[]>(
+      this.sqlBuilder.buildCount(
+        this.sqlBuilder.physicalTarget(context.entity.tableName),
+        conditions,
+      ),
+    );
+    return Number(total);
+  }
+
+  async findOne(
+    context: DynamicEntityContext,
+    recordId: string,
+    fields?: string[],
+  ): Promise<DynamicRecordDto | null> {
+    const rows = await this.prisma.client.$queryRaw<any[]>(
+      this.sqlBuilder.buildSelectById(
+        this.sqlBuilder.physicalTarget(context.entity.tableName, fields),
+        recordId,
+      ),
+    );
+
+    return rows.length ? this.toDynamicRecordDto(context, rows[0]) : null;
+  }
+
+  async findByIds(
+    context: DynamicEntityContext,
+    recordIds: string[],
+  ): Promise<DynamicRecordDto[]> {
+    const rows = await this.prisma.client.$queryRaw<any[]>(Prisma.sql`
+      SELECT * FROM ${this.table(context)}
+      WHERE \`id\` IN (${Prisma.join(recordIds)}) AND \`isDeleted\` = false`);
+
+    return rows.map((row) => this.toDynamicRecordDto(context, row));
+  }
+
+  /**
+   * Find live records by ID as last committed, with a shared lock held
+   * until the caller's transaction ends
+   */
+  async lockByIds(
+    context: DynamicEntityContext,
+    recordIds: string[],
+  ): Promise<DynamicRecordDto[]> {
+    const rows = await this.prisma.client.$queryRaw<any[]>(Prisma.sql`
+      SELECT * FROM ${this.table(context)}
+      WHERE \`id\` IN (${Prisma.join(recordIds)}) AND \`isDeleted\` = false
+      LOCK IN SHARE MODE`);
+
+    return rows.map((row) => this.toDynamicRecordDto(context, row));
+  }
+
+  async findDeleted(
+    context: DynamicEntityContext,
+    options: DeletedQueryOptions,
+  ): Promise<{ records: DynamicRecordDto[]; total: number }> {
+    const where = Prisma.join(
+      [
+        Prisma.sql`\`isDeleted\` = true`,
+        ...(options.deletedBefore
+          ? [Prisma.sql`\`deletedAt\` < ${options.deletedBefore}`]
+          : []),
+      ],
+      ' AND ',
+    );
+
+    const [rows, [{ total }]] = await Promise.all([
+      this.prisma.client.$queryRaw<any[]>(Prisma.sql`
+        SELECT * FROM ${this.table(context)}
+        WHERE ${where}
+        ORDER BY \`deletedAt\` DESC, \`id\` ASC
+        LIMIT ${options.pageSize} OFFSET ${(options.page - 1) * options.pageSize}`),
+      this.prisma.client.$queryRaw<{ total: bigint }[]>(Prisma.sql`
+        SELECT COUNT(*) AS \`total\` FROM ${this.table(context)}
+        WHERE ${where}`),
+    ]);
+
+    return {
+      records: rows.map((row) => this.toDynamicRecordDto(context, row)),
+      total: Number(total),
+    };
+  }
+
+  async findDeletedOne(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<DynamicRecordDto | null> {
+    const rows = await this.prisma.client.$queryRaw<any[]>(Prisma.sql`
+      SELECT * FROM ${this.table(context)}
+      WHERE \`id\` = ${recordId} AND \`isDeleted\` = true
+      LIMIT 1`);
+
+    return rows.length ? this.toDynamicRecordDto(context, rows[0]) : null;
+  }
+
+  async create(
+    context: DynamicEntityContext,
+    payload: Record<string, unknown>,
+  ): Promise<DynamicRecordDto> {
+    const id = randomUUID();
+    const fields = context.fields.filter((f) => f.fieldName in payload);
+
+    try {
+      await this.prisma.client.$executeRaw(Prisma.sql`
+        INSERT INTO ${this.table(context)} (${Prisma.join([
+          Prisma.raw('`id`'),
+          ...fields.map((f) => Prisma.raw(quoteIdentifier(f.fieldName))),
+        ])})
+        VALUES (${Prisma.join([
+          id,
+          ...fields.map((f) => this.toColumnValue(f, payload[f.fieldName])),
+        ])})`);
+    } catch (error) {
+      this.logger.error(
+        'Physical create failed',
+        error.message,
+        'PhysicalTableService',
+      );
+      throw error;
+    }
+
+    return this.findOne(context, id);
+  }
+
+  /**
+   * Replace all field columns of a live record with the payload values.
+   * Returns null when there is none, or when `expectedVersion` is given
+   * and the record has moved on from it.
+   */
+  async update(
+    context: DynamicEntityContext,
+    recordId: string,
+    payload: Record<string, unknown>,
+    expectedVersion?: number,
+  ): Promise<DynamicRecordDto | null> {
+    const assignments = context.fields.map((f) => {
+      const value = this.toColumnValue(f, payload[f.fieldName]);
+      return Prisma.sql`${Prisma.raw(quoteIdentifier(f.fieldName))} = ${value}`;
+    });
+
+    try {
+      const updated = await this.prisma.client.$executeRaw(Prisma.sql`
+        UPDATE ${this.table(context)}
+        SET ${Prisma.join([
+          ...assignments,
+          Prisma.sql`\`updatedAt\` = CURRENT_TIMESTAMP(3)`,
+          Prisma.sql`\`version\` = \`version\` + 1`,
+        ])}
+        WHERE ${this.liveRecord(recordId, expectedVersion)}`);
+
+      if (!updated) {
+        return null;
+      }
+    } catch (error) {
+      this.logger.error(
+        'Physical update failed',
+        error.message,
+        'PhysicalTableService',
+      );
+      throw error;
+    }
+
+    return this.findOne(context, recordId);
+  }
+
+  /**
+   * Soft delete a live record, returning its new version, or null when
+   * there is none or it has moved on from `expectedVersion`
+   */
+  async softDelete(
+    context: DynamicEntityContext,
+    recordId: string,
+    expectedVersion?: number,
+  ): Promise<number | null> {
+    const deleted = await this.prisma.client.$executeRaw(Prisma.sql`
+      UPDATE ${this.table(context)}
+      SET \`isDeleted\` = true, \`deletedAt\` = CURRENT_TIMESTAMP(3),
+        \`updatedAt\` = CURRENT_TIMESTAMP(3), \`version\` = \`version\` + 1
+      WHERE ${this.liveRecord(recordId, expectedVersion)}`);
+
+    return deleted ? this.versionOf(context, recordId) : null;
+  }
+
+  async hardDelete(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<void> {
+    await this.prisma.client.$executeRaw(Prisma.sql`
+      DELETE FROM ${this.table(context)}
+      WHERE \`id\` = ${recordId}`);
+  }
+
+  /**
+   * Bring back a soft-deleted record, returning its new version, or null
+   * when there is none
+   */
+  async restore(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<number | null> {
+    const restored = await this.prisma.client.$executeRaw(Prisma.sql`
+      UPDATE ${this.table(context)}
+      SET \`isDeleted\` = false, \`deletedAt\` = NULL,
+        \`updatedAt\` = CURRENT_TIMESTAMP(3), \`version\` = \`version\` + 1
+      WHERE \`id\` = ${recordId} AND \`isDeleted\` = true`);
+
+    return restored ? this.versionOf(context, recordId) : null;
+  }
+
+  private table(context: DynamicEntityContext): Prisma.Sql {
+    return Prisma.raw(quoteIdentifier(context.entity.tableName));
+  }
+
+  /**
+   * Condition matching a live record, optionally only while at
+   * `expectedVersion`
+   */
+  private liveRecord(recordId: string, expectedVersion?: number): Prisma.Sql {
+    return Prisma.sql`\`id\` = ${recordId} AND \`isDeleted\` = false${
+      expectedVersion !== undefined
+        ? Prisma.sql` AND \`version\` = ${expectedVersion}`
+        : Prisma.empty
+    }`;
+  }
+
+  /**
+   * Version of a record just written, read in the write's transaction
+   */
+  private async versionOf(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<number> {
+    const [row] = await this.prisma.client.$queryRaw<{ version: number }[]>(
+      Prisma.sql`SELECT \`version\` FROM ${this.table(context)} WHERE \`id\` = ${recordId}`,
+    );
+    return Number(row.version);
+  }
+
+  /**
+   * Convert a validated field value to its column value
+   */
+  private toColumnValue(field: FieldDefinitionDto, value: unknown): unknown {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    switch (field.fieldType) {
+      case 'integer':
+        return value === '' ? null : Number(value);
+      case 'decimal':
+        // Decimal text converts to the column exactly, unlike a double
+        return value === '' ? null : String(value);
+      case 'datetime':
+        return value === '' ? null : new Date(value as string);
+      case 'boolean':
+        return value === true || value === 'true' ? 1 : 0;
+      default:
+        return String(value);
+    }
+  }
+
+  /**
+   * Convert a table row to DTO, collecting field columns into `data`
+   */
+  private toDynamicRecordDto(
+    context: DynamicEntityContext,
+    row: any,
+  ): DynamicRecordDto {
+    const data: Record<string, any> = {};
+
+    for (const field of context.fields) {
+      const value = row[field.fieldName];
+      if (value === null || value === undefined) {
+        continue;
+      }
+
+      switch (field.fieldType) {
+        case 'integer':
+          data[field.fieldName] = Number(String(value));
+          break;
+        case 'decimal':
+          data[field.fieldName] = toCanonical('decimal', String(value), 'strict');
+          break;
+        case 'datetime':
+          data[field.fieldName] =
+            value instanceof Date ? value.toISOString() : value;
+          break;
+        case 'boolean':
+          data[field.fieldName] = Boolean(Number(value));
+          break;
+        default:
+          data[field.fieldName] = value;
+      }
+    }
+
+    return {
+      id: row.id,
+      entityId: context.entity.id,
+      data,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      ...(row.deletedAt && { deletedAt: row.deletedAt }),
+      version: Number(row.version),
+    };
+  }
+}
@@ -3,29 +3,58 @@ import {
   Get,
   Post,
   Put,
+  Patch,
   Delete,
   Body,
+  Headers,
   Param,
   Query,
+  Res,
   HttpCode,
+  UseInterceptors,
   HttpStatus,
+  UnsupportedMediaTypeException,
 } from '@nestjs/common';
+import { Response } from 'express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiParam,
   ApiQuery,
+  ApiHeader,
+  ApiBody,
 } from '@nestjs/swagger';
 import { DynamicService } from './dynamic.service';
 import {
+  JSON_PATCH_MEDIA_TYPE,
+  MERGE_PATCH_MEDIA_TYPE,
+} from './engine/json-patch';
+import { toETag } from './engine/record-version';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import {
+  BulkOperationDto,
   CreateDynamicRecordDto,
   DynamicRecordDto,
   PaginatedResponseDto,
+  CursorPaginatedResponseDto,
+  AggregateResultDto,
+  RecordVersionDiffDto,
+  RecordVersionDto,
+  UpsertResultDto,
 } from '@/common/dtos/dynamic.dto';
+import { BulkOperationResultDto } from '@/common/dtos/metadata.dto';
 
 @Controller('dynamic')
 @ApiTags('Dynamic')
+@ApiHeader({
+  name: 'Idempotency-Key',
+  required: false,
+  description:
+    'Unique key of a POST, PUT, PATCH or DELETE; retries with the same key and request get the stored response',
+})
+@UseInterceptors(IdempotencyInterceptor)
 export class DynamicController {
   constructor(private dynamicService: DynamicService) {}
 
@@ -70,13 +99,40 @@ export class DynamicController {
     return this.dynamicService.getEntityMetadata(entity);
   }
 
+  /**
+   * Get database routing of an entity
+   */
+  @Get('routing/:entity')
+  @ApiOperation({
+    summary: 'Get entity routing',
+    description:
+      'Show which database adapter the records of an entity are read from and written to',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Entity routing',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entity not found',
+  })
+  async getEntityRouting(@Param('entity') entity: string): Promise<any> {
+    return this.dynamicService.getEntityRouting(entity);
+  }
+
   /**
    * Get all records of an entity
    */
   @Get(':entity')
   @ApiOperation({
     summary: 'Get entity records',
-    description: 'Retrieve all records of a specific entity with pagination',
+    description:
+      'Retrieve all records of a specific entity with pagination, field filters and sorting',
   })
   @ApiParam({
     name: 'entity',
@@ -95,11 +151,61 @@ export class DynamicController {
     required: false,
     description: 'Records per page (default: 10)',
   })
+  @ApiQuery({
+    name: 'filter',
+    type: String,
+    required: false,
+    description:
+      'Field filters as filter[field][operator]=value, e.g. filter[status][eq]=active&filter[age][gte]=18. ' +
+      'Operators: eq, ne, gt, gte, lt, lte, in (comma-separated), contains, startsWith, isNull (true/false)',
+  })
+  @ApiQuery({
+    name: 'sort',
+    type: String,
+    required: false,
+    description:
+      'Comma-separated sort keys, prefix with - for descending, e.g. -lastName,email. ' +
+      'Accepts defined fields and id, createdAt, updatedAt (default: -createdAt)',
+  })
+  @ApiQuery({
+    name: 'include',
+    type: String,
+    required: false,
+    description:
+      'Comma-separated related records to embed under included: reference fields (customer), nested up to 3 levels ' +
+      '(customer.company), or entities referencing the record (Order, or Order:field when it has several such fields)',
+  })
+  @ApiQuery({
+    name: 'fields',
+    type: String,
+    required: false,
+    description:
+      'Comma-separated fields of data to return, e.g. firstName,email (default: all fields)',
+  })
+  @ApiQuery({
+    name: 'cursor',
+    type: String,
+    required: false,
+    description:
+      'Read pages by cursor instead of page number: empty for the first page, then a nextCursor or prevCursor ' +
+      'of the previous response, with the same sort',
+  })
+  @ApiQuery({
+    name: 'withTotal',
+    type: Boolean,
+    required: false,
+    description: 'Count the matching records (default: true); false leaves total out',
+  })
   @ApiResponse({
     status: 200,
-    description: 'Paginated list of records',
+    description:
+      'Paginated list of records; with a cursor, nextCursor and prevCursor replace page and totalPages',
     type: PaginatedResponseDto,
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid filter, sort, include, cursor or fields',
+  })
   @ApiResponse({
     status: 404,
     description: 'Entity not found',
@@ -108,19 +214,209 @@ export class DynamicController {
     @Param('entity') entity: string,
     @Query('page') page?: string,
     @Query('pageSize') pageSize?: string,
+    @Query('filter') filter?: Record<string, unknown>,
+    @Query('sort') sort?: string,
+    @Query('include') include?: string,
+    @Query('cursor') cursor?: string,
+    @Query('withTotal') withTotal?: string,
+    @Query('fields') fields?: string,
+  ): Promise<
+    | PaginatedResponseDto<DynamicRecordDto>
+    | CursorPaginatedResponseDto<DynamicRecordDto>
+  > {
+    const pageNum = page ? parseInt(page, 10) : 1;
+    const pageSizeNum = pageSize ? parseInt(pageSize, 10) : 10;
+    return this.dynamicService.getRecords(
+      entity,
+      pageNum,
+      pageSizeNum,
+      filter,
+      sort,
+      include,
+      cursor,
+      withTotal !== 'false',
+      fields,
+    );
+  }
+
+  /**
+   * Group the records of an entity and compute metrics per group
+   */
+  @Get(':entity/aggregate')
+  @ApiOperation({
+    summary: 'Aggregate records',
+    description:
+      'Group the records matching the filters by fields and compute metrics per group, in the database',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiQuery({
+    name: 'groupBy',
+    type: String,
+    required: false,
+    description: 'Comma-separated fields to group by, e.g. status,country (default: one group of all records)',
+  })
+  @ApiQuery({
+    name: 'metrics',
+    type: String,
+    required: false,
+    description:
+      'Comma-separated metrics: count, or sum, avg, min, max with a field, e.g. count,sum:amount,min:createdAt. ' +
+      'sum and avg take integer and decimal fields, min and max also datetime, string and enum fields (default: count)',
+  })
+  @ApiQuery({
+    name: 'filter',
+    type: String,
+    required: false,
+    description: 'Field filters as for listing records, e.g. filter[status][eq]=active',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Groups ordered by their key, with their metrics',
+    type: AggregateResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid filter, groupBy or metric, or too many groups',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entity not found',
+  })
+  async aggregateRecords(
+    @Param('entity') entity: string,
+    @Query('groupBy') groupBy?: string,
+    @Query('metrics') metrics?: string,
+    @Query('filter') filter?: Record<string, unknown>,
+  ): Promise<AggregateResultDto> {
+    return this.dynamicService.aggregateRecords(
+      entity,
+      filter,
+      groupBy,
+      metrics,
+    );
+  }
+
+  /**
+   * Get the deleted records of an entity
+   */
+  @Get(':entity/trash')
+  @ApiOperation({
+    summary: 'Get deleted records',
+    description:
+      'Retrieve the soft-deleted records of an entity, the latest deleted first. ' +
+      'A deleted record\'s updatedAt is when it was deleted',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiQuery({
+    name: 'page',
+    type: Number,
+    required: false,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'pageSize',
+    type: Number,
+    required: false,
+    description: 'Records per page (default: 10)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of deleted records',
+    type: PaginatedResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entity not found',
+  })
+  async getDeletedRecords(
+    @Param('entity') entity: string,
+    @Query('page') page?: string,
+    @Query('pageSize') pageSize?: string,
   ): Promise<PaginatedResponseDto<DynamicRecordDto>> {
     const pageNum = page ? parseInt(page, 10) : 1;
     const pageSizeNum = pageSize ? parseInt(pageSize, 10) : 10;
-    return this.dynamicService.getRecords(entity, pageNum, pageSizeNum);
+    return this.dynamicService.getDeletedRecords(entity, pageNum, pageSizeNum);
   }
 
   /**
-   * Get single record by ID
+   * Get the records linked to a record through a relation
    */
-  @Get(':entity/:id')
+  @Get(':entity/:id/relations/:relation')
   @ApiOperation({
-    summary: 'Get record by ID',
-    description: 'Retrieve a specific record from an entity',
+    summary: 'Get linked records',
+    description:
+      'Retrieve the records linked to a record through a many-to-many relation, in the order they were linked',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Record ID',
+  })
+  @ApiParam({
+    name: 'relation',
+    type: String,
+    description: 'Relation name on this entity',
+  })
+  @ApiQuery({
+    name: 'page',
+    type: Number,
+    required: false,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'pageSize',
+    type: Number,
+    required: false,
+    description: 'Records per page (default: 10)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of linked records',
+    type: PaginatedResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Record, entity or relation not found',
+  })
+  async getLinkedRecords(
+    @Param('entity') entity: string,
+    @Param('id') id: string,
+    @Param('relation') relation: string,
+    @Query('page') page?: string,
+    @Query('pageSize') pageSize?: string,
+  ): Promise<PaginatedResponseDto<DynamicRecordDto>> {
+    const pageNum = page ? parseInt(page, 10) : 1;
+    const pageSizeNum = pageSize ? parseInt(pageSize, 10) : 10;
+    return this.dynamicService.getLinkedRecords(
+      entity,
+      id,
+      relation,
+      pageNum,
+      pageSizeNum,
+    );
+  }
+
+  /**
+   * Get the versions of a record
+   */
+  @Get(':entity/:id/versions')
+  @ApiOperation({
+    summary: 'Get record versions',
+    description:
+      'Retrieve the versions of a record, latest first: one per create, update, delete and restore, without their data',
   })
   @ApiParam({
     name: 'entity',
@@ -132,63 +428,106 @@ export class DynamicController {
     type: String,
     description: 'Record ID',
   })
+  @ApiQuery({
+    name: 'page',
+    type: Number,
+    required: false,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'pageSize',
+    type: Number,
+    required: false,
+    description: 'Versions per page (default: 10)',
+  })
   @ApiResponse({
     status: 200,
-    description: 'Record details',
-    type: DynamicRecordDto,
+    description: 'Paginated list of versions',
+    type: PaginatedResponseDto,
   })
   @ApiResponse({
     status: 404,
     description: 'Record or entity not found',
   })
-  async getRecordById(
+  async getRecordVersions(
     @Param('entity') entity: string,
     @Param('id') id: string,
-  ): Promise<DynamicRecordDto> {
-    return this.dynamicService.getRecordById(entity, id);
+    @Query('page') page?: string,
+    @Query('pageSize') pageSize?: string,
+  ): Promise<PaginatedResponseDto<RecordVersionDto>> {
+    const pageNum = page ? parseInt(page, 10) : 1;
+    const pageSizeNum = pageSize ? parseInt(pageSize, 10) : 10;
+    return this.dynamicService.getRecordVersions(
+      entity,
+      id,
+      pageNum,
+      pageSizeNum,
+    );
   }
 
   /**
-   * Create new record
+   * Compare two versions of a record
    */
-  @Post(':entity')
-  @HttpCode(HttpStatus.CREATED)
+  @Get(':entity/:id/versions/diff')
   @ApiOperation({
-    summary: 'Create record',
-    description: 'Create a new record in the specified entity',
+    summary: 'Compare record versions',
+    description:
+      'List the fields added, removed or changed between two versions of a record',
   })
   @ApiParam({
     name: 'entity',
     type: String,
     description: 'Entity name',
   })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Record ID',
+  })
+  @ApiQuery({
+    name: 'from',
+    type: Number,
+    description: 'Version to compare from',
+  })
+  @ApiQuery({
+    name: 'to',
+    type: Number,
+    description: 'Version to compare to',
+  })
   @ApiResponse({
-    status: 201,
-    description: 'Record created successfully',
-    type: DynamicRecordDto,
+    status: 200,
+    description: 'Changed fields with their values in both versions',
+    type: RecordVersionDiffDto,
   })
   @ApiResponse({
     status: 400,
-    description: 'Invalid input or validation error',
+    description: 'from or to is not a version number',
   })
   @ApiResponse({
     status: 404,
-    description: 'Entity not found',
+    description: 'Version or entity not found',
   })
-  async createRecord(
+  async diffRecordVersions(
     @Param('entity') entity: string,
-    @Body() dto: CreateDynamicRecordDto,
-  ): Promise<DynamicRecordDto> {
-    return this.dynamicService.createRecord(entity, dto);
+    @Param('id') id: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<RecordVersionDiffDto> {
+    return this.dynamicService.diffRecordVersions(
+      entity,
+      id,
+      Number(from),
+      Number(to),
+    );
   }
 
   /**
-   * Update record
+   * Get a version of a record
    */
-  @Put(':entity/:id')
+  @Get(':entity/:id/versions/:version')
   @ApiOperation({
-    summary: 'Update record',
-    description: 'Update an existing record in the specified entity',
+    summary: 'Get record version',
+    description: 'Retrieve a version of a record with its data after that change',
   })
   @ApiParam({
     name: 'entity',
@@ -200,35 +539,35 @@ export class DynamicController {
     type: String,
     description: 'Record ID',
   })
-  @ApiResponse({
-    status: 200,
-    description: 'Record updated successfully',
-    type: DynamicRecordDto,
+  @ApiParam({
+    name: 'version',
+    type: Number,
+    description: 'Version number',
   })
   @ApiResponse({
-    status: 400,
-    description: 'Invalid input or validation error',
+    status: 200,
+    description: 'Record version',
+    type: RecordVersionDto,
   })
   @ApiResponse({
     status: 404,
-    description: 'Record or entity not found',
+    description: 'Version or entity not found',
   })
-  async updateRecord(
+  async getRecordVersion(
     @Param('entity') entity: string,
     @Param('id') id: string,
-    @Body() dto: Partial<CreateDynamicRecordDto>,
-  ): Promise<DynamicRecordDto> {
-    return this.dynamicService.updateRecord(entity, id, dto);
+    @Param('version') version: string,
+  ): Promise<RecordVersionDto> {
+    return this.dynamicService.getRecordVersion(entity, id, Number(version));
   }
 
   /**
-   * Delete record
+   * Get single record by ID
    */
-  @Delete(':entity/:id')
-  @HttpCode(HttpStatus.NO_CONTENT)
+  @Get(':entity/:id')
   @ApiOperation({
-    summary: 'Delete record',
-    description: 'Delete a record from the specified entity',
+    summary: 'Get record by ID',
+    description: 'Retrieve a specific record from an entity',
   })
   @ApiParam({
     name: 'entity',
@@ -240,18 +579,638 @@ export class DynamicController {
     type: String,
     description: 'Record ID',
   })
+  @ApiQuery({
+    name: 'include',
+    type: String,
+    required: false,
+    description:
+      'Comma-separated related records to embed under included: reference fields (customer), nested up to 3 levels ' +
+      '(customer.company), or entities referencing the record (Order, or Order:field when it has several such fields)',
+  })
+  @ApiQuery({
+    name: 'fields',
+    type: String,
+    required: false,
+    description:
+      'Comma-separated fields of data to return, e.g. firstName,email (default: all fields)',
+  })
   @ApiResponse({
-    status: 204,
-    description: 'Record deleted successfully',
+    status: 200,
+    description: 'Record details, with its version in the ETag header',
+    type: DynamicRecordDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid include or fields',
   })
   @ApiResponse({
     status: 404,
     description: 'Record or entity not found',
   })
-  async deleteRecord(
+  async getRecordById(
+    @Param('entity') entity: string,
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+    @Query('include') include?: string,
+    @Query('fields') fields?: string,
+  ): Promise<DynamicRecordDto> {
+    const record = await this.dynamicService.getRecordById(
+      entity,
+      id,
+      include,
+      fields,
+    );
+    res.setHeader('ETag', toETag(record.version));
+    return record;
+  }
+
+  /**
+   * Create new record
+   */
+  @Post(':entity')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create record',
+    description: 'Create a new record in the specified entity',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiHeader({
+    name: 'X-User-Id',
+    required: false,
+    description:
+      'Calling user, used by currentUser() field defaults and recorded with the version',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Record created successfully',
+    type: DynamicRecordDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input or validation error',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entity not found',
+  })
+  async createRecord(
+    @Param('entity') entity: string,
+    @Body() dto: CreateDynamicRecordDto,
+    @CurrentUser() userId: string | null,
+  ): Promise<DynamicRecordDto> {
+    return this.dynamicService.createRecord(entity, dto, userId);
+  }
+
+  /**
+   * Create, update and delete records in one request
+   */
+  @Post(':entity/bulk')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Bulk create, update and delete',
+    description:
+      'Create, update (by ID) and delete up to 1000 records of an entity in one request. ' +
+      'In transactional mode (default) every item is checked first and all are written in one transaction; ' +
+      'in bestEffort mode valid items are written and failed ones reported by position',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiHeader({
+    name: 'X-User-Id',
+    required: false,
+    description:
+      'Calling user, used by currentUser() field defaults and recorded with the versions',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Items written; in bestEffort mode, errors lists the failed ones',
+    type: BulkOperationResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid request, an item failed in transactional mode, or the entity database has no transactions',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entity not found',
+  })
+  async bulkWrite(
+    @Param('entity') entity: string,
+    @Body() dto: BulkOperationDto,
+    @CurrentUser() userId: string | null,
+  ): Promise<BulkOperationResultDto> {
+    return this.dynamicService.bulkWrite(entity, dto, userId);
+  }
+
+  /**
+   * Replace record
+   */
+  @Put(':entity/:id')
+  @ApiOperation({
+    summary: 'Replace record',
+    description:
+      'Replace the data of an existing record; fields left out of the payload are removed',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Record ID',
+  })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version the change was made from; 412 when the record has changed since',
+  })
+  @ApiHeader({
+    name: 'X-User-Id',
+    required: false,
+    description: 'Calling user, recorded with the version the change makes',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Record updated successfully',
+    type: DynamicRecordDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input or validation error',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Record or entity not found',
+  })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match doesn\'t match the record version',
+  })
+  async updateRecord(
+    @Param('entity') entity: string,
+    @Param('id') id: string,
+    @Body() dto: CreateDynamicRecordDto,
+    @Res({ passthrough: true }) res: Response,
+    @CurrentUser() userId: string | null,
+    @Headers('if-match') ifMatch?: string,
+  ): Promise<DynamicRecordDto> {
+    const record = await this.dynamicService.updateRecord(
+      entity,
+      id,
+      dto,
+      ifMatch,
+      userId,
+    );
+    res.setHeader('ETag', toETag(record.version));
+    return record;
+  }
+
+  /**
+   * Create or replace record by a unique field
+   */
+  @Put(':entity/by/:field/:value')
+  @ApiOperation({
+    summary: 'Upsert record by unique field',
+    description:
+      'Replace the record whose unique field holds the value, or create it when there is none. ' +
+      'created tells which of the two happened',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiParam({
+    name: 'field',
+    type: String,
+    description: 'Name of a field flagged as unique',
+  })
+  @ApiParam({
+    name: 'value',
+    type: String,
+    description: 'Value of the field identifying the record',
+  })
+  @ApiHeader({
+    name: 'X-User-Id',
+    required: false,
+    description:
+      'Calling user, used by currentUser() field defaults and recorded with the version',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Record created or updated',
+    type: UpsertResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown or non-unique field, or invalid input',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entity not found',
+  })
+  async upsertRecord(
+    @Param('entity') entity: string,
+    @Param('field') field: string,
+    @Param('value') value: string,
+    @Body() dto: CreateDynamicRecordDto,
+    @Res({ passthrough: true }) res: Response,
+    @CurrentUser() userId: string | null,
+  ): Promise<UpsertResultDto> {
+    const result = await this.dynamicService.upsertRecord(
+      entity,
+      field,
+      value,
+      dto,
+      userId,
+    );
+    res.setHeader('ETag', toETag(result.record.version));
+    return result;
+  }
+
+  /**
+   * Patch record
+   */
+  @Patch(':entity/:id')
+  @ApiOperation({
+    summary: 'Patch record',
+    description:
+      'Change part of a record with a JSON Merge Patch (application/merge-patch+json or application/json, ' +
+      'null removes a field) or a JSON Patch (application/json-patch+json, add/remove/replace/move/copy/test)',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Record ID',
+  })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version the change was made from; 412 when the record has changed since',
+  })
+  @ApiHeader({
+    name: 'X-User-Id',
+    required: false,
+    description: 'Calling user, recorded with the version the change makes',
+  })
+  @ApiBody({
+    description: 'Merge patch object, or array of JSON Patch operations',
+    schema: {
+      example: { email: 'john.doe@example.com', phone: null },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Record patched successfully',
+    type: DynamicRecordDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid patch, or the patched record fails validation',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Record or entity not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A JSON Patch test operation failed',
+  })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match doesn\'t match the record version',
+  })
+  @ApiResponse({
+    status: 415,
+    description: 'Unsupported patch media type',
+  })
+  async patchRecord(
+    @Param('entity') entity: string,
+    @Param('id') id: string,
+    @Body() patch: unknown,
+    @Res({ passthrough: true }) res: Response,
+    @CurrentUser() userId: string | null,
+    @Headers('content-type') contentType?: string,
+    @Headers('if-match') ifMatch?: string,
+  ): Promise<DynamicRecordDto> {
+    const mediaType = (contentType ?? '').split(';')[0].trim().toLowerCase();
+    if (
+      ![MERGE_PATCH_MEDIA_TYPE, JSON_PATCH_MEDIA_TYPE, 'application/json'].includes(
+        mediaType,
+      )
+    ) {
+      throw new UnsupportedMediaTypeException(
+        `PATCH accepts ${MERGE_PATCH_MEDIA_TYPE}, ${JSON_PATCH_MEDIA_TYPE} or application/json`,
+      );
+    }
+
+    const record = await this.dynamicService.patchRecord(
+      entity,
+      id,
+      patch,
+      mediaType,
+      ifMatch,
+      userId,
+    );
+    res.setHeader('ETag', toETag(record.version));
+    return record;
+  }
+
+  /**
+   * Delete record
+   */
+  @Delete(':entity/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete record',
+    description:
+      'Delete a record from the specified entity, applying the onDelete behaviour of reference fields pointing to it. ' +
+      'Deleted records go to the trash unless hard=true, which removes them and their versions for good',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Record ID',
+  })
+  @ApiQuery({
+    name: 'hard',
+    type: Boolean,
+    required: false,
+    description: 'Remove the record for good, also when it is already in the trash (default: false)',
+  })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version the change was made from; 412 when the record has changed since',
+  })
+  @ApiHeader({
+    name: 'X-User-Id',
+    required: false,
+    description: 'Calling user, recorded with the version the change makes',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Record deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Record or entity not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Record is referenced by records of a restrict reference field',
+  })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match doesn\'t match the record version',
+  })
+  async deleteRecord(
+    @Param('entity') entity: string,
+    @Param('id') id: string,
+    @CurrentUser() userId: string | null,
+    @Headers('if-match') ifMatch?: string,
+    @Query('hard') hard?: string,
+  ): Promise<void> {
+    return this.dynamicService.deleteRecord(
+      entity,
+      id,
+      ifMatch,
+      userId,
+      hard === 'true',
+    );
+  }
+
+  /**
+   * Restore a deleted record
+   */
+  @Post(':entity/:id/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore deleted record',
+    description:
+      'Bring a soft-deleted record back from the trash. Fails when a live record took one of its unique values',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Record ID',
+  })
+  @ApiHeader({
+    name: 'X-User-Id',
+    required: false,
+    description: 'Calling user, recorded with the version the change makes',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Record restored successfully',
+    type: DynamicRecordDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entity not found, or the record is not in the trash',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A unique value of the record is used by another record',
+  })
+  async restoreRecord(
+    @Param('entity') entity: string,
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+    @CurrentUser() userId: string | null,
+  ): Promise<DynamicRecordDto> {
+    const record = await this.dynamicService.restoreRecord(entity, id, userId);
+    res.setHeader('ETag', toETag(record.version));
+    return record;
+  }
+
+  /**
+   * Restore a version of a record
+   */
+  @Post(':entity/:id/versions/:version/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore record version',
+    description:
+      'Set the data of a record back to a version. The data is validated against the current fields, ' +
+      'and the restore is kept as a new version',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Record ID',
+  })
+  @ApiParam({
+    name: 'version',
+    type: Number,
+    description: 'Version number to restore',
+  })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version the change was made from; 412 when the record has changed since',
+  })
+  @ApiHeader({
+    name: 'X-User-Id',
+    required: false,
+    description: 'Calling user, recorded with the version the change makes',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Record restored successfully',
+    type: DynamicRecordDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'The version\'s data fails validation against the current fields',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Record, version or entity not found',
+  })
+  @ApiResponse({
+    status: 412,
+    description: 'If-Match doesn\'t match the record version',
+  })
+  async restoreRecordVersion(
+    @Param('entity') entity: string,
+    @Param('id') id: string,
+    @Param('version') version: string,
+    @Res({ passthrough: true }) res: Response,
+    @CurrentUser() userId: string | null,
+    @Headers('if-match') ifMatch?: string,
+  ): Promise<DynamicRecordDto> {
+    const record = await this.dynamicService.restoreVersion(
+      entity,
+      id,
+      Number(version),
+      ifMatch,
+      userId,
+    );
+    res.setHeader('ETag', toETag(record.version));
+    return record;
+  }
+
+  /**
+   * Link two records
+   */
+  @Post(':entity/:id/relations/:relation/:targetId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Link records',
+    description:
+      'Link a record to a record of the other side of a many-to-many relation. Linking twice has no effect',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Record ID',
+  })
+  @ApiParam({
+    name: 'relation',
+    type: String,
+    description: 'Relation name on this entity',
+  })
+  @ApiParam({
+    name: 'targetId',
+    type: String,
+    description: 'ID of the record to link',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Records linked successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Record, entity or relation not found',
+  })
+  async linkRecord(
+    @Param('entity') entity: string,
+    @Param('id') id: string,
+    @Param('relation') relation: string,
+    @Param('targetId') targetId: string,
+  ): Promise<void> {
+    return this.dynamicService.linkRecord(entity, id, relation, targetId);
+  }
+
+  /**
+   * Unlink two records
+   */
+  @Delete(':entity/:id/relations/:relation/:targetId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Unlink records',
+    description:
+      'Remove the link between a record and a record of the other side of a many-to-many relation',
+  })
+  @ApiParam({
+    name: 'entity',
+    type: String,
+    description: 'Entity name',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Record ID',
+  })
+  @ApiParam({
+    name: 'relation',
+    type: String,
+    description: 'Relation name on this entity',
+  })
+  @ApiParam({
+    name: 'targetId',
+    type: String,
+    description: 'ID of the linked record',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Records unlinked successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entity or relation not found, or the records are not linked',
+  })
+  async unlinkRecord(
     @Param('entity') entity: string,
     @Param('id') id: string,
+    @Param('relation') relation: string,
+    @Param('targetId') targetId: string,
   ): Promise<void> {
-    return this.dynamicService.deleteRecord(entity, id);
+    return this.dynamicService.unlinkRecord(entity, id, relation, targetId);
   }
 }
@@ -4,24 +4,35 @@ import { MetadataModule } from '@/modules/metadata/metadata.module';
 import { DynamicService } from './dynamic.service';
 import { DynamicController } from './dynamic.controller';
 import { DynamicMetadataReader } from './engine/metadata-reader.service';
-import { DynamicQueryBuilder } from './engine/query-builder.service';
-import { DynamicQueryExecutor } from './engine/query-executor.service';
-import { DatabaseService } from './database/database.service';
-import { MySQLAdapter } from './database/mysql.adapter';
-import { MongoDBAdapter } from './database/mongodb.adapter';
+import { DynamicFilterParser } from './engine/filter-parser.service';
+import { DynamicSortParser } from './engine/sort-parser.service';
+import { DynamicAggregateParser } from './engine/aggregate-parser.service';
+import { DynamicReferenceService } from './engine/reference.service';
+import { DynamicIncludeResolver } from './engine/include-resolver.service';
+import { DynamicRelationService } from './engine/relation.service';
+import { DynamicHistoryService } from './engine/history.service';
+import { DynamicTrashService } from './engine/trash.service';
+import { DynamicIdempotencyService } from './engine/idempotency.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { DatabaseModule } from './database/database.module';
 
 @Module({
-  imports: [CoreModule, MetadataModule],
+  imports: [CoreModule, MetadataModule, DatabaseModule],
   controllers: [DynamicController],
   providers: [
     DynamicService,
     DynamicMetadataReader,
-    DynamicQueryBuilder,
-    DynamicQueryExecutor,
-    DatabaseService,
-    MySQLAdapter,
-    MongoDBAdapter,
+    DynamicFilterParser,
+    DynamicSortParser,
+    DynamicAggregateParser,
+    DynamicReferenceService,
+    DynamicIncludeResolver,
+    DynamicRelationService,
+    DynamicHistoryService,
+    DynamicTrashService,
+    DynamicIdempotencyService,
+    IdempotencyInterceptor,
   ],
-  exports: [DynamicService, DatabaseService],
+  exports: [DynamicService, DatabaseModule],
 })
 export class DynamicModule {}
@@ -0,0 +1,204 @@
+import {
+  BadRequestException,
+  ConflictException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { DynamicService } from './dynamic.service';
+
+const context = {
+  entity: { id: 7, entityName: 'Customer', unknownFieldPolicy: 'reject', coercionMode: 'strict' },
+  fields: [
+    { fieldName: 'name', displayName: 'Name', fieldType: 'string', isRequired: true },
+  ],
+};
+
+const accounts = {
+  entity: { id: 8, entityName: 'Account', unknownFieldPolicy: 'reject', coercionMode: 'strict' },
+  fields: [
+    { id: 30, fieldName: 'email', displayName: 'Email', fieldType: 'string', isUnique: true },
+    { id: 31, fieldName: 'plan', displayName: 'Plan', fieldType: 'string' },
+  ],
+};
+
+describe('DynamicService', () => {
+  let databaseService: any;
+  let historyService: any;
+  let referenceService: any;
+  let metadataReader: any;
+  let service: DynamicService;
+
+  beforeEach(() => {
+    databaseService = {
+      supportsTransactions: jest.fn(async () => true),
+      transaction: jest.fn(async (work: () => Promise<unknown>) => work()),
+      create: jest.fn(async (_context, data) => ({ id: `r${data.name}`, version: 1, data })),
+      update: jest.fn(),
+      findOne: jest.fn(async (_context, id) => ({ id, version: 2, data: { name: id } })),
+    };
+    historyService = { snapshot: jest.fn() };
+    referenceService = {
+      validate: jest.fn(async () => []),
+      lockTargets: jest.fn(),
+      assertDeletable: jest.fn(),
+      deleteRecord: jest.fn(),
+    };
+    metadataReader = { getEntityContext: jest.fn(async () => context) };
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+    service = new DynamicService(
+      metadataReader,
+      {} as any,
+      {} as any,
+      {} as any,
+      referenceService,
+      {} as any,
+      {} as any,
+      historyService,
+      {} as any,
+      databaseService,
+      {} as any,
+      logger as any,
+    );
+  });
+
+  describe('bulkWrite', () => {
+    it('writes every item in one strict transaction', async () => {
+      const result = await service.bulkWrite('Customer', {
+        create: [{ name: 'a' }, { name: 'b' }],
+        delete: ['x'],
+      });
+
+      expect(databaseService.transaction).toHaveBeenCalledTimes(1);
+      expect(databaseService.transaction).toHaveBeenCalledWith(expect.any(Function), true);
+      expect(referenceService.deleteRecord).toHaveBeenCalledWith(context, 'x', {
+        userId: null,
+        expectedVersion: 2,
+      });
+      expect(result).toEqual({ success: 3, failed: 0, errors: [], created: ['ra', 'rb'] });
+    });
+
+    it('writes nothing when an item fails its checks', async () => {
+      const request = service.bulkWrite('Customer', {
+        create: [{ name: 'a' }, {}],
+      });
+
+      await expect(request).rejects.toThrow(BadRequestException);
+      await request.catch((error) =>
+        expect(error.getResponse().errors).toEqual([
+          expect.objectContaining({ field: 'create.1.name', code: 'REQUIRED' }),
+        ]),
+      );
+      expect(databaseService.transaction).not.toHaveBeenCalled();
+      expect(databaseService.create).not.toHaveBeenCalled();
+    });
+
+    it('reports the item whose write failed the transaction', async () => {
+      referenceService.deleteRecord.mockRejectedValue(
+        new PreconditionFailedException('Record x changed'),
+      );
+
+      const request = service.bulkWrite('Customer', {
+        create: [{ name: 'a' }],
+        delete: ['x'],
+      });
+
+      await expect(request).rejects.toThrow('Bulk operation failed, nothing was written');
+      await request.catch((error) =>
+        expect(error.getResponse().errors).toEqual([
+          expect.objectContaining({ field: 'delete.0', params: { item: 'delete.0' } }),
+        ]),
+      );
+    });
+
+    it('rejects transactional mode for a database without transactions', async () => {
+      databaseService.supportsTransactions.mockResolvedValue(false);
+
+      await expect(
+        service.bulkWrite('Customer', { create: [{ name: 'a' }] }),
+      ).rejects.toThrow(
+        "Entity 'Customer' is stored in a database without transactions, use bestEffort mode",
+      );
+      expect(databaseService.create).not.toHaveBeenCalled();
+    });
+
+    it('writes the valid items in best-effort mode and reports the others', async () => {
+      databaseService.supportsTransactions.mockResolvedValue(false);
+
+      const result = await service.bulkWrite('Customer', {
+        mode: 'bestEffort',
+        create: [{ name: 'a' }, {}],
+      });
+
+      // Each item is kept together with its version on its own
+      expect(databaseService.transaction).toHaveBeenCalledTimes(1);
+      expect(databaseService.transaction).toHaveBeenCalledWith(expect.any(Function));
+      expect(result).toMatchObject({ success: 1, failed: 1, created: ['ra', null] });
+      expect(result.errors).toEqual([
+        expect.objectContaining({ field: 'create.1.name', code: 'REQUIRED' }),
+      ]);
+    });
+  });
+
+  describe('upsertRecord', () => {
+    const taken = () =>
+      new ConflictException({
+        message: "Field 'Email' must be unique, the value is already used",
+        error: 'Conflict',
+        field: 'email',
+        existingRecordId: null,
+      });
+    const existing = { id: 'a1', version: 2, data: { email: 'j@example.com', plan: 'free' } };
+
+    beforeEach(() => {
+      metadataReader.getEntityContext.mockResolvedValue(accounts);
+      databaseService.findMany = jest.fn(async () => ({ records: [], total: null }));
+      databaseService.update.mockImplementation(async (_context, id, data, version) => ({
+        id,
+        version: version + 1,
+        data,
+      }));
+    });
+
+    it('creates the record holding the key when there is none', async () => {
+      const result = await service.upsertRecord('Account', 'email', 'j@example.com', {
+        plan: 'pro',
+      });
+
+      expect(result).toMatchObject({
+        created: true,
+        record: { data: { email: 'j@example.com', plan: 'pro' } },
+      });
+    });
+
+    it('updates the record a concurrent upsert created in between', async () => {
+      databaseService.create.mockRejectedValueOnce(taken());
+      databaseService.findMany
+        .mockResolvedValueOnce({ records: [], total: null })
+        .mockResolvedValueOnce({ records: [existing], total: null });
+
+      const result = await service.upsertRecord('Account', 'email', 'j@example.com', {
+        plan: 'pro',
+      });
+
+      expect(result).toMatchObject({ created: false, record: { id: 'a1', version: 3 } });
+      expect(databaseService.update).toHaveBeenCalledWith(
+        accounts,
+        'a1',
+        { email: 'j@example.com', plan: 'pro' },
+        2,
+      );
+    });
+
+    it('fails with 409 when the record keeps changing under it', async () => {
+      databaseService.findMany.mockResolvedValue({ records: [existing], total: null });
+      databaseService.update.mockRejectedValue(new PreconditionFailedException('changed'));
+
+      await expect(
+        service.upsertRecord('Account', 'email', 'j@example.com', { plan: 'pro' }),
+      ).rejects.toThrow(
+        "Record of Account with email 'j@example.com' kept changing, retry the upsert",
+      );
+      expect(databaseService.update).toHaveBeenCalledTimes(3);
+    });
+  });
+});
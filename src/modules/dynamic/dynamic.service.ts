@@ -1,76 +1,210 @@
 import {
   Injectable,
   BadRequestException,
+  ConflictException,
+  HttpException,
   NotFoundException,
+  PreconditionFailedException,
 } from '@nestjs/common';
+import { isDeepStrictEqual } from 'util';
 import { LoggerService } from '@/core/logger/logger.service';
+import { uniqueConstraintName } from '@/core/database/unique-constraint';
 import { MetadataService } from '@/modules/metadata/metadata.service';
 import {
   DynamicRecordDto,
   CreateDynamicRecordDto,
   PaginatedResponseDto,
+  CursorPaginatedResponseDto,
+  AggregateResultDto,
+  BulkOperationDto,
+  RecordVersionDiffDto,
+  RecordVersionDto,
+  UpsertResultDto,
 } from '@/common/dtos/dynamic.dto';
-import { FieldDefinitionDto } from '@/common/dtos/metadata.dto';
+import { BulkOperationResultDto } from '@/common/dtos/metadata.dto';
+import {
+  FieldValidationError,
+  UniqueConflictResponse,
+} from '@/common/interfaces/response.interface';
 import { DynamicMetadataReader } from './engine/metadata-reader.service';
-import { DynamicQueryBuilder } from './engine/query-builder.service';
-import { DynamicQueryExecutor } from './engine/query-executor.service';
-import { DynamicEntityContext } from './engine/query.types';
+import { DynamicFilterParser } from './engine/filter-parser.service';
+import { DynamicSortParser } from './engine/sort-parser.service';
+import { DynamicAggregateParser } from './engine/aggregate-parser.service';
+import { DynamicReferenceService } from './engine/reference.service';
+import {
+  DynamicIncludeResolver,
+  IncludeNode,
+} from './engine/include-resolver.service';
+import { DynamicRelationService } from './engine/relation.service';
+import {
+  DynamicHistoryService,
+  SnapshotAction,
+} from './engine/history.service';
+import { DynamicTrashService } from './engine/trash.service';
+import { DatabaseService } from './database/database.service';
+import {
+  DynamicEntityContext,
+  FilterCondition,
+  SortSpec,
+} from './engine/query.types';
+import { DefaultValueContext, resolveDefault } from './engine/field-defaults';
+import {
+  CoercionMode,
+  DECIMAL_SCALE,
+  toCanonical,
+  toComparable,
+} from './engine/field-values';
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  JSON_PATCH_MEDIA_TYPE,
+  MERGE_PATCH_MEDIA_TYPE,
+  parsePointer,
+  toPointer,
+} from './engine/json-patch';
+import { matchesIfMatch } from './engine/record-version';
+import {
+  decodeCursor,
+  encodeCursor,
+  RecordCursor,
+  reverseSort,
+} from './engine/record-cursor';
+import {
+  applyFieldSelection,
+  fieldsToRead,
+  parseFieldSelection,
+} from './engine/field-selection';
+
+/**
+ * Most items one bulk request may hold
+ */
+export const MAX_BULK_ITEMS = 1000;
+
+/**
+ * Most groups one aggregation may return
+ */
+export const MAX_AGGREGATE_GROUPS = 1000;
+
+// Tries of an upsert while concurrent writes create or change the record
+const MAX_UPSERT_ATTEMPTS = 3;
+
+const BULK_ERROR_CODES: Record<number, string> = {
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+};
+
+interface BulkItem {
+  path: string;
+  prepare(): Promise<() => Promise<void>>;
+}
 
 /**
  * Service for dynamic CRUD operations on any entity
  * Mirrors the .NET DynamicEntityService
+ * Records are read and written through DatabaseService, which routes each
+ * entity to its database adapter
  */
 @Injectable()
 export class DynamicService {
   constructor(
     private readonly metadataReader: DynamicMetadataReader,
-    private readonly queryBuilder: DynamicQueryBuilder,
-    private readonly queryExecutor: DynamicQueryExecutor,
+    private readonly filterParser: DynamicFilterParser,
+    private readonly sortParser: DynamicSortParser,
+    private readonly aggregateParser: DynamicAggregateParser,
+    private readonly referenceService: DynamicReferenceService,
+    private readonly includeResolver: DynamicIncludeResolver,
+    private readonly relationService: DynamicRelationService,
+    private readonly historyService: DynamicHistoryService,
+    private readonly trashService: DynamicTrashService,
+    private readonly databaseService: DatabaseService,
     private readonly metadataService: MetadataService,
     private readonly logger: LoggerService,
   ) {}
 
   /**
-   * Get all records for an entity (with pagination)
+   * Get all records for an entity (with pagination, filters, sorting and
+   * included related records). Pages are read by number, or after a
+   * cursor when one is given; an empty cursor reads the first page.
+   * `fields` limits each record's data to the named fields.
    */
   async getRecords(
     entityName: string,
     page: number = 1,
     pageSize: number = 10,
-  ): Promise<PaginatedResponseDto<DynamicRecordDto>> {
+    filter?: unknown,
+    sort?: string,
+    include?: string,
+    cursor?: string,
+    withTotal: boolean = true,
+    fields?: string,
+  ): Promise<
+    | PaginatedResponseDto<DynamicRecordDto>
+    | CursorPaginatedResponseDto<DynamicRecordDto>
+  > {
     this.logger.debug(
-      `Fetching records for entity: ${entityName}, page: ${page}`,
+      `Fetching records for entity: ${entityName}, ` +
+        (cursor === undefined ? `page: ${page}` : 'by cursor'),
       'DynamicService',
     );
     const context = await this.metadataReader.getEntityContext(entityName);
+    const conditions = this.filterParser.parse(context, filter);
+    const sortSpecs = this.sortParser.parse(context, sort);
+    const includes = await this.includeResolver.parse(context, include);
+    const position = cursor ? decodeCursor(sortSpecs, cursor) : null;
+    const selection = parseFieldSelection(context, fields);
+    const read = this.readFields(selection, includes, sortSpecs);
 
     try {
-      const [records, total] = await Promise.all([
-        this.queryExecutor.execute<any[]>(
-          this.queryBuilder.buildFindMany(context, { page, pageSize }),
-        ),
-        this.queryExecutor.execute<number>(
-          this.queryBuilder.buildCount(context),
-        ),
-      ]);
-
-      const parsedRecords = records.map((record) =>
-        this.deserializeRecord(record),
-      );
+      if (cursor !== undefined) {
+        const result = await this.getCursorPage(
+          context,
+          conditions,
+          sortSpecs,
+          pageSize,
+          position,
+          withTotal,
+          read,
+        );
+        await this.includeResolver.resolve(result.data, includes);
+        if (selection) {
+          applyFieldSelection(result.data, selection);
+        }
+
+        this.logger.log(
+          `✓ Retrieved ${result.data.length} records from ${entityName}`,
+          'DynamicService',
+        );
+        return result;
+      }
 
-      const totalPages = Math.ceil(total / pageSize);
+      const { records, total } = await this.databaseService.findMany(context, {
+        page,
+        pageSize,
+        filters: conditions,
+        sort: sortSpecs,
+        withTotal,
+        fields: read,
+      });
+      await this.includeResolver.resolve(records, includes);
+      if (selection) {
+        applyFieldSelection(records, selection);
+      }
 
       this.logger.log(
         `✓ Retrieved ${records.length} records from ${entityName}`,
         'DynamicService',
       );
 
+      if (total === null) {
+        return { data: records, page, pageSize };
+      }
+
       return {
-        data: parsedRecords,
+        data: records,
         total,
         page,
         pageSize,
-        totalPages,
+        totalPages: Math.ceil(total / pageSize),
       };
     } catch (error) {
       this.logger.error(
@@ -82,12 +216,118 @@ export class DynamicService {
     }
   }
 
+  /**
+   * Read the page following or preceding a cursor's record, or the first
+   * page without one. A page before a record is read in reverse order,
+   * one extra record telling whether another page follows in that order.
+   */
+  private async getCursorPage(
+    context: DynamicEntityContext,
+    conditions: FilterCondition[],
+    sort: SortSpec[],
+    pageSize: number,
+    position: RecordCursor | null,
+    withTotal: boolean,
+    fields?: string[],
+  ): Promise<CursorPaginatedResponseDto<DynamicRecordDto>> {
+    const backward = position?.direction === 'prev';
+    const { records, total } = await this.databaseService.findMany(context, {
+      filters: conditions,
+      sort: backward ? reverseSort(sort) : sort,
+      keyset: { after: position?.values ?? null, limit: pageSize + 1 },
+      withTotal,
+      fields,
+    });
+
+    const more = records.length > pageSize;
+    const data = records.slice(0, pageSize);
+    if (backward) {
+      data.reverse();
+    }
+
+    // Records lie beyond the cursor's record on the side it came from
+    const hasNext = backward || more;
+    const hasPrev = backward ? more : position !== null;
+
+    return {
+      data,
+      ...(total === null ? {} : { total }),
+      pageSize,
+      nextCursor:
+        hasNext && data.length
+          ? encodeCursor(sort, data[data.length - 1], 'next')
+          : null,
+      prevCursor:
+        hasPrev && data.length ? encodeCursor(sort, data[0], 'prev') : null,
+    };
+  }
+
+  /**
+   * Data fields to read for a field selection: the selected ones, the
+   * reference fields of includes and the sort keys. Undefined reads all.
+   */
+  private readFields(
+    selection: string[] | null,
+    includes: IncludeNode[],
+    sort: SortSpec[] = [],
+  ): string[] | undefined {
+    if (!selection) {
+      return undefined;
+    }
+
+    return fieldsToRead(selection, [
+      ...includes.filter((node) => !node.reverse).map((node) => node.field.fieldName),
+      ...sort.filter((spec) => !spec.system).map((spec) => spec.fieldName),
+    ]);
+  }
+
+  /**
+   * Group the records of an entity matching the filters and compute
+   * metrics per group, all in the database
+   */
+  async aggregateRecords(
+    entityName: string,
+    filter?: unknown,
+    groupBy?: string,
+    metrics?: string,
+  ): Promise<AggregateResultDto> {
+    this.logger.debug(
+      `Aggregating records of ${entityName} by: ${groupBy || '(all)'}`,
+      'DynamicService',
+    );
+    const context = await this.metadataReader.getEntityContext(entityName);
+    const conditions = this.filterParser.parse(context, filter);
+    const query = this.aggregateParser.parse(context, groupBy, metrics);
+
+    const groups = await this.databaseService.aggregate(
+      context,
+      query,
+      conditions,
+      MAX_AGGREGATE_GROUPS + 1,
+    );
+
+    if (groups.length > MAX_AGGREGATE_GROUPS) {
+      throw new BadRequestException(
+        `Aggregation makes more than ${MAX_AGGREGATE_GROUPS} groups, ` +
+          'filter the records or group by fewer fields',
+      );
+    }
+
+    this.logger.log(
+      `✓ Aggregated ${entityName} into ${groups.length} groups`,
+      'DynamicService',
+    );
+    return { groups };
+  }
+
   /**
    * Get single record by ID
    */
   async getRecordById(
     entityName: string,
     recordId: string,
+    include?: string,
+    fields?: string,
   ): Promise<DynamicRecordDto> {
     this.logger.debug(
       `Fetching record ${recordId} from ${entityName}`,
@@ -95,9 +335,13 @@ export class DynamicService {
     );
 
     const context = await this.metadataReader.getEntityContext(entityName);
+    const includes = await this.includeResolver.parse(context, include);
+    const selection = parseFieldSelection(context, fields);
 
-    const record = await this.queryExecutor.execute<any | null>(
-      this.queryBuilder.buildFindOne(context, recordId),
+    const record = await this.databaseService.findOne(
+      context,
+      recordId,
+      this.readFields(selection, includes),
     );
 
     if (!record) {
@@ -106,7 +350,11 @@ export class DynamicService {
       );
     }
 
-    return this.deserializeRecord(record);
+    await this.includeResolver.resolve([record], includes);
+    if (selection) {
+      applyFieldSelection([record], selection);
+    }
+    return record;
   }
 
   /**
@@ -115,6 +363,7 @@ export class DynamicService {
   async createRecord(
     entityName: string,
     dto: CreateDynamicRecordDto,
+    userId: string | null = null,
   ): Promise<DynamicRecordDto> {
     this.logger.debug(
       `Creating record in ${entityName} with payload: ${JSON.stringify(dto)}`,
@@ -129,34 +378,41 @@ export class DynamicService {
       'DynamicService',
     );
 
-    // Validate fields against entity metadata
-    await this.validateRecordData(context, dto);
-
-    // Normalize field names to match metadata (lowercase)
-    const normalizedPayload: Record<string, any> = {};
-    for (const [key, value] of Object.entries(dto)) {
-      const matchingField = context.fields.find(f => f.fieldName.toLowerCase() === key.toLowerCase());
-      if (matchingField) {
-        normalizedPayload[matchingField.fieldName] = value;
-      }
-    }
+    const normalizedPayload = await this.prepareCreate(context, dto, {
+      userId,
+    });
 
     this.logger.debug(
       `Normalized payload: ${JSON.stringify(normalizedPayload)}`,
       'DynamicService',
     );
 
+    return this.insertRecord(context, normalizedPayload, userId);
+  }
+
+  private async insertRecord(
+    context: DynamicEntityContext,
+    data: Record<string, any>,
+    userId: string | null,
+  ): Promise<DynamicRecordDto> {
+    const entityName = context.entity.entityName;
+
     try {
-      const record = await this.queryExecutor.execute<any>(
-        this.queryBuilder.buildCreate(context, normalizedPayload),
-      );
+      const record = await this.databaseService.transaction(async () => {
+        await this.referenceService.lockTargets(context, data);
+        const created = await this.databaseService.create(context, data);
+        await this.historyService.snapshot(context, created, 'create', {
+          userId,
+        });
+        return created;
+      });
 
       this.logger.log(
         `✓ Record created in ${entityName}: ${record.id}`,
         'DynamicService',
       );
 
-      return this.deserializeRecord(record);
+      return record;
     } catch (error) {
       this.logger.error(
         `Error creating record in ${entityName}`,
@@ -168,38 +424,272 @@ export class DynamicService {
   }
 
   /**
-   * Update record
+   * Replace record: the payload becomes the record's whole data.
+   * With `ifMatch`, the record must still be at a version it names.
    */
   async updateRecord(
     entityName: string,
     recordId: string,
-    dto: Partial<CreateDynamicRecordDto>,
+    dto: CreateDynamicRecordDto,
+    ifMatch?: string,
+    userId: string | null = null,
   ): Promise<DynamicRecordDto> {
     this.logger.debug(
-      `Updating record ${recordId} in ${entityName}`,
+      `Replacing record ${recordId} in ${entityName}`,
+      'DynamicService',
+    );
+
+    const context = await this.metadataReader.getEntityContext(entityName);
+    const existing = await this.getRecordById(entityName, recordId);
+    const expectedVersion = this.checkIfMatch(existing, ifMatch);
+    const data = await this.prepareReplace(context, existing, dto);
+
+    return this.saveRecord(context, existing, data, expectedVersion, userId);
+  }
+
+  /**
+   * Create or replace the record holding a value of a unique field.
+   * Finding the record and writing it are two steps, not one atomic
+   * operation: a record created or changed by a concurrent write in
+   * between makes the write fail on the unique constraint or the version,
+   * and the record is looked up again, so the payload is never stored
+   * twice. After MAX_UPSERT_ATTEMPTS such races the upsert fails with 409.
+   */
+  async upsertRecord(
+    entityName: string,
+    fieldName: string,
+    value: string,
+    dto: CreateDynamicRecordDto,
+    userId: string | null = null,
+  ): Promise<UpsertResultDto> {
+    this.logger.debug(
+      `Upserting record in ${entityName} by ${fieldName} = ${value}`,
       'DynamicService',
     );
 
     const context = await this.metadataReader.getEntityContext(entityName);
+    const field = context.fields.find(
+      (f) => f.fieldName.toLowerCase() === fieldName.toLowerCase(),
+    );
+
+    if (!field) {
+      throw new BadRequestException(
+        `Field '${fieldName}' is not defined for ${entityName}`,
+      );
+    }
+    if (!field.isUnique) {
+      throw new BadRequestException(
+        `Field '${field.fieldName}' is not unique; upserts need a unique field`,
+      );
+    }
+
+    const key = toCanonical(field.fieldType, value, 'lenient');
+    if (key === undefined || key === null) {
+      throw new BadRequestException(
+        `'${value}' is not a valid value of field '${field.fieldName}'`,
+      );
+    }
+
+    const document: Record<string, any> = {};
+    for (const [name, item] of Object.entries(dto)) {
+      if (name.toLowerCase() !== field.fieldName.toLowerCase()) {
+        document[name] = item;
+      } else if (
+        toComparable(field.fieldType, item) !==
+        toComparable(field.fieldType, key)
+      ) {
+        throw new BadRequestException(
+          `The payload's ${field.fieldName} differs from the one in the URL`,
+        );
+      }
+    }
+    document[field.fieldName] = key;
+
+    for (let attempt = 1; attempt <= MAX_UPSERT_ATTEMPTS; attempt++) {
+      const { records } = await this.databaseService.findMany(context, {
+        page: 1,
+        pageSize: 1,
+        filters: [
+          {
+            fieldName: field.fieldName,
+            fieldType: field.fieldType,
+            operator: 'eq',
+            value: toComparable(field.fieldType, key),
+            indexedColumn: uniqueConstraintName(field.id),
+          },
+        ],
+      });
+      const [existing] = records;
+
+      try {
+        if (existing) {
+          const data = await this.prepareReplace(context, existing, document);
+          const record = await this.saveRecord(
+            context,
+            existing,
+            data,
+            existing.version,
+            userId,
+          );
+          return { created: false, record };
+        }
 
-    // Get existing record
+        const data = await this.prepareCreate(context, document, { userId });
+        const record = await this.insertRecord(context, data, userId);
+        return { created: true, record };
+      } catch (error) {
+        const raced = existing
+          ? error instanceof PreconditionFailedException
+          : error instanceof ConflictException &&
+            (error.getResponse() as Partial<UniqueConflictResponse>).field ===
+              field.fieldName;
+        if (!raced) {
+          throw error;
+        }
+      }
+    }
+
+    throw new ConflictException(
+      `Record of ${entityName} with ${field.fieldName} '${value}' kept changing, retry the upsert`,
+    );
+  }
+
+  /**
+   * Patch record with a JSON Merge Patch, or a JSON Patch when the media
+   * type is application/json-patch+json.
+   * With `ifMatch`, the record must still be at a version it names.
+   */
+  async patchRecord(
+    entityName: string,
+    recordId: string,
+    patch: unknown,
+    mediaType: string = MERGE_PATCH_MEDIA_TYPE,
+    ifMatch?: string,
+    userId: string | null = null,
+  ): Promise<DynamicRecordDto> {
+    this.logger.debug(
+      `Patching record ${recordId} in ${entityName} (${mediaType})`,
+      'DynamicService',
+    );
+
+    const context = await this.metadataReader.getEntityContext(entityName);
+    const existing = await this.getRecordById(entityName, recordId);
+    const expectedVersion = this.checkIfMatch(existing, ifMatch);
+    const document =
+      mediaType === JSON_PATCH_MEDIA_TYPE
+        ? applyJsonPatch(existing.data, this.toFieldPatch(context, patch))
+        : this.mergePatch(context, existing.data, patch);
+    const data = await this.prepareReplace(context, existing, document);
+
+    return this.saveRecord(context, existing, data, expectedVersion, userId);
+  }
+
+  /**
+   * Roll a record back to the data of one of its versions, checked against
+   * the entity's current fields like a replacement.
+   * With `ifMatch`, the record must still be at a version it names.
+   */
+  async restoreVersion(
+    entityName: string,
+    recordId: string,
+    version: number,
+    ifMatch?: string,
+    userId: string | null = null,
+  ): Promise<DynamicRecordDto> {
+    this.logger.debug(
+      `Restoring record ${recordId} in ${entityName} to version ${version}`,
+      'DynamicService',
+    );
+
+    const context = await this.metadataReader.getEntityContext(entityName);
     const existing = await this.getRecordById(entityName, recordId);
+    const snapshot = await this.historyService.getVersion(
+      context,
+      recordId,
+      version,
+    );
+    const expectedVersion = this.checkIfMatch(existing, ifMatch);
+    const data = await this.prepareReplace(context, existing, snapshot.data);
 
-    // Validate updated fields
-    const mergedData = { ...existing.data, ...dto };
-    await this.validateRecordData(context, mergedData);
+    return this.saveRecord(
+      context,
+      existing,
+      data,
+      expectedVersion,
+      userId,
+      'restore',
+    );
+  }
+
+  /**
+   * Get the versions of a record, latest first (with pagination)
+   */
+  async getRecordVersions(
+    entityName: string,
+    recordId: string,
+    page: number = 1,
+    pageSize: number = 10,
+  ): Promise<PaginatedResponseDto<RecordVersionDto>> {
+    const context = await this.metadataReader.getEntityContext(entityName);
+    return this.historyService.getVersions(context, recordId, page, pageSize);
+  }
+
+  /**
+   * Get a version of a record with its data
+   */
+  async getRecordVersion(
+    entityName: string,
+    recordId: string,
+    version: number,
+  ): Promise<RecordVersionDto> {
+    const context = await this.metadataReader.getEntityContext(entityName);
+    return this.historyService.getVersion(context, recordId, version);
+  }
+
+  /**
+   * Get the fields that differ between two versions of a record
+   */
+  async diffRecordVersions(
+    entityName: string,
+    recordId: string,
+    from: number,
+    to: number,
+  ): Promise<RecordVersionDiffDto> {
+    const context = await this.metadataReader.getEntityContext(entityName);
+    return this.historyService.diff(context, recordId, from, to);
+  }
+
+  private async saveRecord(
+    context: DynamicEntityContext,
+    existing: DynamicRecordDto,
+    data: Record<string, any>,
+    expectedVersion: number | undefined,
+    userId: string | null,
+    action: SnapshotAction = 'update',
+  ): Promise<DynamicRecordDto> {
+    const entityName = context.entity.entityName;
 
     try {
-      const record = await this.queryExecutor.execute<any>(
-        this.queryBuilder.buildUpdate(recordId, mergedData),
-      );
+      const record = await this.databaseService.transaction(async () => {
+        await this.referenceService.lockTargets(context, data, existing.data);
+        const updated = await this.databaseService.update(
+          context,
+          existing.id,
+          data,
+          expectedVersion,
+        );
+        await this.historyService.snapshot(context, updated, action, {
+          userId,
+        });
+        return updated;
+      });
 
       this.logger.log(
         `✓ Record updated in ${entityName}: ${record.id}`,
         'DynamicService',
       );
 
-      return this.deserializeRecord(record);
+      return record;
     } catch (error) {
       this.logger.error(
         `Error updating record in ${entityName}`,
@@ -211,23 +701,45 @@ export class DynamicService {
   }
 
   /**
-   * Delete record (soft delete)
+   * Delete record (soft delete), or remove it and its versions for good
+   * when `hard`, also from the trash.
+   * With `ifMatch`, the record must still be at a version it names.
    */
-  async deleteRecord(entityName: string, recordId: string): Promise<void> {
+  async deleteRecord(
+    entityName: string,
+    recordId: string,
+    ifMatch?: string,
+    userId: string | null = null,
+    hard: boolean = false,
+  ): Promise<void> {
     this.logger.debug(
-      `Deleting record ${recordId} from ${entityName}`,
+      `Deleting record ${recordId} from ${entityName}${hard ? ' (hard)' : ''}`,
       'DynamicService',
     );
 
-    await this.getRecordById(entityName, recordId);
+    const context = await this.metadataReader.getEntityContext(entityName);
+    const deleted = hard
+      ? await this.databaseService.findDeletedOne(context, recordId)
+      : null;
+    const existing = deleted ?? (await this.getRecordById(entityName, recordId));
+    const expectedVersion = this.checkIfMatch(existing, ifMatch);
 
     try {
-      await this.queryExecutor.execute(
-        this.queryBuilder.buildSoftDelete(recordId),
-      );
+      await this.databaseService.transaction(async () => {
+        // References to the record are handled when it leaves the live records
+        if (!deleted) {
+          await this.referenceService.deleteRecord(context, recordId, {
+            userId,
+            expectedVersion,
+          });
+        }
+        if (hard) {
+          await this.trashService.purge(context, recordId);
+        }
+      });
 
       this.logger.log(
-        `✓ Record deleted from ${entityName}: ${recordId}`,
+        `✓ Record ${hard ? 'permanently ' : ''}deleted from ${entityName}: ${recordId}`,
         'DynamicService',
       );
     } catch (error) {
@@ -241,109 +753,651 @@ export class DynamicService {
   }
 
   /**
-   * Validate record data against field definitions
+   * Get the deleted records of an entity, the latest deleted first (with
+   * pagination)
+   */
+  async getDeletedRecords(
+    entityName: string,
+    page: number = 1,
+    pageSize: number = 10,
+  ): Promise<PaginatedResponseDto<DynamicRecordDto>> {
+    const context = await this.metadataReader.getEntityContext(entityName);
+    return this.trashService.getDeleted(context, page, pageSize);
+  }
+
+  /**
+   * Bring a deleted record back from the trash
+   */
+  async restoreRecord(
+    entityName: string,
+    recordId: string,
+    userId: string | null = null,
+  ): Promise<DynamicRecordDto> {
+    this.logger.debug(
+      `Restoring deleted record ${recordId} in ${entityName}`,
+      'DynamicService',
+    );
+
+    const context = await this.metadataReader.getEntityContext(entityName);
+    return this.trashService.restore(context, recordId, userId);
+  }
+
+  /**
+   * Link a record to a record of the other side of a relation
+   */
+  async linkRecord(
+    entityName: string,
+    recordId: string,
+    relation: string,
+    targetId: string,
+  ): Promise<void> {
+    const context = await this.metadataReader.getEntityContext(entityName);
+    await this.relationService.link(context, recordId, relation, targetId);
+  }
+
+  /**
+   * Remove the link between a record and a record of the other side
+   */
+  async unlinkRecord(
+    entityName: string,
+    recordId: string,
+    relation: string,
+    targetId: string,
+  ): Promise<void> {
+    const context = await this.metadataReader.getEntityContext(entityName);
+    await this.relationService.unlink(context, recordId, relation, targetId);
+  }
+
+  /**
+   * Get the records linked to a record through a relation (with pagination)
+   */
+  async getLinkedRecords(
+    entityName: string,
+    recordId: string,
+    relation: string,
+    page: number = 1,
+    pageSize: number = 10,
+  ): Promise<PaginatedResponseDto<DynamicRecordDto>> {
+    const context = await this.metadataReader.getEntityContext(entityName);
+    return this.relationService.getLinked(
+      context,
+      recordId,
+      relation,
+      page,
+      pageSize,
+    );
+  }
+
+  /**
+   * Create, update and delete records of an entity in one request.
+   * Transactional mode checks every item before writing anything and
+   * writes them all in one transaction; best-effort mode applies each
+   * item on its own and reports the ones that failed.
+   * Updates and deletes expect the record version read when checking.
+   */
+  async bulkWrite(
+    entityName: string,
+    dto: BulkOperationDto,
+    userId: string | null = null,
+  ): Promise<BulkOperationResultDto> {
+    const context = await this.metadataReader.getEntityContext(entityName);
+    const itemCount =
+      (dto.create?.length ?? 0) +
+      (dto.update?.length ?? 0) +
+      (dto.delete?.length ?? 0);
+
+    if (itemCount > MAX_BULK_ITEMS) {
+      throw new BadRequestException(
+        `A bulk request holds at most ${MAX_BULK_ITEMS} items, got ${itemCount}`,
+      );
+    }
+
+    this.logger.debug(
+      `Bulk ${dto.mode ?? 'transactional'} operation on ${entityName}: ${itemCount} items`,
+      'DynamicService',
+    );
+
+    const created: string[] = new Array(dto.create?.length ?? 0).fill(null);
+    const items = this.bulkItems(context, dto, created, { userId });
+    const errors =
+      dto.mode === 'bestEffort'
+        ? await this.applyBestEffort(items)
+        : await this.applyTransactional(context, items);
+    const failed = new Set(errors.map((e) => e.params?.item)).size;
+
+    this.logger.log(
+      `✓ Bulk operation on ${entityName}: ${itemCount - failed} succeeded, ${failed} failed`,
+      'DynamicService',
+    );
+
+    return {
+      success: itemCount - failed,
+      failed,
+      errors,
+      created,
+    };
+  }
+
+  /**
+   * Every item of a bulk request, named by its position in the request
+   * (create.0, update.3, delete.1). Preparing an item checks it and
+   * returns the write to make.
+   */
+  private bulkItems(
+    context: DynamicEntityContext,
+    dto: BulkOperationDto,
+    created: string[],
+    defaults: DefaultValueContext,
+  ): BulkItem[] {
+    return [
+      ...(dto.create ?? []).map((payload, index) => ({
+        path: `create.${index}`,
+        prepare: async () => {
+          const data = await this.prepareCreate(context, payload, defaults);
+          return async () => {
+            await this.referenceService.lockTargets(context, data);
+            const record = await this.databaseService.create(context, data);
+            created[index] = record.id;
+            await this.historyService.snapshot(context, record, 'create', {
+              userId: defaults.userId,
+            });
+          };
+        },
+      })),
+      ...(dto.update ?? []).map((item, index) => ({
+        path: `update.${index}`,
+        prepare: async () => {
+          const existing = await this.findRecord(context, item.id);
+          const data = await this.prepareReplace(
+            context,
+            existing,
+            this.mergePatch(context, existing.data, item.data),
+          );
+          return async () => {
+            await this.referenceService.lockTargets(
+              context,
+              data,
+              existing.data,
+            );
+            const record = await this.databaseService.update(
+              context,
+              item.id,
+              data,
+              existing.version,
+            );
+            await this.historyService.snapshot(context, record, 'update', {
+              userId: defaults.userId,
+            });
+          };
+        },
+      })),
+      ...(dto.delete ?? []).map((recordId, index) => ({
+        path: `delete.${index}`,
+        prepare: async () => {
+          const existing = await this.findRecord(context, recordId);
+          await this.referenceService.assertDeletable(context, recordId);
+          return () =>
+            this.referenceService.deleteRecord(context, recordId, {
+              userId: defaults.userId,
+              expectedVersion: existing.version,
+            });
+        },
+      })),
+    ];
+  }
+
+  /**
+   * Check every item, then write them all in one transaction, so they are
+   * all written or none is. Fails with 400 for entities stored in
+   * a database without transactions.
+   */
+  private async applyTransactional(
+    context: DynamicEntityContext,
+    items: BulkItem[],
+  ): Promise<FieldValidationError[]> {
+    if (!(await this.databaseService.supportsTransactions(context))) {
+      throw new BadRequestException(
+        `Entity '${context.entity.entityName}' is stored in a database without transactions, use bestEffort mode`,
+      );
+    }
+
+    const writes: (() => Promise<void>)[] = [];
+    const errors: FieldValidationError[] = [];
+
+    for (const item of items) {
+      try {
+        writes.push(await item.prepare());
+      } catch (error) {
+        errors.push(...this.toItemErrors(item.path, error));
+      }
+    }
+
+    if (errors.length) {
+      throw new BadRequestException({
+        message: 'Bulk operation failed, nothing was written',
+        errors,
+      });
+    }
+
+    let current = 0;
+    try {
+      await this.databaseService.transaction(async () => {
+        for (; current < writes.length; current++) {
+          await writes[current]();
+        }
+      }, true);
+    } catch (error) {
+      if (error instanceof HttpException && error.getStatus() < 500) {
+        throw new BadRequestException({
+          message: 'Bulk operation failed, nothing was written',
+          errors: this.toItemErrors(items[current].path, error),
+        });
+      }
+      throw error;
+    }
+
+    return [];
+  }
+
+  /**
+   * Check and write each item on its own, returning the errors of those
+   * that failed
+   */
+  private async applyBestEffort(
+    items: BulkItem[],
+  ): Promise<FieldValidationError[]> {
+    const errors: FieldValidationError[] = [];
+
+    for (const item of items) {
+      try {
+        const write = await item.prepare();
+        await this.databaseService.transaction(write);
+      } catch (error) {
+        errors.push(...this.toItemErrors(item.path, error));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Errors of a failed bulk item, their fields prefixed with its path
+   */
+  private toItemErrors(path: string, error: any): FieldValidationError[] {
+    const response =
+      error instanceof HttpException ? error.getResponse() : undefined;
+    const fieldErrors: FieldValidationError[] | undefined =
+      typeof response === 'object' ? (response as any).errors : undefined;
+
+    if (fieldErrors) {
+      return fieldErrors.map((e) => ({
+        ...e,
+        field: `${path}.${e.field}`,
+        params: { ...e.params, item: path },
+      }));
+    }
+
+    return [
+      {
+        field: path,
+        code:
+          error instanceof HttpException
+            ? BULK_ERROR_CODES[error.getStatus()] ?? 'FAILED'
+            : 'FAILED',
+        message: error.message,
+        params: { item: path },
+      },
+    ];
+  }
+
+  /**
+   * Fail with 412 unless an If-Match header matches the record's version;
+   * returns the version a write must find, if any
+   */
+  private checkIfMatch(
+    record: DynamicRecordDto,
+    ifMatch?: string,
+  ): number | undefined {
+    if (ifMatch === undefined) {
+      return undefined;
+    }
+    if (!matchesIfMatch(ifMatch, record.version)) {
+      throw new PreconditionFailedException(
+        `Record ${record.id} is at version ${record.version}, not ${ifMatch}`,
+      );
+    }
+
+    return record.version;
+  }
+
+  private async findRecord(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<DynamicRecordDto> {
+    const record = await this.databaseService.findOne(context, recordId);
+
+    if (!record) {
+      throw new NotFoundException(
+        `Record ${recordId} not found in ${context.entity.entityName}`,
+      );
+    }
+
+    return record;
+  }
+
+  /**
+   * Normalize, default, convert and validate the payload of a new record,
+   * returning the data to store
+   */
+  private async prepareCreate(
+    context: DynamicEntityContext,
+    dto: CreateDynamicRecordDto,
+    defaults: DefaultValueContext,
+  ): Promise<Record<string, any>> {
+    const { data, errors: unknownErrors } = this.normalizePayload(
+      context,
+      dto,
+    );
+
+    // Fill omitted fields from their defaults, then validate the result
+    this.applyDefaults(context, data, defaults);
+    const typeErrors = this.coerceRecordData(context, data);
+    const referenceErrors = await this.referenceService.validate(
+      context,
+      data,
+    );
+    this.validateRecordData(context, data, [
+      ...unknownErrors,
+      ...typeErrors,
+      ...referenceErrors,
+    ]);
+
+    return data;
+  }
+
+  /**
+   * Normalize, convert and validate the new data of a record, returning
+   * the data to store. Only changed reference values are looked up.
+   */
+  private async prepareReplace(
+    context: DynamicEntityContext,
+    existing: DynamicRecordDto,
+    document: Record<string, any>,
+  ): Promise<Record<string, any>> {
+    const { data, errors: unknownErrors } = this.normalizePayload(
+      context,
+      document,
+    );
+    const typeErrors = this.coerceRecordData(context, data);
+    const changes = Object.fromEntries(
+      Object.entries(data).filter(
+        ([key, value]) => !isDeepStrictEqual(value, existing.data[key]),
+      ),
+    );
+    const referenceErrors = await this.referenceService.validate(
+      context,
+      changes,
+    );
+    this.validateRecordData(context, data, [
+      ...unknownErrors,
+      ...typeErrors,
+      ...referenceErrors,
+    ]);
+
+    return data;
+  }
+
+  /**
+   * Apply a JSON Merge Patch to record data, its top-level keys matched
+   * to field names case-insensitively
+   */
+  private mergePatch(
+    context: DynamicEntityContext,
+    data: Record<string, any>,
+    patch: unknown,
+  ): Record<string, any> {
+    if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+      throw new BadRequestException('A merge patch must be a JSON object');
+    }
+
+    const fieldPatch = Object.fromEntries(
+      Object.entries(patch).map(([key, value]) => [
+        this.fieldNameOf(context, key),
+        value,
+      ]),
+    );
+    return applyMergePatch(data, fieldPatch) as Record<string, any>;
+  }
+
+  /**
+   * Match the first token of JSON Patch paths to field names
+   * case-insensitively
+   */
+  private toFieldPatch(context: DynamicEntityContext, patch: unknown): unknown {
+    if (!Array.isArray(patch)) {
+      return patch;
+    }
+
+    const toField = (pointer: unknown) => {
+      if (typeof pointer !== 'string' || !pointer) {
+        return pointer;
+      }
+      const [first, ...rest] = parsePointer(pointer);
+      return toPointer([this.fieldNameOf(context, first), ...rest]);
+    };
+
+    return patch.map((operation) =>
+      typeof operation === 'object' && operation !== null
+        ? {
+            ...operation,
+            path: toField(operation.path),
+            ...('from' in operation && { from: toField(operation.from) }),
+          }
+        : operation,
+    );
+  }
+
+  private fieldNameOf(context: DynamicEntityContext, key: string): string {
+    const field = context.fields.find(
+      (f) => f.fieldName.toLowerCase() === key.toLowerCase(),
+    );
+    return field ? field.fieldName : key;
+  }
+
+  /**
+   * Rename payload keys to the field names they match case-insensitively
+   * and handle keys matching no field by the entity's unknownFieldPolicy:
+   * reported as errors (reject), dropped (strip) or kept as sent (store)
+   */
+  private normalizePayload(
+    context: DynamicEntityContext,
+    payload: Record<string, any>,
+  ): { data: Record<string, any>; errors: FieldValidationError[] } {
+    const data: Record<string, any> = {};
+    const errors: FieldValidationError[] = [];
+
+    for (const [key, value] of Object.entries(payload)) {
+      const matchingField = context.fields.find(
+        (f) => f.fieldName.toLowerCase() === key.toLowerCase(),
+      );
+
+      if (matchingField) {
+        data[matchingField.fieldName] = value;
+      } else if (context.entity.unknownFieldPolicy === 'store') {
+        data[key] = value;
+      } else if (context.entity.unknownFieldPolicy === 'reject') {
+        errors.push({
+          field: key,
+          code: 'UNKNOWN_FIELD',
+          message: `Field '${key}' is not defined for ${context.entity.entityName}`,
+        });
+      }
+    }
+
+    return { data, errors };
+  }
+
+  /**
+   * Set fields missing from a new record's payload to their default value
+   */
+  private applyDefaults(
+    context: DynamicEntityContext,
+    payload: Record<string, any>,
+    defaults: DefaultValueContext,
+  ): void {
+    for (const field of context.fields) {
+      if (
+        field.defaultValue === null ||
+        field.defaultValue === undefined ||
+        field.fieldName in payload
+      ) {
+        continue;
+      }
+
+      const value = resolveDefault(field, defaults);
+      if (value !== undefined) {
+        payload[field.fieldName] = value;
+      }
+    }
+  }
+
+  /**
+   * Convert field values to the canonical form of their field type,
+   * following the entity's coercion mode.
+   * Returns the values that couldn't be converted.
+   */
+  private coerceRecordData(
+    context: DynamicEntityContext,
+    data: Record<string, any>,
+  ): FieldValidationError[] {
+    const mode = context.entity.coercionMode as CoercionMode;
+    const errors: FieldValidationError[] = [];
+
+    for (const [key, value] of Object.entries(data)) {
+      const field = context.fields.find(
+        (f) => f.fieldName.toLowerCase() === key.toLowerCase(),
+      );
+      if (!field || value === undefined) {
+        continue;
+      }
+
+      const canonical = toCanonical(field.fieldType, value, mode);
+      if (canonical === undefined) {
+        errors.push({
+          field: field.fieldName,
+          code: 'TYPE',
+          message: `Field '${field.displayName}' ${this.coercionError(field.fieldType, mode)}`,
+          params: { fieldType: field.fieldType, mode },
+        });
+        continue;
+      }
+      data[key] = canonical;
+    }
+
+    return errors;
+  }
+
+  private coercionError(fieldType: string, mode: CoercionMode): string {
+    switch (fieldType) {
+      case 'integer':
+        return 'must be an integer';
+      case 'decimal':
+        return `must be a decimal number with at most ${DECIMAL_SCALE} digits after the point`;
+      case 'datetime':
+        return mode === 'strict'
+          ? 'must be an ISO-8601 date'
+          : 'must be a valid date';
+      case 'boolean':
+        return 'must be a boolean';
+      default:
+        return 'must be text';
+    }
+  }
+
+  /**
+   * Validate record data against field definitions, throwing one
+   * BadRequestException listing every failing field.
+   * Fields that already failed type conversion aren't checked again.
    * Case-insensitive field matching for user-friendly API
    */
-  private async validateRecordData(
+  private validateRecordData(
     context: DynamicEntityContext,
     data: Record<string, any>,
-  ): Promise<void> {
-    const fields = context.fields;
-    
-    // Create a lowercase map for case-insensitive lookups
-    const fieldMap = new Map(fields.map(f => [f.fieldName.toLowerCase(), f]));
-    
+    typeErrors: FieldValidationError[] = [],
+  ): void {
+    const errors = [...typeErrors];
+    const failed = new Set(typeErrors.map((e) => e.field));
+
     // Create a normalized data object (lowercase keys)
     const normalizedData: Record<string, any> = {};
     for (const [key, value] of Object.entries(data)) {
       normalizedData[key.toLowerCase()] = value;
     }
 
-    for (const field of fields) {
-      const fieldKeyLower = field.fieldName.toLowerCase();
-      const value = normalizedData[fieldKeyLower];
-
-      // Check required fields
-      if (field.isRequired && (value === null || value === undefined || value === '')) {
-        throw new BadRequestException(
-          `Field '${field.displayName}' is required`,
-        );
+    for (const field of context.fields) {
+      if (failed.has(field.fieldName)) {
+        continue;
       }
 
-      // Skip validation if value is not provided and not required
+      const value = normalizedData[field.fieldName.toLowerCase()];
+      const error = (
+        code: string,
+        message: string,
+        params?: Record<string, unknown>,
+      ) =>
+        errors.push({
+          field: field.fieldName,
+          code,
+          message: `Field '${field.displayName}' ${message}`,
+          ...(params && { params }),
+        });
+
+      // Skip validation if value is not provided, unless required
       if (value === null || value === undefined || value === '') {
+        if (field.isRequired) {
+          error('REQUIRED', 'is required');
+        }
         continue;
       }
 
-      // Validate string length
       if (field.fieldType === 'string') {
         if (field.maxLength && value.length > field.maxLength) {
-          throw new BadRequestException(
-            `Field '${field.displayName}' exceeds maximum length of ${field.maxLength}`,
-          );
+          error('MAX_LENGTH', `exceeds maximum length of ${field.maxLength}`, {
+            maxLength: field.maxLength,
+            length: value.length,
+          });
         }
         if (field.minLength && value.length < field.minLength) {
-          throw new BadRequestException(
-            `Field '${field.displayName}' is below minimum length of ${field.minLength}`,
-          );
+          error('MIN_LENGTH', `is below minimum length of ${field.minLength}`, {
+            minLength: field.minLength,
+            length: value.length,
+          });
         }
-
-        // Validate pattern
-        if (field.pattern) {
-          const regex = new RegExp(field.pattern);
-          if (!regex.test(value)) {
-            throw new BadRequestException(
-              `Field '${field.displayName}' format is invalid`,
-            );
-          }
-        }
-      }
-
-      // Validate field type
-      if (field.fieldType === 'integer' && !Number.isInteger(value)) {
-        throw new BadRequestException(
-          `Field '${field.displayName}' must be an integer`,
-        );
-      }
-
-      if (field.fieldType === 'decimal' && isNaN(parseFloat(value))) {
-        throw new BadRequestException(
-          `Field '${field.displayName}' must be a decimal number`,
-        );
-      }
-
-      if (field.fieldType === 'boolean' && typeof value !== 'boolean') {
-        throw new BadRequestException(
-          `Field '${field.displayName}' must be a boolean`,
-        );
-      }
-
-      if (field.fieldType === 'datetime') {
-        if (isNaN(Date.parse(value))) {
-          throw new BadRequestException(
-            `Field '${field.displayName}' must be a valid date`,
-          );
+        if (field.pattern && !new RegExp(field.pattern).test(value)) {
+          error('PATTERN', 'format is invalid', { pattern: field.pattern });
         }
       }
 
-      // Validate enum options
       if (field.fieldType === 'enum' && field.options) {
-        try {
-          const options = this.safeParseJson<any[]>(field.options) ?? [];
-          const validValues = options.map((o: any) => o.value);
-          if (!validValues.includes(value)) {
-            throw new BadRequestException(
-              `Field '${field.displayName}' has invalid value`,
-            );
-          }
-        } catch (e) {
+        const options = this.safeParseJson<any[]>(field.options);
+        if (!Array.isArray(options)) {
           this.logger.warn(
             `Failed to parse enum options for field ${field.fieldName}`,
             'DynamicService',
           );
+          continue;
+        }
+
+        const validValues = options.map((o: any) => o.value);
+        if (!validValues.includes(value)) {
+          error('ENUM', 'has invalid value', { allowed: validValues });
         }
       }
     }
+
+    if (errors.length) {
+      throw new BadRequestException({ message: 'Validation failed', errors });
+    }
   }
 
   /**
@@ -363,10 +1417,22 @@ export class DynamicService {
     return context.entity;
   }
 
-  private deserializeRecord(record: any): DynamicRecordDto {
+  /**
+   * Get the database an entity's records are routed to
+   */
+  async getEntityRouting(entityName: string): Promise<{
+    entityName: string;
+    storageMode: string;
+    database: string;
+    adapter: string;
+    availableAdapters: string[];
+  }> {
+    const context = await this.metadataReader.getEntityContext(entityName);
     return {
-      ...record,
-      data: this.safeParseJson<Record<string, unknown>>(record.data) ?? {},
+      entityName: context.entity.entityName,
+      storageMode: context.entity.storageMode,
+      ...this.databaseService.getEntityRouting(context),
+      availableAdapters: this.databaseService.getAvailableAdapters(),
     };
   }
 
@@ -0,0 +1,86 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  EntityDefinitionDto,
+  FieldDefinitionDto,
+} from '@/common/dtos/metadata.dto';
+import { DynamicAggregateParser } from './aggregate-parser.service';
+import { DynamicEntityContext } from './query.types';
+
+const context: DynamicEntityContext = {
+  entity: { id: 1, entityName: 'Order' } as EntityDefinitionDto,
+  fields: [
+    { id: 1, fieldName: 'status', fieldType: 'enum', isIndexed: false },
+    { id: 2, fieldName: 'amount', fieldType: 'decimal', isIndexed: false },
+    { id: 3, fieldName: 'paid', fieldType: 'boolean', isIndexed: false },
+  ] as FieldDefinitionDto[],
+};
+
+describe('DynamicAggregateParser', () => {
+  const parser = new DynamicAggregateParser();
+
+  it('counts all records in one group by default', () => {
+    expect(parser.parse(context)).toEqual({
+      groupBy: [],
+      metrics: [{ name: 'count', function: 'count' }],
+    });
+  });
+
+  it('reads groups and metrics on fields and record columns', () => {
+    const query = parser.parse(
+      context,
+      'Status',
+      'count, sum:amount, min:createdAt',
+    );
+
+    expect(query.groupBy).toEqual([
+      { fieldName: 'status', fieldType: 'enum', indexedColumn: undefined },
+    ]);
+    expect(query.metrics.map((metric) => metric.name)).toEqual([
+      'count',
+      'sum:amount',
+      'min:createdAt',
+    ]);
+    expect(query.metrics[1]).toMatchObject({ fieldType: 'decimal', system: false });
+    expect(query.metrics[2]).toMatchObject({ fieldType: 'datetime', system: true });
+  });
+
+  it('rejects unknown functions and fields', () => {
+    expect(() => parser.parse(context, undefined, 'median:amount')).toThrow(
+      BadRequestException,
+    );
+    expect(() => parser.parse(context, undefined, 'sum:total')).toThrow(
+      BadRequestException,
+    );
+    expect(() => parser.parse(context, 'region')).toThrow(BadRequestException);
+  });
+
+  it('rejects metrics with the wrong number of fields', () => {
+    expect(() => parser.parse(context, undefined, 'count:amount')).toThrow(
+      BadRequestException,
+    );
+    expect(() => parser.parse(context, undefined, 'sum')).toThrow(
+      BadRequestException,
+    );
+    expect(() => parser.parse(context, undefined, 'sum:amount:x')).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('rejects functions the field type does not support', () => {
+    expect(() => parser.parse(context, undefined, 'sum:status')).toThrow(
+      BadRequestException,
+    );
+    expect(() => parser.parse(context, undefined, 'max:paid')).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('rejects repeated groups and metrics', () => {
+    expect(() => parser.parse(context, 'status,status')).toThrow(
+      BadRequestException,
+    );
+    expect(() => parser.parse(context, undefined, 'sum:amount,sum:Amount')).toThrow(
+      BadRequestException,
+    );
+  });
+});
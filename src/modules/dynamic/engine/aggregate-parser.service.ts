@@ -0,0 +1,145 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { indexedColumnName } from '@/core/database/mysql-json';
+import {
+  AGGREGATE_FUNCTIONS,
+  AggregateFunction,
+  AggregateQuery,
+  DynamicEntityContext,
+  GroupSpec,
+  MetricSpec,
+  SYSTEM_SORT_FIELDS,
+} from './query.types';
+
+/**
+ * Field types each function takes; count takes no field
+ */
+const TYPED_FUNCTIONS: Record<Exclude<AggregateFunction, 'count'>, string[]> = {
+  sum: ['integer', 'decimal'],
+  avg: ['integer', 'decimal'],
+  min: ['integer', 'decimal', 'datetime', 'string', 'enum'],
+  max: ['integer', 'decimal', 'datetime', 'string', 'enum'],
+};
+
+/**
+ * Parses the `groupBy` and `metrics` query strings of an aggregation.
+ *
+ * Both are comma-separated; a metric is a function and, but for count,
+ * the field it runs on:
+ *   groupBy=status,country
+ *   metrics=count,sum:amount,avg:amount,min:createdAt
+ *
+ * Without groupBy all matching records form one group; without metrics
+ * they are counted.
+ */
+@Injectable()
+export class DynamicAggregateParser {
+  parse(
+    context: DynamicEntityContext,
+    rawGroupBy?: string,
+    rawMetrics?: string,
+  ): AggregateQuery {
+    const groupBy = this.split(rawGroupBy).map((name) =>
+      this.parseGroup(context, name),
+    );
+    const metrics = this.split(rawMetrics || 'count').map((metric) =>
+      this.parseMetric(context, metric),
+    );
+
+    for (const names of [
+      groupBy.map((group) => group.fieldName),
+      metrics.map((metric) => metric.name),
+    ]) {
+      const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+      if (duplicate) {
+        throw new BadRequestException(
+          `'${duplicate}' appears more than once in the aggregation`,
+        );
+      }
+    }
+
+    return { groupBy, metrics };
+  }
+
+  private parseGroup(context: DynamicEntityContext, name: string): GroupSpec {
+    const field = this.findField(context, name);
+    if (!field) {
+      throw new BadRequestException(`Cannot group by unknown field '${name}'`);
+    }
+
+    return {
+      fieldName: field.fieldName,
+      fieldType: field.fieldType,
+      indexedColumn: field.isIndexed ? indexedColumnName(field.id) : undefined,
+    };
+  }
+
+  private parseMetric(context: DynamicEntityContext, metric: string): MetricSpec {
+    const [fn, name, ...rest] = metric.split(':').map((part) => part.trim());
+
+    if (!AGGREGATE_FUNCTIONS.includes(fn as AggregateFunction)) {
+      throw new BadRequestException(
+        `Unsupported metric '${metric}', use ${AGGREGATE_FUNCTIONS.join(', ')}`,
+      );
+    }
+    if (fn === 'count') {
+      if (name !== undefined) {
+        throw new BadRequestException('Metric count takes no field');
+      }
+      return { name: 'count', function: 'count' };
+    }
+    if (!name || rest.length) {
+      throw new BadRequestException(
+        `Metric '${metric}' must name one field, e.g. ${fn}:amount`,
+      );
+    }
+
+    const func = fn as Exclude<AggregateFunction, 'count'>;
+    const field = this.findField(context, name);
+    const spec: MetricSpec = field
+      ? {
+          name: `${func}:${field.fieldName}`,
+          function: func,
+          fieldName: field.fieldName,
+          fieldType: field.fieldType,
+          system: false,
+          indexedColumn: field.isIndexed
+            ? indexedColumnName(field.id)
+            : undefined,
+        }
+      : name in SYSTEM_SORT_FIELDS
+        ? {
+            name: `${func}:${name}`,
+            function: func,
+            fieldName: name,
+            fieldType: SYSTEM_SORT_FIELDS[name],
+            system: true,
+          }
+        : null;
+
+    if (!spec) {
+      throw new BadRequestException(
+        `Cannot compute ${func} of unknown field '${name}'`,
+      );
+    }
+    if (!TYPED_FUNCTIONS[func].includes(spec.fieldType)) {
+      throw new BadRequestException(
+        `Metric ${func} is not supported for ${spec.fieldType} field '${spec.fieldName}'`,
+      );
+    }
+
+    return spec;
+  }
+
+  private findField(context: DynamicEntityContext, name: string) {
+    return context.fields.find(
+      (f) => f.fieldName.toLowerCase() === name.toLowerCase(),
+    );
+  }
+
+  private split(raw?: string): string[] {
+    return (raw ?? '')
+      .split(',')
+      .map((part) => part.trim())
+      .filter((part) => part.length > 0);
+  }
+}
@@ -0,0 +1,72 @@
+import { AggregateGroupDto } from '@/common/dtos/dynamic.dto';
+import { roundDecimal } from './field-values';
+import { AggregateQuery, MetricSpec } from './query.types';
+
+/**
+ * Aggregation results as returned by the API
+ * Group keys take the stored form of their field type, like record data.
+ * Metrics of decimal fields are decimal text too, so sums keep every digit
+ * whatever the database returned them as (DECIMAL, Decimal128); counts and
+ * metrics of integer fields are numbers.
+ */
+
+const toNumber = (value: unknown): number => Number(String(value));
+
+const toKeyValue = (fieldType: string, value: unknown): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  switch (fieldType) {
+    case 'integer':
+      return toNumber(value);
+    case 'decimal':
+      return roundDecimal(String(value)) ?? toNumber(value);
+    case 'datetime':
+      return new Date(value as string | Date).toISOString();
+    case 'boolean':
+      return Boolean(Number(value));
+    default:
+      return String(value);
+  }
+};
+
+const toMetricValue = (metric: MetricSpec, value: unknown): unknown => {
+  if (metric.function === 'count') {
+    return toNumber(value);
+  }
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (metric.fieldType === 'decimal') {
+    return roundDecimal(String(value)) ?? toNumber(value);
+  }
+  if (metric.function === 'sum' || metric.function === 'avg') {
+    return toNumber(value);
+  }
+
+  return toKeyValue(metric.fieldType, value);
+};
+
+/**
+ * Build a group from the group key values and metric values read from the
+ * database, in the order of the query
+ */
+export const toAggregateGroup = (
+  query: AggregateQuery,
+  keyValues: unknown[],
+  metricValues: unknown[],
+): AggregateGroupDto => ({
+  key: Object.fromEntries(
+    query.groupBy.map((group, i) => [
+      group.fieldName,
+      toKeyValue(group.fieldType, keyValues[i]),
+    ]),
+  ),
+  metrics: Object.fromEntries(
+    query.metrics.map((metric, i) => [
+      metric.name,
+      toMetricValue(metric, metricValues[i]),
+    ]),
+  ),
+});
@@ -0,0 +1,76 @@
+/**
+ * Field defaults
+ * A field's defaultValue is stored as text: either a literal coerced to the
+ * field type when a record is created, or one of the dynamic defaults
+ * below, evaluated for every record.
+ */
+import { randomUUID } from 'crypto';
+import { toCanonical } from './field-values';
+
+export interface DefaultValueContext {
+  userId: string | null;
+}
+
+interface DynamicDefault {
+  fieldTypes: string[];
+  resolve(context: DefaultValueContext): unknown;
+}
+
+export const DYNAMIC_DEFAULTS: Record<string, DynamicDefault> = {
+  'now()': {
+    fieldTypes: ['datetime', 'string'],
+    resolve: () => new Date().toISOString(),
+  },
+  'uuid()': {
+    fieldTypes: ['string'],
+    resolve: () => randomUUID(),
+  },
+  'currentUser()': {
+    fieldTypes: ['string'],
+    resolve: (context) => context.userId,
+  },
+};
+
+/**
+ * Coerce a literal default to the canonical value of the field type.
+ * Returns undefined when the text isn't a value of that type.
+ */
+export const coerceDefault = (
+  fieldType: string,
+  text: string,
+): unknown =>
+  text.trim() === '' && fieldType !== 'string'
+    ? undefined
+    : toCanonical(fieldType, text, 'lenient');
+
+/**
+ * Why a default can't be used for a field type, or null when it can
+ */
+export const defaultValueError = (
+  fieldType: string,
+  defaultValue: string,
+): string | null => {
+  const dynamic = DYNAMIC_DEFAULTS[defaultValue];
+  if (dynamic) {
+    return dynamic.fieldTypes.includes(fieldType)
+      ? null
+      : `${defaultValue} can only be the default of ${dynamic.fieldTypes.join(' or ')} fields`;
+  }
+
+  return coerceDefault(fieldType, defaultValue) === undefined
+    ? `'${defaultValue}' is not a valid ${fieldType} value`
+    : null;
+};
+
+/**
+ * Value of a field's default for a new record
+ */
+export const resolveDefault = (
+  field: { fieldType: string; defaultValue: string },
+  context: DefaultValueContext,
+): unknown => {
+  const dynamic = DYNAMIC_DEFAULTS[field.defaultValue];
+  return dynamic
+    ? dynamic.resolve(context)
+    : coerceDefault(field.fieldType, field.defaultValue);
+};
@@ -0,0 +1,65 @@
+import { BadRequestException } from '@nestjs/common';
+import { DynamicRecordDto } from '@/common/dtos/dynamic.dto';
+import { DynamicEntityContext } from './query.types';
+
+/**
+ * Sparse fieldsets
+ * The `fields` query string names the fields of the record `data` a read
+ * returns, e.g. fields=firstName,email. The record columns (id, version,
+ * timestamps) are always returned.
+ */
+
+/**
+ * Parse a fields list into defined field names, failing with 400 on
+ * unknown ones. Null when no fields are named, meaning all of them.
+ */
+export const parseFieldSelection = (
+  context: DynamicEntityContext,
+  rawFields?: string,
+): string[] | null => {
+  const names = (rawFields ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+
+  if (!names.length) {
+    return null;
+  }
+
+  const selection = names.map((name) => {
+    const field = context.fields.find(
+      (f) => f.fieldName.toLowerCase() === name.toLowerCase(),
+    );
+    if (!field) {
+      throw new BadRequestException(`Unknown field '${name}' in fields`);
+    }
+    return field.fieldName;
+  });
+
+  return [...new Set(selection)];
+};
+
+/**
+ * Fields to read for a selection: the selected ones and those the read
+ * needs itself, like sort keys and the reference fields of includes
+ */
+export const fieldsToRead = (
+  selection: string[],
+  required: string[],
+): string[] => [...new Set([...selection, ...required])];
+
+/**
+ * Drop the fields of each record's data that weren't selected
+ */
+export const applyFieldSelection = (
+  records: DynamicRecordDto[],
+  selection: string[],
+): void => {
+  for (const record of records) {
+    record.data = Object.fromEntries(
+      selection
+        .filter((name) => Object.prototype.hasOwnProperty.call(record.data, name))
+        .map((name) => [name, record.data[name]]),
+    );
+  }
+};
@@ -0,0 +1,80 @@
+import { roundDecimal, toCanonical, toComparable } from './field-values';
+
+describe('toCanonical', () => {
+  it('stores decimals with 4 digits after the point', () => {
+    expect(toCanonical('decimal', '12.34', 'strict')).toBe('12.3400');
+    expect(toCanonical('decimal', '-0.0000', 'strict')).toBe('0.0000');
+    expect(toCanonical('decimal', '007.5', 'strict')).toBe('7.5000');
+    expect(toCanonical('decimal', '1.230000', 'strict')).toBe('1.2300');
+  });
+
+  it('rejects decimals with more digits after the point instead of rounding them', () => {
+    expect(toCanonical('decimal', '0.00005', 'strict')).toBeUndefined();
+    expect(toCanonical('decimal', '9.99995', 'lenient')).toBeUndefined();
+    expect(toCanonical('decimal', 0.1 + 0.2, 'strict')).toBeUndefined();
+  });
+
+  it('keeps every digit of large decimals', () => {
+    expect(toCanonical('decimal', '12345678901234567890.1234', 'strict')).toBe(
+      '12345678901234567890.1234',
+    );
+  });
+
+  it('reads decimal numbers, including exponent notation', () => {
+    expect(toCanonical('decimal', 1.5, 'strict')).toBe('1.5000');
+    expect(toCanonical('decimal', 1e-4, 'strict')).toBe('0.0001');
+    expect(toCanonical('decimal', 1e-7, 'strict')).toBeUndefined();
+    expect(toCanonical('decimal', 'abc', 'lenient')).toBeUndefined();
+  });
+
+  it('converts text only in lenient mode', () => {
+    expect(toCanonical('integer', '42', 'strict')).toBeUndefined();
+    expect(toCanonical('integer', '42', 'lenient')).toBe(42);
+    expect(toCanonical('integer', 4.2, 'lenient')).toBeUndefined();
+  });
+
+  it('stores datetimes as UTC ISO strings', () => {
+    expect(toCanonical('datetime', '2024-01-15T12:30:00+02:00', 'strict')).toBe(
+      '2024-01-15T10:30:00.000Z',
+    );
+    expect(toCanonical('datetime', 0, 'strict')).toBeUndefined();
+    expect(toCanonical('datetime', 0, 'lenient')).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  it('keeps null and turns empty text into null for typed fields', () => {
+    expect(toCanonical('integer', null, 'strict')).toBeNull();
+    expect(toCanonical('integer', '', 'strict')).toBeNull();
+    expect(toCanonical('string', '', 'strict')).toBe('');
+  });
+});
+
+describe('toComparable', () => {
+  it('compares numbers and datetimes as numbers', () => {
+    expect(toComparable('integer', '42')).toBe(42);
+    expect(toComparable('datetime', '1970-01-01T00:00:01.000Z')).toBe(1000);
+    expect(toComparable('integer', 'x')).toBeNull();
+  });
+
+  it('compares decimals as exact text', () => {
+    expect(toComparable('decimal', 12.34)).toBe('12.3400');
+    expect(toComparable('decimal', '9007199254740993.5')).toBe('9007199254740993.5000');
+    expect(toComparable('decimal', '1.23456')).toBe('1.23456');
+    expect(toComparable('decimal', 'x')).toBeNull();
+  });
+
+  it('reads booleans and falls back to text', () => {
+    expect(toComparable('boolean', 'true')).toBe(true);
+    expect(toComparable('boolean', 'yes')).toBeNull();
+    expect(toComparable('string', 7)).toBe('7');
+  });
+});
+
+describe('roundDecimal', () => {
+  it('rounds half away from zero to 4 digits', () => {
+    expect(roundDecimal('0.00005')).toBe('0.0001');
+    expect(roundDecimal('-0.00005')).toBe('-0.0001');
+    expect(roundDecimal('-0.00004')).toBe('0.0000');
+    expect(roundDecimal('9.99995')).toBe('10.0000');
+    expect(roundDecimal('3.3333333333')).toBe('3.3333');
+  });
+});
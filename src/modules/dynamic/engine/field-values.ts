@@ -0,0 +1,187 @@
+/**
+ * Type-aware conversion of dynamic field values.
+ * Values are compared according to the field's declared type rather than
+ * their JSON representation (e.g. "42" and 42 are the same integer).
+ */
+export type ComparableValue = string | number | boolean | null;
+
+/**
+ * Convert a raw value to its comparable form for the given field type:
+ * numbers for integers and datetimes, exact decimal text for decimals
+ * (see toDecimalText), which the databases compare as DECIMAL.
+ * Returns null for missing values and values that don't fit the type.
+ */
+export const toComparable = (
+  fieldType: string,
+  value: unknown,
+): ComparableValue => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  switch (fieldType) {
+    case 'integer': {
+      if (typeof value === 'string' && value.trim() === '') {
+        return null;
+      }
+      const num = typeof value === 'number' ? value : Number(value);
+      return Number.isFinite(num) ? num : null;
+    }
+    case 'decimal':
+      return toDecimalText(value) ?? null;
+    case 'datetime': {
+      const time =
+        value instanceof Date ? value.getTime() : Date.parse(String(value));
+      return isNaN(time) ? null : time;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (value === 'true' || value === 'false') {
+        return value === 'true';
+      }
+      return null;
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * How inbound values are converted to their field type: strict accepts only
+ * values already of the field's JSON type, lenient also converts text and
+ * numbers ("42", "true", epoch milliseconds)
+ */
+export type CoercionMode = 'strict' | 'lenient';
+
+/**
+ * Digits kept after the point of decimals, as in physical DECIMAL(18,4) columns
+ */
+export const DECIMAL_SCALE = 4;
+
+const ISO_DATETIME =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2}))?$/;
+
+/**
+ * Exact text of a decimal number or decimal text, with DECIMAL_SCALE
+ * digits after the point, or more when the value has more that aren't
+ * zeros. Returns undefined for anything else.
+ */
+const toDecimalText = (value: unknown): string | undefined => {
+  let text: string;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      return undefined;
+    }
+    text = String(value);
+    text = /e/i.test(text) ? value.toFixed(20) : text;
+  } else if (typeof value === 'string') {
+    text = value;
+  } else {
+    return undefined;
+  }
+
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(text.trim());
+  if (!match || !(match[2] || match[3])) {
+    return undefined;
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const result = `${whole.replace(/^0+/, '') || '0'}.${fraction
+    .replace(/0+$/, '')
+    .padEnd(DECIMAL_SCALE, '0')}`;
+
+  return sign === '-' && /[1-9]/.test(result) ? `-${result}` : result;
+};
+
+/**
+ * Round a decimal half away from zero to DECIMAL_SCALE digits, for values
+ * computed from stored ones such as averages
+ */
+export const roundDecimal = (value: unknown): string | undefined => {
+  const text = toDecimalText(value);
+  if (text === undefined) {
+    return undefined;
+  }
+
+  const [, sign, whole, fraction] = /^(-?)(\d+)\.(\d+)$/.exec(text);
+  const digits = BigInt(
+    whole + fraction.padEnd(DECIMAL_SCALE + 1, '0').slice(0, DECIMAL_SCALE + 1),
+  );
+  const rounded = ((digits + BigInt(5)) / BigInt(10))
+    .toString()
+    .padStart(DECIMAL_SCALE + 1, '0');
+  const result = `${rounded.slice(0, -DECIMAL_SCALE)}.${rounded.slice(-DECIMAL_SCALE)}`;
+
+  return sign === '-' && /[1-9]/.test(rounded) ? `-${result}` : result;
+};
+
+/**
+ * Convert an inbound value to the canonical stored form of its field type:
+ * JSON numbers for integers, strings with DECIMAL_SCALE digits for
+ * decimals, ISO-8601 UTC strings for datetimes and JSON booleans.
+ * Decimals with more digits after the point are rejected rather than
+ * rounded.
+ * Empty text is no value for non-string types and becomes null.
+ * Returns undefined for values that can't be converted in the given mode.
+ */
+export const toCanonical = (
+  fieldType: string,
+  value: unknown,
+  mode: CoercionMode,
+): unknown => {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (value === '' && fieldType !== 'string') {
+    return null;
+  }
+
+  const lenient = mode === 'lenient';
+
+  switch (fieldType) {
+    case 'integer':
+      if (typeof value === 'number') {
+        return Number.isInteger(value) ? value : undefined;
+      }
+      return lenient &&
+        typeof value === 'string' &&
+        /^[+-]?\d+$/.test(value.trim())
+        ? Number(value)
+        : undefined;
+    case 'decimal': {
+      const text = toDecimalText(value);
+      return text && text.length - text.indexOf('.') - 1 === DECIMAL_SCALE
+        ? text
+        : undefined;
+    }
+    case 'datetime': {
+      let time = NaN;
+      if (typeof value === 'string' && (lenient || ISO_DATETIME.test(value))) {
+        time = Date.parse(value);
+      } else if (lenient && typeof value === 'number') {
+        time = value;
+      }
+      const date = new Date(time);
+      return isNaN(date.getTime()) ? undefined : date.toISOString();
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (lenient && ['true', '1', 1].includes(value as string | number)) {
+        return true;
+      }
+      if (lenient && ['false', '0', 0].includes(value as string | number)) {
+        return false;
+      }
+      return undefined;
+    default:
+      if (typeof value === 'string') {
+        return value;
+      }
+      return lenient && (typeof value === 'number' || typeof value === 'boolean')
+        ? String(value)
+        : undefined;
+  }
+};
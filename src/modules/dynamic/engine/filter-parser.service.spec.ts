@@ -0,0 +1,107 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  EntityDefinitionDto,
+  FieldDefinitionDto,
+} from '@/common/dtos/metadata.dto';
+import { DynamicFilterParser } from './filter-parser.service';
+import { DynamicEntityContext } from './query.types';
+
+const field = (
+  id: number,
+  fieldName: string,
+  fieldType: string,
+  extra: Partial<FieldDefinitionDto> = {},
+): FieldDefinitionDto =>
+  ({ id, entityId: 1, fieldName, fieldType, isIndexed: false, ...extra }) as FieldDefinitionDto;
+
+const context: DynamicEntityContext = {
+  entity: { id: 1, entityName: 'Order' } as EntityDefinitionDto,
+  fields: [
+    field(1, 'status', 'enum', {
+      options: JSON.stringify([{ value: 'open' }, { value: 'shipped' }]),
+    }),
+    field(2, 'amount', 'decimal', { isIndexed: true }),
+    field(3, 'quantity', 'integer'),
+    field(4, 'placedAt', 'datetime'),
+    field(5, 'note', 'string'),
+    field(6, 'paid', 'boolean'),
+  ],
+};
+
+describe('DynamicFilterParser', () => {
+  const parser = new DynamicFilterParser();
+
+  it('returns no conditions without a filter', () => {
+    expect(parser.parse(context, undefined)).toEqual([]);
+    expect(parser.parse(context, '')).toEqual([]);
+  });
+
+  it('reads a bare value as eq and matches field names case-insensitively', () => {
+    expect(parser.parse(context, { Status: 'open' })).toEqual([
+      {
+        fieldName: 'status',
+        fieldType: 'enum',
+        operator: 'eq',
+        value: 'open',
+        indexedColumn: undefined,
+      },
+    ]);
+  });
+
+  it('converts values to their comparable form', () => {
+    const [amount, placedAt] = parser.parse(context, {
+      amount: { gte: '12.5' },
+      placedAt: { lt: '2024-01-02T00:00:00Z' },
+    });
+
+    expect(amount).toMatchObject({ operator: 'gte', value: '12.5000' });
+    expect(amount.indexedColumn).toBeDefined();
+    expect(placedAt).toMatchObject({
+      operator: 'lt',
+      value: Date.parse('2024-01-02T00:00:00Z'),
+    });
+  });
+
+  it('splits in lists and reads isNull as a boolean', () => {
+    const [quantity, note] = parser.parse(context, {
+      quantity: { in: '1,2,3' },
+      note: { isNull: 'true' },
+    });
+
+    expect(quantity.value).toEqual([1, 2, 3]);
+    expect(note.value).toBe(true);
+  });
+
+  it('rejects unknown fields and operators', () => {
+    expect(() => parser.parse(context, { missing: 'x' })).toThrow(
+      BadRequestException,
+    );
+    expect(() => parser.parse(context, { note: { like: 'x' } })).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('rejects operators the field type does not support', () => {
+    expect(() => parser.parse(context, { paid: { gt: 'true' } })).toThrow(
+      BadRequestException,
+    );
+    expect(() => parser.parse(context, { quantity: { contains: '1' } })).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('rejects values that do not fit the field type', () => {
+    expect(() => parser.parse(context, { quantity: '1.5' })).toThrow(
+      BadRequestException,
+    );
+    expect(() => parser.parse(context, { placedAt: 'yesterday' })).toThrow(
+      BadRequestException,
+    );
+    expect(() => parser.parse(context, { status: 'lost' })).toThrow(
+      BadRequestException,
+    );
+    expect(() => parser.parse(context, { note: { isNull: 'yes' } })).toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { FieldDefinitionDto } from '@/common/dtos/metadata.dto';
+import { indexedColumnName } from '@/core/database/mysql-json';
+import { ComparableValue, toComparable } from './field-values';
+import {
+  DynamicEntityContext,
+  FILTER_OPERATORS,
+  FilterCondition,
+  FilterOperator,
+} from './query.types';
+
+const RANGE_OPERATORS: FilterOperator[] = ['gt', 'gte', 'lt', 'lte'];
+const TEXT_OPERATORS: FilterOperator[] = ['contains', 'startsWith'];
+
+/**
+ * Operators allowed per field type, on top of eq, ne, in and isNull
+ */
+const TYPED_OPERATORS: Record<string, FilterOperator[]> = {
+  string: [...RANGE_OPERATORS, ...TEXT_OPERATORS],
+  integer: RANGE_OPERATORS,
+  decimal: RANGE_OPERATORS,
+  datetime: RANGE_OPERATORS,
+  boolean: [],
+  enum: TEXT_OPERATORS,
+  reference: [],
+};
+
+/**
+ * Parses the `filter` query string into validated filter conditions.
+ *
+ * Supported forms:
+ *   filter[status][eq]=active
+ *   filter[status]=active              (shorthand for eq)
+ *   filter[age][gte]=18
+ *   filter[status][in]=active,pending
+ *   filter[email][contains]=@example.com
+ *   filter[phone][isNull]=true
+ */
+@Injectable()
+export class DynamicFilterParser {
+  parse(
+    context: DynamicEntityContext,
+    rawFilter: unknown,
+  ): FilterCondition[] {
+    if (rawFilter === undefined || rawFilter === null || rawFilter === '') {
+      return [];
+    }
+
+    if (typeof rawFilter !== 'object' || Array.isArray(rawFilter)) {
+      throw new BadRequestException(
+        'Filters must use the form filter[field][operator]=value',
+      );
+    }
+
+    const conditions: FilterCondition[] = [];
+
+    for (const [key, spec] of Object.entries(rawFilter)) {
+      const field = context.fields.find(
+        (f) => f.fieldName.toLowerCase() === key.toLowerCase(),
+      );
+
+      if (!field) {
+        throw new BadRequestException(
+          `Cannot filter on unknown field '${key}'`,
+        );
+      }
+
+      const operators =
+        typeof spec === 'object' && spec !== null && !Array.isArray(spec)
+          ? Object.entries(spec)
+          : [['eq', spec]];
+
+      for (const [operator, rawValue] of operators) {
+        conditions.push(this.parseCondition(field, operator, rawValue));
+      }
+    }
+
+    return conditions;
+  }
+
+  private parseCondition(
+    field: FieldDefinitionDto,
+    operator: string,
+    rawValue: unknown,
+  ): FilterCondition {
+    if (!FILTER_OPERATORS.includes(operator as FilterOperator)) {
+      throw new BadRequestException(
+        `Unsupported filter operator '${operator}' on field '${field.fieldName}'`,
+      );
+    }
+
+    const op = operator as FilterOperator;
+    const allowed: FilterOperator[] = [
+      'eq',
+      'ne',
+      'in',
+      'isNull',
+      ...(TYPED_OPERATORS[field.fieldType] ?? []),
+    ];
+
+    if (!allowed.includes(op)) {
+      throw new BadRequestException(
+        `Operator '${op}' is not supported for ${field.fieldType} field '${field.fieldName}'`,
+      );
+    }
+
+    let value: unknown;
+
+    if (op === 'isNull') {
+      if (rawValue !== 'true' && rawValue !== 'false') {
+        throw new BadRequestException(
+          `Filter isNull on field '${field.fieldName}' expects true or false`,
+        );
+      }
+      value = rawValue === 'true';
+    } else if (op === 'in') {
+      const items = Array.isArray(rawValue)
+        ? rawValue
+        : String(rawValue ?? '').split(',');
+      value = items.map((item) => this.parseValue(field, item));
+    } else if (TEXT_OPERATORS.includes(op)) {
+      value = this.parseText(field, rawValue);
+    } else {
+      value = this.parseValue(field, rawValue);
+    }
+
+    return {
+      fieldName: field.fieldName,
+      fieldType: field.fieldType,
+      operator: op,
+      value,
+      indexedColumn: field.isIndexed ? indexedColumnName(field.id) : undefined,
+    };
+  }
+
+  private parseText(field: FieldDefinitionDto, rawValue: unknown): string {
+    if (typeof rawValue !== 'string' || rawValue === '') {
+      throw new BadRequestException(
+        `Filter value for field '${field.fieldName}' must be a non-empty string`,
+      );
+    }
+    return rawValue;
+  }
+
+  private parseValue(
+    field: FieldDefinitionDto,
+    rawValue: unknown,
+  ): ComparableValue {
+    const text = this.parseText(field, rawValue);
+    const value = toComparable(field.fieldType, text);
+
+    if (
+      value === null ||
+      (field.fieldType === 'integer' && !Number.isInteger(value))
+    ) {
+      throw new BadRequestException(
+        `Filter value '${text}' is not a valid ${field.fieldType} for field '${field.fieldName}'`,
+      );
+    }
+
+    if (field.fieldType === 'enum' && field.options) {
+      const validValues = this.parseEnumValues(field.options);
+      if (validValues && !validValues.includes(text)) {
+        throw new BadRequestException(
+          `Filter value '${text}' is not a valid option for field '${field.fieldName}'`,
+        );
+      }
+    }
+
+    return value;
+  }
+
+  private parseEnumValues(options: string): string[] | null {
+    try {
+      const parsed = JSON.parse(options);
+      return Array.isArray(parsed)
+        ? parsed.map((o: any) => String(o.value))
+        : null;
+    } catch {
+      return null;
+    }
+  }
+}
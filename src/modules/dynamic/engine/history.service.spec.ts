@@ -0,0 +1,78 @@
+import { NotFoundException } from '@nestjs/common';
+import { DynamicHistoryService } from './history.service';
+
+const context = { entity: { id: 7, entityName: 'Customer' }, fields: [] } as any;
+
+describe('DynamicHistoryService', () => {
+  let recordSnapshot: any;
+  let databaseService: any;
+  let service: DynamicHistoryService;
+
+  beforeEach(() => {
+    recordSnapshot = {
+      create: jest.fn(async ({ data }) => ({ id: 1, ...data })),
+      findMany: jest.fn(async () => []),
+      count: jest.fn(async () => 0),
+      findUnique: jest.fn(async () => null),
+    };
+    // Snapshots are written through the client of the caller's transaction
+    const prisma = { client: { recordSnapshot }, recordSnapshot };
+    databaseService = { findOne: jest.fn(async () => null) };
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+    service = new DynamicHistoryService(prisma as any, databaseService, logger as any);
+  });
+
+  it('numbers a snapshot with the version the change raised the record to', async () => {
+    await service.snapshot(
+      context,
+      { id: 'r1', version: 4, data: { name: 'Jane' } },
+      'update',
+      { userId: 'u1' },
+    );
+
+    expect(recordSnapshot.create).toHaveBeenCalledWith({
+      data: {
+        entityId: 7,
+        recordId: 'r1',
+        version: 4,
+        action: 'update',
+        data: '{"name":"Jane"}',
+        userId: 'u1',
+      },
+    });
+  });
+
+  it('lets a failing snapshot fail the change', async () => {
+    recordSnapshot.create.mockRejectedValue(Object.assign(new Error('Unique'), { code: 'P2002' }));
+
+    await expect(
+      service.snapshot(context, { id: 'r1', version: 2, data: {} }, 'delete'),
+    ).rejects.toThrow('Unique');
+  });
+
+  it('fails with 404 for the versions of a record that does not exist', async () => {
+    await expect(service.getVersions(context, 'r1', 1, 10)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('lists the changed, added and removed fields between two versions', async () => {
+    recordSnapshot.findUnique.mockImplementation(async ({ where }) => ({
+      version: where.entityId_recordId_version.version,
+      action: 'update',
+      data:
+        where.entityId_recordId_version.version === 1
+          ? '{"name":"Jane","note":"x"}'
+          : '{"name":"Joan","email":"j@example.com"}',
+    }));
+
+    const diff = await service.diff(context, 'r1', 1, 2);
+
+    expect(diff.changes).toEqual([
+      { field: 'email', change: 'added', to: 'j@example.com' },
+      { field: 'name', change: 'changed', from: 'Jane', to: 'Joan' },
+      { field: 'note', change: 'removed', from: 'x' },
+    ]);
+  });
+});
@@ -0,0 +1,197 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { isDeepStrictEqual } from 'util';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import {
+  DynamicRecordDto,
+  FieldChangeDto,
+  PaginatedResponseDto,
+  RecordVersionDiffDto,
+  RecordVersionDto,
+} from '@/common/dtos/dynamic.dto';
+import { DatabaseService } from '../database/database.service';
+import { DynamicEntityContext } from './query.types';
+
+const hasOwn = (value: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(value, key);
+
+export type SnapshotAction = 'create' | 'update' | 'delete' | 'restore';
+
+/**
+ * A record as a change left it, at the version the change raised it to
+ */
+export type SnapshotRecord = Pick<DynamicRecordDto, 'id' | 'version' | 'data'>;
+
+export interface SnapshotOptions {
+  userId?: string | null;
+}
+
+/**
+ * Keeps the versions of dynamic records: a full snapshot of a record's
+ * data after every change, numbered with the record's version. Snapshots
+ * of every storage backend are kept in MySQL.
+ */
+@Injectable()
+export class DynamicHistoryService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly databaseService: DatabaseService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Keep the data of a record after a change as the version the change
+   * raised it to.
+   * Call it in the transaction of the change (see
+   * DatabaseService.transaction), so both are kept or neither is.
+   */
+  async snapshot(
+    context: DynamicEntityContext,
+    record: SnapshotRecord,
+    action: SnapshotAction,
+    options: SnapshotOptions = {},
+  ): Promise<void> {
+    await this.prisma.client.recordSnapshot.create({
+      data: {
+        entityId: context.entity.id,
+        recordId: record.id,
+        version: record.version,
+        action,
+        data: JSON.stringify(record.data),
+        userId: options.userId ?? null,
+      },
+    });
+  }
+
+  /**
+   * Remove every version of a record
+   */
+  async discard(context: DynamicEntityContext, recordId: string): Promise<void> {
+    await this.prisma.recordSnapshot.deleteMany({
+      where: { entityId: context.entity.id, recordId },
+    });
+  }
+
+  /**
+   * Get a page of the versions of a record, latest first, without their
+   * data
+   */
+  async getVersions(
+    context: DynamicEntityContext,
+    recordId: string,
+    page: number,
+    pageSize: number,
+  ): Promise<PaginatedResponseDto<RecordVersionDto>> {
+    const where = { entityId: context.entity.id, recordId };
+    const [snapshots, total] = await Promise.all([
+      this.prisma.recordSnapshot.findMany({
+        where,
+        select: { version: true, action: true, userId: true, createdAt: true },
+        orderBy: { version: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      this.prisma.recordSnapshot.count({ where }),
+    ]);
+
+    // Records written before versions were kept have none yet
+    if (!total && !(await this.databaseService.findOne(context, recordId))) {
+      throw new NotFoundException(
+        `Record ${recordId} not found in ${context.entity.entityName}`,
+      );
+    }
+
+    return {
+      data: snapshots,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  /**
+   * Get a version of a record with its data
+   */
+  async getVersion(
+    context: DynamicEntityContext,
+    recordId: string,
+    version: number,
+  ): Promise<RecordVersionDto> {
+    const snapshot = Number.isInteger(version)
+      ? await this.prisma.recordSnapshot.findUnique({
+          where: {
+            entityId_recordId_version: {
+              entityId: context.entity.id,
+              recordId,
+              version,
+            },
+          },
+        })
+      : null;
+
+    if (!snapshot) {
+      throw new NotFoundException(
+        `Version ${version} of ${context.entity.entityName} ${recordId} not found`,
+      );
+    }
+
+    return {
+      version: snapshot.version,
+      action: snapshot.action,
+      data: JSON.parse(snapshot.data),
+      userId: snapshot.userId,
+      createdAt: snapshot.createdAt,
+    };
+  }
+
+  /**
+   * Compare the data of two versions of a record field by field
+   */
+  async diff(
+    context: DynamicEntityContext,
+    recordId: string,
+    from: number,
+    to: number,
+  ): Promise<RecordVersionDiffDto> {
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      throw new BadRequestException('from and to must be version numbers');
+    }
+
+    const [before, after] = await Promise.all([
+      this.getVersion(context, recordId, from),
+      this.getVersion(context, recordId, to),
+    ]);
+
+    return { from, to, changes: this.diffData(before.data, after.data) };
+  }
+
+  private diffData(
+    before: Record<string, any>,
+    after: Record<string, any>,
+  ): FieldChangeDto[] {
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    const changes: FieldChangeDto[] = [];
+
+    for (const field of fields.sort()) {
+      if (!hasOwn(after, field)) {
+        changes.push({ field, change: 'removed', from: before[field] });
+      } else if (!hasOwn(before, field)) {
+        changes.push({ field, change: 'added', to: after[field] });
+      } else if (!isDeepStrictEqual(before[field], after[field])) {
+        changes.push({
+          field,
+          change: 'changed',
+          from: before[field],
+          to: after[field],
+        });
+      }
+    }
+
+    return changes;
+  }
+}
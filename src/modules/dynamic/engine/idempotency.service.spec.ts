@@ -0,0 +1,93 @@
+import { ConflictException, UnprocessableEntityException } from '@nestjs/common';
+import { DynamicIdempotencyService } from './idempotency.service';
+
+const unique = () => Object.assign(new Error('Unique'), { code: 'P2002' });
+
+describe('DynamicIdempotencyService', () => {
+  let stored: any;
+  let idempotencyKey: any;
+  let logger: any;
+  let service: DynamicIdempotencyService;
+
+  beforeEach(() => {
+    stored = null;
+    idempotencyKey = {
+      deleteMany: jest.fn(async () => ({ count: 0 })),
+      create: jest.fn(async ({ data }) => {
+        if (stored) {
+          throw unique();
+        }
+        stored = { status: 'pending', response: null, etag: null, ...data };
+        return stored;
+      }),
+      findUnique: jest.fn(async () => stored && { ...stored }),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const matches =
+          stored &&
+          Object.entries(where).every(([key, value]) =>
+            value instanceof Date
+              ? stored[key].getTime() === value.getTime()
+              : stored[key] === value,
+          );
+        if (matches) {
+          Object.assign(stored, data);
+        }
+        return { count: matches ? 1 : 0 };
+      }),
+    };
+    const config = { get: jest.fn((_key: string, fallback: unknown) => fallback) };
+    logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+    service = new DynamicIdempotencyService(
+      { idempotencyKey } as any,
+      config as any,
+      logger,
+    );
+  });
+
+  const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 0, 0, seconds));
+
+  it('replays the stored response of a completed request', async () => {
+    await expect(service.begin('k', 'f', at(0))).resolves.toBeNull();
+    await service.complete('k', at(0), { id: 'r1' }, '"1"');
+
+    await expect(service.begin('k', 'f', at(5))).resolves.toEqual({
+      body: { id: 'r1' },
+      etag: '"1"',
+    });
+  });
+
+  it('fails with 422 for a key used with a different request', async () => {
+    await service.begin('k', 'f', at(0));
+
+    await expect(service.begin('k', 'other', at(5))).rejects.toThrow(
+      UnprocessableEntityException,
+    );
+  });
+
+  it('fails with 409 while the request holding the key renews it', async () => {
+    jest.useFakeTimers({ now: at(0) });
+    try {
+      await service.begin('k', 'f', at(0));
+      const stop = service.keepAlive('k', at(0));
+      await jest.advanceTimersByTimeAsync(90 * 1000);
+      stop();
+
+      await expect(service.begin('k', 'f', new Date())).rejects.toThrow(ConflictException);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('takes over a key whose request stopped renewing it', async () => {
+    await service.begin('k', 'f', at(0));
+
+    await expect(service.begin('k', 'f', at(61))).resolves.toBeNull();
+    expect(stored).toMatchObject({ claimedAt: at(61), renewedAt: at(61) });
+
+    // The request that lost the key leaves it to the new holder
+    await service.complete('k', at(0), { id: 'late' });
+    expect(stored.status).toBe('pending');
+    expect(logger.warn).toHaveBeenCalled();
+  });
+});
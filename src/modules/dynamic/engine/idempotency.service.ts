@@ -0,0 +1,236 @@
+import {
+  ConflictException,
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+
+const DEFAULT_TTL_HOURS = 24;
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A pending key whose request showed no sign of life for longer is taken
+// to be abandoned (its process stopped or timed out) and can be claimed by
+// a retry. A running request renews its claim well within it.
+const CLAIM_LEASE_MS = 60 * 1000;
+
+const CLAIM_RENEW_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Response of a completed request, replayed for its retries
+ */
+export interface StoredResponse {
+  body: unknown;
+  etag: string | null;
+}
+
+/**
+ * Keeps the responses of writes sent with an Idempotency-Key for
+ * IDEMPOTENCY_KEY_TTL_HOURS. A key is claimed before the request runs, so
+ * a retry arriving meanwhile is turned away instead of running twice.
+ * A claim is identified by the time it was made; the key and the request
+ * holding it only complete or release their own claim, and the request
+ * renews it while it runs (see keepAlive).
+ */
+@Injectable()
+export class DynamicIdempotencyService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    this.cleanupTimer = setInterval(() => this.removeExpired(), CLEANUP_INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+    }
+  }
+
+  /**
+   * Claim a key for a request at `claimedAt`, or get the response to
+   * replay when the same request completed with it before. A pending
+   * claim not renewed for a minute is taken over.
+   * Fails with 422 when the key was used for a different request and with
+   * 409 while the request holding it is still running.
+   */
+  async begin(
+    key: string,
+    fingerprint: string,
+    claimedAt: Date,
+  ): Promise<StoredResponse | null> {
+    await this.prisma.idempotencyKey.deleteMany({
+      where: { key, expiresAt: { lt: claimedAt } },
+    });
+
+    try {
+      await this.prisma.idempotencyKey.create({
+        data: {
+          key,
+          fingerprint,
+          claimedAt,
+          renewedAt: claimedAt,
+          expiresAt: new Date(claimedAt.getTime() + this.ttlHours() * HOUR_MS),
+        },
+      });
+      return null;
+    } catch (error) {
+      if (error?.code !== 'P2002') {
+        throw error;
+      }
+    }
+
+    const existing = await this.prisma.idempotencyKey.findUnique({
+      where: { key },
+    });
+
+    if (existing && existing.fingerprint !== fingerprint) {
+      throw new UnprocessableEntityException(
+        'The Idempotency-Key was already used for a different request',
+      );
+    }
+    if (existing?.status !== 'completed') {
+      if (existing && (await this.takeOver(existing, claimedAt))) {
+        return null;
+      }
+      throw new ConflictException(
+        'A request with the same Idempotency-Key is still in progress, retry shortly',
+      );
+    }
+
+    return {
+      body: existing.response === null ? undefined : JSON.parse(existing.response),
+      etag: existing.etag,
+    };
+  }
+
+  /**
+   * Renew the claim of a running request every few seconds, keeping
+   * retries from taking it over however long the request takes. Returns
+   * the function stopping the renewal once the request ends.
+   */
+  keepAlive(key: string, claimedAt: Date): () => void {
+    const timer = setInterval(async () => {
+      try {
+        await this.prisma.idempotencyKey.updateMany({
+          where: { key, claimedAt, status: 'pending' },
+          data: { renewedAt: new Date() },
+        });
+      } catch (error) {
+        this.logger.error(
+          'Error renewing an idempotency key claim',
+          error.message,
+          'DynamicIdempotencyService',
+        );
+      }
+    }, CLAIM_RENEW_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Store the response of the request holding a key; a claim taken over
+   * in the meantime leaves the key to its new holder
+   */
+  async complete(
+    key: string,
+    claimedAt: Date,
+    body: unknown,
+    etag?: string,
+  ): Promise<void> {
+    const { count } = await this.prisma.idempotencyKey.updateMany({
+      where: { key, claimedAt, status: 'pending' },
+      data: {
+        status: 'completed',
+        response: body === undefined ? null : JSON.stringify(body),
+        etag: etag ?? null,
+      },
+    });
+
+    if (!count) {
+      this.logger.warn(
+        `Response not stored: the idempotency key claimed at ${claimedAt.toISOString()} was taken over or has expired`,
+        'DynamicIdempotencyService',
+      );
+    }
+  }
+
+  /**
+   * Give up the key of a failed request, so a retry runs it again
+   */
+  async release(key: string, claimedAt: Date): Promise<void> {
+    await this.prisma.idempotencyKey.deleteMany({
+      where: { key, claimedAt, status: 'pending' },
+    });
+  }
+
+  /**
+   * Claim a pending key whose lease ran out, unless its request renewed it
+   * or another retry claimed it first
+   */
+  private async takeOver(
+    existing: { key: string; claimedAt: Date; renewedAt: Date },
+    claimedAt: Date,
+  ): Promise<boolean> {
+    if (claimedAt.getTime() - existing.renewedAt.getTime() < CLAIM_LEASE_MS) {
+      return false;
+    }
+
+    const { count } = await this.prisma.idempotencyKey.updateMany({
+      where: {
+        key: existing.key,
+        status: 'pending',
+        claimedAt: existing.claimedAt,
+        renewedAt: existing.renewedAt,
+      },
+      data: { claimedAt, renewedAt: claimedAt },
+    });
+    if (count) {
+      this.logger.log(
+        `Took over idempotency key claimed at ${existing.claimedAt.toISOString()}`,
+        'DynamicIdempotencyService',
+      );
+    }
+    return count > 0;
+  }
+
+  private async removeExpired(): Promise<void> {
+    try {
+      const { count } = await this.prisma.idempotencyKey.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      });
+      if (count) {
+        this.logger.debug(
+          `Removed ${count} expired idempotency keys`,
+          'DynamicIdempotencyService',
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        'Error removing expired idempotency keys',
+        error.message,
+        'DynamicIdempotencyService',
+      );
+    }
+  }
+
+  private ttlHours(): number {
+    const hours = Number(
+      this.config.get('IDEMPOTENCY_KEY_TTL_HOURS', DEFAULT_TTL_HOURS),
+    );
+    return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS;
+  }
+}
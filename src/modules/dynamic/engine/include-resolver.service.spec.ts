@@ -0,0 +1,96 @@
+import { BadRequestException } from '@nestjs/common';
+import { DynamicIncludeResolver, MAX_REVERSE_INCLUDED } from './include-resolver.service';
+
+const company = { id: 3, entityName: 'Company', fields: [] };
+const customerField = {
+  id: 10,
+  fieldName: 'company',
+  displayName: 'Company',
+  fieldType: 'reference',
+  referenceEntityId: 3,
+};
+const customer = { id: 1, entityName: 'Customer', fields: [customerField] };
+const orderField = {
+  id: 20,
+  fieldName: 'customer',
+  displayName: 'Customer',
+  fieldType: 'reference',
+  referenceEntityId: 1,
+};
+const order = { id: 2, entityName: 'Order', fields: [orderField] };
+const customers = { entity: customer, fields: customer.fields } as any;
+
+const record = (id: string, data: Record<string, any> = {}) => ({ id, data }) as any;
+
+describe('DynamicIncludeResolver', () => {
+  let databaseService: any;
+  let referenceService: any;
+  let resolver: DynamicIncludeResolver;
+
+  beforeEach(() => {
+    databaseService = {
+      findByIds: jest.fn(async (_context, ids: string[]) => ids.map((id) => record(id))),
+    };
+    referenceService = {
+      findReferencing: jest.fn(async (_context, _field, [parentId]: string[], limit: number) =>
+        Array.from({ length: Math.min(limit, parentId === 'c1' ? 150 : 2) }, (_, i) =>
+          record(`${parentId}-o${i}`, { customer: parentId }),
+        ),
+      ),
+    };
+    const metadataService = {
+      getEntityById: jest.fn(async () => company),
+      getReferencingFields: jest.fn(async () => [{ ...orderField, entity: order }]),
+    };
+
+    resolver = new DynamicIncludeResolver(
+      metadataService as any,
+      databaseService,
+      referenceService,
+    );
+  });
+
+  it('parses forward and reverse includes', async () => {
+    const nodes = await resolver.parse(customers, 'company, Order');
+
+    expect(nodes.map((n) => [n.key, n.reverse])).toEqual([
+      ['company', false],
+      ['Order', true],
+    ]);
+  });
+
+  it('rejects includes nested too deep or naming nothing', async () => {
+    await expect(resolver.parse(customers, 'a.b.c.d')).rejects.toThrow(
+      "Include 'a.b.c.d' is nested deeper than 3 levels",
+    );
+    await expect(resolver.parse(customers, 'Invoice')).rejects.toThrow(BadRequestException);
+  });
+
+  it('embeds referenced records with one query for the page', async () => {
+    const records = [record('c1', { company: 'x' }), record('c2', { company: 'x' }), record('c3')];
+
+    await resolver.resolve(records, await resolver.parse(customers, 'company'));
+
+    expect(databaseService.findByIds).toHaveBeenCalledTimes(1);
+    expect(databaseService.findByIds).toHaveBeenCalledWith(expect.anything(), ['x']);
+    expect(records.map((r) => r.included.company?.id ?? null)).toEqual(['x', 'x', null]);
+  });
+
+  it('caps each reverse include on its own and marks the truncated ones', async () => {
+    const records = [record('c1'), record('c2')];
+
+    await resolver.resolve(records, await resolver.parse(customers, 'Order'));
+
+    expect(referenceService.findReferencing).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ fieldName: 'customer' }),
+      ['c1'],
+      MAX_REVERSE_INCLUDED + 1,
+    );
+    expect(records[0].included.Order).toHaveLength(MAX_REVERSE_INCLUDED);
+    expect(records[0].includedTruncated).toEqual(['Order']);
+    // A parent with many related records doesn't crowd out the others
+    expect(records[1].included.Order).toHaveLength(2);
+    expect(records[1].includedTruncated).toBeUndefined();
+  });
+});
@@ -0,0 +1,230 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { MetadataService } from '@/modules/metadata/metadata.service';
+import { DynamicRecordDto } from '@/common/dtos/dynamic.dto';
+import { FieldDefinitionDto } from '@/common/dtos/metadata.dto';
+import { DatabaseService } from '../database/database.service';
+import { DynamicReferenceService } from './reference.service';
+import { DynamicEntityContext } from './query.types';
+
+/**
+ * Longest include path, e.g. customer.company.country
+ */
+export const MAX_INCLUDE_DEPTH = 3;
+
+/**
+ * Records a reverse include embeds per record, the latest created first
+ */
+export const MAX_REVERSE_INCLUDED = 100;
+
+/**
+ * A validated include: a reference field of the parent entity (forward)
+ * or a reference field of another entity pointing to it (reverse).
+ * `key` names the included records under the parent's `included`.
+ */
+export interface IncludeNode {
+  key: string;
+  field: FieldDefinitionDto;
+  reverse: boolean;
+  context: DynamicEntityContext;
+  children: IncludeNode[];
+}
+
+/**
+ * Parses the `include` query string and embeds related records.
+ *
+ * Supported forms:
+ *   include=customer                 (reference field of the entity)
+ *   include=customer.company         (nested, up to MAX_INCLUDE_DEPTH)
+ *   include=Order                    (Orders referencing the record)
+ *   include=Order:billTo             (when Order has several such fields)
+ *
+ * Referenced records are loaded with one query per include and page of
+ * records. A reverse include reads the records referencing each record
+ * with a query of its own, so each embeds up to MAX_REVERSE_INCLUDED of
+ * them whatever the others hold, and names itself in the record's
+ * `includedTruncated` when there are more.
+ */
+@Injectable()
+export class DynamicIncludeResolver {
+  constructor(
+    private readonly metadataService: MetadataService,
+    private readonly databaseService: DatabaseService,
+    private readonly referenceService: DynamicReferenceService,
+  ) {}
+
+  async parse(
+    context: DynamicEntityContext,
+    rawInclude?: string,
+  ): Promise<IncludeNode[]> {
+    const roots: IncludeNode[] = [];
+    if (!rawInclude) {
+      return roots;
+    }
+
+    const paths = rawInclude
+      .split(',')
+      .map((path) => path.trim())
+      .filter(Boolean);
+
+    for (const path of paths) {
+      const segments = path.split('.');
+      if (segments.length > MAX_INCLUDE_DEPTH) {
+        throw new BadRequestException(
+          `Include '${path}' is nested deeper than ${MAX_INCLUDE_DEPTH} levels`,
+        );
+      }
+
+      let nodes = roots;
+      let current = context;
+      for (const segment of segments) {
+        let node = nodes.find(
+          (n) => n.key.toLowerCase() === segment.toLowerCase(),
+        );
+        if (!node) {
+          node = await this.parseSegment(current, segment);
+          nodes.push(node);
+        }
+
+        nodes = node.children;
+        current = node.context;
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Add the included records to each record's `included`
+   */
+  async resolve(
+    records: DynamicRecordDto[],
+    includes: IncludeNode[],
+  ): Promise<void> {
+    if (!records.length) {
+      return;
+    }
+
+    for (const node of includes) {
+      if (node.reverse) {
+        await this.resolveReverse(records, node);
+      } else {
+        await this.resolveForward(records, node);
+      }
+    }
+  }
+
+  private async resolveForward(
+    records: DynamicRecordDto[],
+    node: IncludeNode,
+  ): Promise<void> {
+    const ids = [
+      ...new Set(
+        records
+          .map((r) => r.data[node.field.fieldName])
+          .filter((id) => typeof id === 'string' && id !== ''),
+      ),
+    ];
+
+    const related = await this.databaseService.findByIds(node.context, ids);
+    await this.resolve(related, node.children);
+
+    const byId = new Map(related.map((r) => [r.id, r]));
+    for (const record of records) {
+      record.included = {
+        ...record.included,
+        [node.key]: byId.get(record.data[node.field.fieldName]) ?? null,
+      };
+    }
+  }
+
+  private async resolveReverse(
+    records: DynamicRecordDto[],
+    node: IncludeNode,
+  ): Promise<void> {
+    // One more than the cap tells whether there are more
+    const related = await Promise.all(
+      records.map((record) =>
+        this.referenceService.findReferencing(
+          node.context,
+          node.field,
+          [record.id],
+          MAX_REVERSE_INCLUDED + 1,
+        ),
+      ),
+    );
+
+    const included: DynamicRecordDto[] = [];
+    for (const [i, record] of records.entries()) {
+      const kept = related[i].slice(0, MAX_REVERSE_INCLUDED);
+      record.included = { ...record.included, [node.key]: kept };
+      if (related[i].length > kept.length) {
+        record.includedTruncated = [
+          ...(record.includedTruncated ?? []),
+          node.key,
+        ];
+      }
+      included.push(...kept);
+    }
+
+    await this.resolve(included, node.children);
+  }
+
+  private async parseSegment(
+    context: DynamicEntityContext,
+    segment: string,
+  ): Promise<IncludeNode> {
+    const field = context.fields.find(
+      (f) =>
+        f.fieldType === 'reference' &&
+        f.fieldName.toLowerCase() === segment.toLowerCase(),
+    );
+
+    if (field) {
+      const target = await this.metadataService.getEntityById(
+        field.referenceEntityId,
+      );
+      return {
+        key: field.fieldName,
+        field,
+        reverse: false,
+        context: { entity: target, fields: target.fields ?? [] },
+        children: [],
+      };
+    }
+
+    const [entityName, fieldName] = segment.split(':');
+    const candidates = (
+      await this.metadataService.getReferencingFields(context.entity.id)
+    ).filter(
+      (f) =>
+        f.entity.entityName.toLowerCase() === entityName.toLowerCase() &&
+        (!fieldName || f.fieldName.toLowerCase() === fieldName.toLowerCase()),
+    );
+
+    if (!candidates.length) {
+      throw new BadRequestException(
+        `Cannot include '${segment}': ${context.entity.entityName} has no such reference field and no such entity references it`,
+      );
+    }
+    if (candidates.length > 1) {
+      throw new BadRequestException(
+        `Cannot include '${segment}': ${candidates[0].entity.entityName} references ${context.entity.entityName} through ` +
+          `${candidates.map((f) => f.fieldName).join(', ')}; use ${candidates[0].entity.entityName}:<field>`,
+      );
+    }
+
+    const [reverseField] = candidates;
+    return {
+      key: fieldName
+        ? `${reverseField.entity.entityName}:${reverseField.fieldName}`
+        : reverseField.entity.entityName,
+      field: reverseField,
+      reverse: true,
+      context: {
+        entity: reverseField.entity,
+        fields: reverseField.entity.fields ?? [],
+      },
+      children: [],
+    };
+  }
+}
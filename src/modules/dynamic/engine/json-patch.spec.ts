@@ -0,0 +1,95 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  parsePointer,
+  toPointer,
+} from './json-patch';
+
+describe('applyMergePatch', () => {
+  it('merges objects recursively and removes keys set to null', () => {
+    const target = { name: 'Acme', address: { city: 'Oslo', zip: '0150' }, tags: ['a'] };
+
+    expect(
+      applyMergePatch(target, { address: { zip: null, street: 'Main' }, tags: ['b'] }),
+    ).toEqual({ name: 'Acme', address: { city: 'Oslo', street: 'Main' }, tags: ['b'] });
+    expect(target.address).toEqual({ city: 'Oslo', zip: '0150' });
+  });
+
+  it('replaces the target with a patch that is not an object', () => {
+    expect(applyMergePatch({ a: 1 }, 'text')).toBe('text');
+  });
+
+  it('keeps __proto__ keys as data', () => {
+    const result = applyMergePatch({}, JSON.parse('{"__proto__": {"admin": true}}')) as any;
+
+    expect(Object.keys(result)).toEqual(['__proto__']);
+    expect(({} as any).admin).toBeUndefined();
+  });
+});
+
+describe('applyJsonPatch', () => {
+  const document = { name: 'Acme', tags: ['a', 'b'], address: { city: 'Oslo' } };
+
+  it('applies operations in order to a copy', () => {
+    const result = applyJsonPatch(document, [
+      { op: 'add', path: '/tags/-', value: 'c' },
+      { op: 'remove', path: '/tags/0' },
+      { op: 'replace', path: '/name', value: 'Acme AS' },
+      { op: 'move', from: '/address/city', path: '/city' },
+      { op: 'copy', from: '/city', path: '/address/town' },
+      { op: 'test', path: '/city', value: 'Oslo' },
+    ]);
+
+    expect(result).toEqual({
+      name: 'Acme AS',
+      tags: ['b', 'c'],
+      address: { town: 'Oslo' },
+      city: 'Oslo',
+    });
+    expect(document).toEqual({ name: 'Acme', tags: ['a', 'b'], address: { city: 'Oslo' } });
+  });
+
+  it('fails a test operation with 409', () => {
+    expect(() =>
+      applyJsonPatch(document, [{ op: 'test', path: '/name', value: 'Other' }]),
+    ).toThrow(ConflictException);
+  });
+
+  it('rejects malformed patches and missing paths', () => {
+    expect(() => applyJsonPatch(document, {})).toThrow(BadRequestException);
+    expect(() => applyJsonPatch(document, [{ op: 'merge', path: '/name' }])).toThrow(
+      BadRequestException,
+    );
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: '/name' }])).toThrow(
+      BadRequestException,
+    );
+    expect(() => applyJsonPatch(document, [{ op: 'remove', path: '/phone' }])).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      applyJsonPatch(document, [{ op: 'add', path: '/tags/5', value: 'x' }]),
+    ).toThrow(BadRequestException);
+  });
+
+  it('rejects moving a value into itself and replacing the record', () => {
+    expect(() =>
+      applyJsonPatch(document, [{ op: 'move', from: '/address', path: '/address/old' }]),
+    ).toThrow(BadRequestException);
+    expect(() => applyJsonPatch(document, [{ op: 'replace', path: '', value: 1 }])).toThrow(
+      BadRequestException,
+    );
+  });
+});
+
+describe('JSON Pointer', () => {
+  it('escapes ~ and / in tokens both ways', () => {
+    expect(parsePointer('/a~1b/c~0d')).toEqual(['a/b', 'c~d']);
+    expect(toPointer(['a/b', 'c~d'])).toBe('/a~1b/c~0d');
+    expect(parsePointer('')).toEqual([]);
+  });
+
+  it('rejects pointers not starting with /', () => {
+    expect(() => parsePointer('name')).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Patch documents for record data
+ * JSON Merge Patch (RFC 7396) and JSON Patch (RFC 6902), both applied to a
+ * copy of the document so a failing patch leaves the record untouched.
+ */
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { isDeepStrictEqual } from 'util';
+
+export const MERGE_PATCH_MEDIA_TYPE = 'application/merge-patch+json';
+export const JSON_PATCH_MEDIA_TYPE = 'application/json-patch+json';
+
+export const JSON_PATCH_OPS = [
+  'add',
+  'remove',
+  'replace',
+  'move',
+  'copy',
+  'test',
+] as const;
+
+export interface JsonPatchOperation {
+  op: (typeof JSON_PATCH_OPS)[number];
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+const ARRAY_INDEX = /^(0|[1-9]\d*)$/;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasOwn = (value: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(value, key);
+
+// Plain assignment would treat a "__proto__" key as the prototype
+const setOwn = (target: Record<string, any>, key: string, value: unknown) =>
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+
+/**
+ * Apply a JSON Merge Patch: objects merge recursively, null removes a key
+ * and any other value replaces what was there
+ */
+export const applyMergePatch = (target: unknown, patch: unknown): unknown => {
+  if (!isObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, any> = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      setOwn(result, key, applyMergePatch(result[key], value));
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Apply the operations of a JSON Patch in order; all of them or none
+ */
+export const applyJsonPatch = (
+  document: Record<string, any>,
+  operations: unknown,
+): Record<string, any> => {
+  if (!Array.isArray(operations)) {
+    throw new BadRequestException(
+      'A JSON Patch must be an array of operations',
+    );
+  }
+
+  let result: unknown = JSON.parse(JSON.stringify(document));
+  operations.forEach((operation, index) => {
+    result = applyOperation(result, toOperation(operation, index), index);
+  });
+
+  if (!isObject(result)) {
+    throw new BadRequestException('A JSON Patch must leave the record an object');
+  }
+
+  return result;
+};
+
+/**
+ * Split a JSON Pointer (RFC 6901) into its reference tokens
+ */
+export const parsePointer = (pointer: string): string[] => {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new BadRequestException(
+      `'${pointer}' is not a JSON Pointer; it must start with /`,
+    );
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+/**
+ * Join reference tokens into a JSON Pointer
+ */
+export const toPointer = (tokens: string[]): string =>
+  tokens.map((token) => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+
+const toOperation = (value: unknown, index: number): JsonPatchOperation => {
+  const fail = (message: string) =>
+    new BadRequestException(`JSON Patch operation ${index} ${message}`);
+
+  if (!isObject(value)) {
+    throw fail('must be an object');
+  }
+  if (!JSON_PATCH_OPS.includes(value.op)) {
+    throw fail(`has unknown op '${value.op}' (expected ${JSON_PATCH_OPS.join(', ')})`);
+  }
+  if (typeof value.path !== 'string') {
+    throw fail('needs a path');
+  }
+  if ((value.op === 'move' || value.op === 'copy') && typeof value.from !== 'string') {
+    throw fail(`(${value.op}) needs a from`);
+  }
+  if (['add', 'replace', 'test'].includes(value.op) && !hasOwn(value, 'value')) {
+    throw fail(`(${value.op}) needs a value`);
+  }
+
+  return value as JsonPatchOperation;
+};
+
+const applyOperation = (
+  document: unknown,
+  operation: JsonPatchOperation,
+  index: number,
+): unknown => {
+  const path = parsePointer(operation.path);
+  const at = `JSON Patch operation ${index} (${operation.op} ${operation.path})`;
+
+  switch (operation.op) {
+    case 'add':
+      return add(document, path, operation.value, at);
+    case 'remove':
+      return remove(document, path, at);
+    case 'replace':
+      return replace(document, path, operation.value, at);
+    case 'move': {
+      const from = parsePointer(operation.from);
+      if (
+        from.length < path.length &&
+        from.every((token, i) => token === path[i])
+      ) {
+        throw new BadRequestException(`${at} moves a value into itself`);
+      }
+      const value = get(document, from, at);
+      return add(remove(document, from, at), path, value, at);
+    }
+    case 'copy': {
+      const value = get(document, parsePointer(operation.from), at);
+      return add(document, path, JSON.parse(JSON.stringify(value)), at);
+    }
+    case 'test':
+      if (!isDeepStrictEqual(get(document, path, at), operation.value)) {
+        throw new ConflictException(`${at} failed: the value differs`);
+      }
+      return document;
+  }
+};
+
+const get = (document: unknown, path: string[], at: string): unknown => {
+  let current = document;
+
+  for (const token of path) {
+    if (Array.isArray(current) && ARRAY_INDEX.test(token) && Number(token) < current.length) {
+      current = current[Number(token)];
+    } else if (isObject(current) && hasOwn(current, token)) {
+      current = current[token];
+    } else {
+      throw new BadRequestException(`${at}: path doesn't exist`);
+    }
+  }
+
+  return current;
+};
+
+const add = (
+  document: unknown,
+  path: string[],
+  value: unknown,
+  at: string,
+): unknown => {
+  if (!path.length) {
+    return value;
+  }
+
+  const parent = get(document, path.slice(0, -1), at);
+  const key = path[path.length - 1];
+
+  if (Array.isArray(parent)) {
+    const position = key === '-' ? parent.length : Number(key);
+    if ((key !== '-' && !ARRAY_INDEX.test(key)) || position > parent.length) {
+      throw new BadRequestException(`${at}: '${key}' is not a valid array index`);
+    }
+    parent.splice(position, 0, value);
+  } else if (isObject(parent)) {
+    setOwn(parent, key, value);
+  } else {
+    throw new BadRequestException(`${at}: parent is not an object or array`);
+  }
+
+  return document;
+};
+
+const remove = (document: unknown, path: string[], at: string): unknown => {
+  if (!path.length) {
+    throw new BadRequestException(`${at}: the whole record can't be removed`);
+  }
+
+  const parent = get(document, path.slice(0, -1), at);
+  const key = path[path.length - 1];
+  get(parent, [key], at);
+
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete (parent as Record<string, any>)[key];
+  }
+
+  return document;
+};
+
+const replace = (
+  document: unknown,
+  path: string[],
+  value: unknown,
+  at: string,
+): unknown => {
+  if (!path.length) {
+    return value;
+  }
+
+  const parent = get(document, path.slice(0, -1), at);
+  const key = path[path.length - 1];
+  get(parent, [key], at);
+
+  if (Array.isArray(parent)) {
+    parent[Number(key)] = value;
+  } else {
+    setOwn(parent as Record<string, any>, key, value);
+  }
+
+  return document;
+};
@@ -1,19 +1,5 @@
 import { EntityDefinitionDto, FieldDefinitionDto } from '@/common/dtos/metadata.dto';
-
-export type QueryModel = 'dynamicRecord';
-
-export type QueryAction =
-  | 'findMany'
-  | 'findFirst'
-  | 'count'
-  | 'create'
-  | 'update';
-
-export interface QueryDescriptor<TModel extends QueryModel = QueryModel> {
-  model: TModel;
-  action: QueryAction;
-  args: Record<string, unknown>;
-}
+import { ComparableValue } from './field-values';
 
 export interface DynamicEntityContext {
   entity: EntityDefinitionDto;
@@ -24,3 +10,109 @@ export interface PaginationOptions {
   page: number;
   pageSize: number;
 }
+
+/**
+ * A page of keyset pagination: up to `limit` records ordered after the
+ * record whose sort key values are `after`, or from the start without it.
+ * Values are in comparable form (see `toComparable`), one per sort key.
+ */
+export interface KeysetOptions {
+  after: ComparableValue[] | null;
+  limit: number;
+}
+
+export const FILTER_OPERATORS = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'contains',
+  'startsWith',
+  'isNull',
+] as const;
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+/**
+ * A single validated predicate on a field of the record `data` blob.
+ * `value` is already converted to the field's comparable form
+ * (see `toComparable`), or a list of them for `in`, or a boolean for `isNull`.
+ * `indexedColumn` names the generated column of an indexed field.
+ */
+export interface FilterCondition {
+  fieldName: string;
+  fieldType: string;
+  operator: FilterOperator;
+  value: unknown;
+  indexedColumn?: string;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Record columns that can be sorted on besides the defined fields
+ */
+export const SYSTEM_SORT_FIELDS: Record<string, string> = {
+  id: 'string',
+  createdAt: 'datetime',
+  updatedAt: 'datetime',
+};
+
+/**
+ * A single validated sort key. `system` keys refer to record columns,
+ * the others to fields of the record `data` blob.
+ */
+export interface SortSpec {
+  fieldName: string;
+  fieldType: string;
+  direction: SortDirection;
+  system: boolean;
+  indexedColumn?: string;
+}
+
+/**
+ * Order used when no sort is requested: newest records first
+ */
+export const DEFAULT_SORT: SortSpec[] = [
+  {
+    fieldName: 'createdAt',
+    fieldType: 'datetime',
+    direction: 'desc',
+    system: true,
+  },
+];
+
+export const AGGREGATE_FUNCTIONS = ['count', 'sum', 'avg', 'min', 'max'] as const;
+
+export type AggregateFunction = (typeof AGGREGATE_FUNCTIONS)[number];
+
+/**
+ * A field records are grouped by
+ */
+export interface GroupSpec {
+  fieldName: string;
+  fieldType: string;
+  indexedColumn?: string;
+}
+
+/**
+ * A validated metric computed per group. `name` is the metric as written
+ * in the query, e.g. sum:amount; `count` has no field. `system` fields
+ * are record columns.
+ */
+export interface MetricSpec {
+  name: string;
+  function: AggregateFunction;
+  fieldName?: string;
+  fieldType?: string;
+  system?: boolean;
+  indexedColumn?: string;
+}
+
+export interface AggregateQuery {
+  groupBy: GroupSpec[];
+  metrics: MetricSpec[];
+}
@@ -0,0 +1,74 @@
+import { BadRequestException } from '@nestjs/common';
+import { DynamicRecordDto } from '@/common/dtos/dynamic.dto';
+import { decodeCursor, encodeCursor, reverseSort } from './record-cursor';
+import { SortSpec } from './query.types';
+
+const sort: SortSpec[] = [
+  { fieldName: 'amount', fieldType: 'decimal', direction: 'desc', system: false },
+  { fieldName: 'placedAt', fieldType: 'datetime', direction: 'asc', system: false },
+  { fieldName: 'id', fieldType: 'string', direction: 'asc', system: true },
+];
+
+const record = {
+  id: 'clx1',
+  entityId: 1,
+  data: { amount: '12345678901234.5678', placedAt: '2024-01-15T10:30:00.000Z' },
+  createdAt: new Date('2024-01-15T10:30:00Z'),
+  updatedAt: new Date('2024-01-15T10:30:00Z'),
+  version: 1,
+} as DynamicRecordDto;
+
+const encode = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('record cursors', () => {
+  it('round-trips the sort key values of a record', () => {
+    const cursor = encodeCursor(sort, record, 'next');
+
+    expect(decodeCursor(sort, cursor)).toEqual({
+      direction: 'next',
+      values: ['12345678901234.5678', Date.parse('2024-01-15T10:30:00Z'), 'clx1'],
+    });
+  });
+
+  it('keeps decimals as exact text', () => {
+    const { values } = decodeCursor(sort, encodeCursor(sort, record, 'prev'));
+
+    expect(values[0]).toBe('12345678901234.5678');
+  });
+
+  it('keeps missing values as null', () => {
+    const { values } = decodeCursor(
+      sort,
+      encodeCursor(sort, { ...record, data: {} }, 'next'),
+    );
+
+    expect(values).toEqual([null, null, 'clx1']);
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(() => decodeCursor(sort, 'not a cursor')).toThrow(BadRequestException);
+    expect(() =>
+      decodeCursor(sort, encode({ s: '-amount,placedAt,id', d: 'next', v: [1, 2, 'x'] })),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      decodeCursor(sort, encode({ s: '-amount,placedAt,id', d: 'next', v: ['1.0', 2, null] })),
+    ).toThrow(BadRequestException);
+  });
+
+  it('rejects cursors made for another sort', () => {
+    const cursor = encodeCursor(sort, record, 'next');
+
+    expect(() => decodeCursor(reverseSort(sort), cursor)).toThrow(
+      'Cursor was made for another sort, start again without one',
+    );
+  });
+
+  it('reverses every sort key', () => {
+    expect(reverseSort(sort).map((spec) => spec.direction)).toEqual([
+      'asc',
+      'desc',
+      'desc',
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { BadRequestException } from '@nestjs/common';
+import { DynamicRecordDto } from '@/common/dtos/dynamic.dto';
+import { ComparableValue, toComparable } from './field-values';
+import { SortSpec } from './query.types';
+
+/**
+ * Record cursors for keyset pagination
+ * A cursor names the record a page starts after (`next`) or ends before
+ * (`prev`) by its sort key values, so pages stay in place while records
+ * are added or removed. It only holds for the sort it was made with.
+ */
+
+export type CursorDirection = 'next' | 'prev';
+
+export interface RecordCursor {
+  direction: CursorDirection;
+  values: ComparableValue[];
+}
+
+/**
+ * Sort written as in the `sort` query string, tie-breaker included
+ */
+const sortSignature = (sort: SortSpec[]): string =>
+  sort
+    .map((spec) => `${spec.direction === 'desc' ? '-' : ''}${spec.fieldName}`)
+    .join(',');
+
+/**
+ * Value of a sort key of a record in comparable form
+ */
+const sortValue = (spec: SortSpec, record: DynamicRecordDto): ComparableValue => {
+  if (!spec.system) {
+    return toComparable(spec.fieldType, record.data?.[spec.fieldName]);
+  }
+  switch (spec.fieldName) {
+    case 'id':
+      return record.id;
+    case 'createdAt':
+      return toComparable('datetime', record.createdAt);
+    default:
+      return toComparable('datetime', record.updatedAt);
+  }
+};
+
+const isSortValue = (spec: SortSpec, value: unknown): boolean => {
+  if (value === null) {
+    return !(spec.system && spec.fieldName === 'id');
+  }
+  switch (spec.fieldType) {
+    case 'integer':
+    case 'datetime':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'decimal':
+      return typeof value === 'string' && /^-?\d+\.\d+$/.test(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    default:
+      return typeof value === 'string';
+  }
+};
+
+export const encodeCursor = (
+  sort: SortSpec[],
+  record: DynamicRecordDto,
+  direction: CursorDirection,
+): string =>
+  Buffer.from(
+    JSON.stringify({
+      s: sortSignature(sort),
+      d: direction,
+      v: sort.map((spec) => sortValue(spec, record)),
+    }),
+  ).toString('base64url');
+
+/**
+ * Read a cursor made for the given sort, failing with 400 when it is
+ * malformed or was made for another sort
+ */
+export const decodeCursor = (sort: SortSpec[], cursor: string): RecordCursor => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    parsed = null;
+  }
+
+  if (
+    !parsed ||
+    !['next', 'prev'].includes(parsed.d) ||
+    !Array.isArray(parsed.v) ||
+    parsed.v.length !== sort.length ||
+    !sort.every((spec, i) => isSortValue(spec, parsed.v[i]))
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  if (parsed.s !== sortSignature(sort)) {
+    throw new BadRequestException(
+      'Cursor was made for another sort, start again without one',
+    );
+  }
+
+  return { direction: parsed.d, values: parsed.v };
+};
+
+/**
+ * Sort in the opposite order, walking the records backwards
+ */
+export const reverseSort = (sort: SortSpec[]): SortSpec[] =>
+  sort.map((spec) => ({
+    ...spec,
+    direction: spec.direction === 'asc' ? 'desc' : 'asc',
+  }));
@@ -0,0 +1,16 @@
+import { SortSpec } from './query.types';
+
+/**
+ * Whether the sort only involves record columns, so the database can
+ * order the rows without looking inside the data blob
+ */
+export const isSystemSort = (sort: SortSpec[]): boolean =>
+  sort.every((spec) => spec.system);
+
+/**
+ * Prisma orderBy for a sort made of record columns only
+ */
+export const toPrismaOrderBy = (
+  sort: SortSpec[],
+): Record<string, 'asc' | 'desc'>[] =>
+  sort.map((spec) => ({ [spec.fieldName]: spec.direction }));
@@ -0,0 +1,19 @@
+import { matchesIfMatch, toETag } from './record-version';
+
+describe('record versions', () => {
+  it('quotes the version as the ETag', () => {
+    expect(toETag(3)).toBe('"3"');
+  });
+
+  it('matches * and any of the listed tags', () => {
+    expect(matchesIfMatch('*', 3)).toBe(true);
+    expect(matchesIfMatch('"3"', 3)).toBe(true);
+    expect(matchesIfMatch('"1", "3"', 3)).toBe(true);
+    expect(matchesIfMatch('"2"', 3)).toBe(false);
+  });
+
+  it('never matches weak tags', () => {
+    expect(matchesIfMatch('W/"3"', 3)).toBe(false);
+    expect(matchesIfMatch('W/"2", W/"3"', 3)).toBe(false);
+  });
+});
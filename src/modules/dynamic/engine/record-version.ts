@@ -0,0 +1,16 @@
+/**
+ * Record versions as HTTP entity tags
+ * A record's version is raised on every update; its ETag is the quoted
+ * version, and an If-Match header names the versions a write expects.
+ */
+
+export const toETag = (version: number): string => `"${version}"`;
+
+/**
+ * Whether an If-Match header value matches a record version: `*` or one
+ * of its comma-separated tags. If-Match compares strongly (RFC 7232), so
+ * weak tags (W/"3") never match.
+ */
+export const matchesIfMatch = (ifMatch: string, version: number): boolean =>
+  ifMatch.trim() === '*' ||
+  ifMatch.split(',').some((tag) => tag.trim() === toETag(version));
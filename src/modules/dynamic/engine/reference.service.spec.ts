@@ -0,0 +1,174 @@
+import { BadRequestException, ConflictException, PreconditionFailedException } from '@nestjs/common';
+import { DynamicReferenceService } from './reference.service';
+
+const customer = { id: 1, entityName: 'Customer', fields: [] };
+const order = {
+  id: 2,
+  entityName: 'Order',
+  fields: [
+    { id: 20, fieldName: 'customer', displayName: 'Customer', fieldType: 'reference', referenceEntityId: 1 },
+  ],
+};
+const customers = { entity: customer, fields: [] } as any;
+const orders = { entity: order, fields: order.fields } as any;
+
+describe('DynamicReferenceService', () => {
+  let records: Map<string, any>;
+  let onDelete: string;
+  let calls: string[];
+  let databaseService: any;
+  let historyService: any;
+  let trashCascade: any;
+  let service: DynamicReferenceService;
+
+  beforeEach(() => {
+    records = new Map([
+      ['c1', { id: 'c1', version: 1, isDeleted: false, data: {} }],
+      ['o1', { id: 'o1', version: 3, isDeleted: false, data: { customer: 'c1', note: 'x' } }],
+    ]);
+    onDelete = 'cascade';
+    calls = [];
+    const live = (id: string) => {
+      const record = records.get(id);
+      return record && !record.isDeleted ? { ...record } : null;
+    };
+
+    databaseService = {
+      transaction: jest.fn(async (work: () => Promise<unknown>) => {
+        calls.push('transaction');
+        return work();
+      }),
+      findOne: jest.fn(async (_context, id) => live(id)),
+      lockByIds: jest.fn(async (_context, ids: string[]) => ids.map(live).filter(Boolean)),
+      findDeletedOne: jest.fn(async (_context, id) => ({ ...records.get(id) })),
+      findMany: jest.fn(async (_context, { filters }) => {
+        calls.push('findReferencing');
+        return {
+          records: [...records.values()]
+            .filter((r) => !r.isDeleted && filters[0].value.includes(r.data.customer))
+            .map((r) => ({ ...r })),
+          total: null,
+        };
+      }),
+      softDelete: jest.fn(async (_context, id, expectedVersion) => {
+        calls.push(`softDelete ${id}`);
+        const record = records.get(id);
+        if (expectedVersion !== undefined && record.version !== expectedVersion) {
+          throw new PreconditionFailedException(`Record ${id} changed`);
+        }
+        Object.assign(record, { isDeleted: true, version: record.version + 1 });
+        return record.version;
+      }),
+      update: jest.fn(async (_context, id, data, expectedVersion) => {
+        const record = records.get(id);
+        if (record.version !== expectedVersion) {
+          throw new PreconditionFailedException(`Record ${id} changed`);
+        }
+        Object.assign(record, { data, version: record.version + 1 });
+        return { ...record };
+      }),
+    };
+    historyService = { snapshot: jest.fn() };
+    const metadataService = {
+      getEntityById: jest.fn(async () => customer),
+      getReferencingFields: jest.fn(async (entityId: number) =>
+        entityId === 1 ? [{ ...order.fields[0], onDelete, entity: order }] : [],
+      ),
+    };
+    const relationService = { unlinkRecord: jest.fn() };
+    trashCascade = { createMany: jest.fn() };
+    const prisma = { client: { trashCascade } };
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+    service = new DynamicReferenceService(
+      databaseService,
+      metadataService as any,
+      relationService as any,
+      historyService,
+      prisma as any,
+      logger as any,
+    );
+  });
+
+  describe('deleteRecord', () => {
+    it('deletes the record before looking for references, in one transaction', async () => {
+      await service.deleteRecord(customers, 'c1', { userId: 'u1', expectedVersion: 1 });
+
+      expect(calls).toEqual(['transaction', 'softDelete c1', 'findReferencing', 'softDelete o1']);
+      expect(historyService.snapshot).toHaveBeenCalledWith(
+        orders,
+        expect.objectContaining({ id: 'o1', version: 4 }),
+        'delete',
+        { userId: 'u1', expectedVersion: 1 },
+      );
+    });
+
+    it('notes the records a cascade deleted with the record that deleted them', async () => {
+      await service.deleteRecord(customers, 'c1');
+
+      expect(trashCascade.createMany).toHaveBeenCalledWith({
+        data: [{ entityId: 2, recordId: 'o1', parentEntityId: 1, parentRecordId: 'c1' }],
+      });
+    });
+
+    it('fails with 409 on a restrict reference', async () => {
+      onDelete = 'restrict';
+
+      await expect(service.deleteRecord(customers, 'c1')).rejects.toThrow(
+        'Record c1 of Customer is still referenced by Order o1 (customer)',
+      );
+    });
+
+    it('fails with 409 when the deletion would change too many records', async () => {
+      for (let i = 2; i <= 1001; i++) {
+        records.set(`o${i}`, { id: `o${i}`, version: 1, isDeleted: false, data: { customer: 'c1' } });
+      }
+
+      await expect(service.deleteRecord(customers, 'c1')).rejects.toThrow(ConflictException);
+      expect(databaseService.softDelete).toHaveBeenCalledTimes(1);
+    });
+
+    it('clears a reference again from the record as last committed when it changed', async () => {
+      onDelete = 'setNull';
+      databaseService.findMany.mockImplementation(async () => {
+        const found = { ...records.get('o1') };
+        // Another request changes the order after it was read
+        Object.assign(records.get('o1'), { version: 4, data: { customer: 'c1', note: 'y' } });
+        return { records: [found], total: null };
+      });
+
+      await service.deleteRecord(customers, 'c1');
+
+      expect(databaseService.lockByIds).toHaveBeenCalledWith(orders, ['o1']);
+      expect(records.get('o1')).toMatchObject({
+        version: 5,
+        data: { customer: null, note: 'y' },
+      });
+    });
+  });
+
+  describe('lockTargets', () => {
+    it('checks changed references as last committed', async () => {
+      await service.lockTargets(orders, { customer: 'c1' }, { customer: 'c0' });
+
+      expect(databaseService.lockByIds).toHaveBeenCalledWith(
+        { entity: customer, fields: [] },
+        ['c1'],
+      );
+    });
+
+    it('leaves unchanged references alone', async () => {
+      await service.lockTargets(orders, { customer: 'gone' }, { customer: 'gone' });
+
+      expect(databaseService.lockByIds).not.toHaveBeenCalled();
+    });
+
+    it('fails with 400 when a referenced record was deleted meanwhile', async () => {
+      records.get('c1').isDeleted = true;
+
+      await expect(service.lockTargets(orders, { customer: 'c1' })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,516 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { indexedColumnName } from '@/core/database/mysql-json';
+import { MetadataService } from '@/modules/metadata/metadata.service';
+import { DynamicRecordDto } from '@/common/dtos/dynamic.dto';
+import { FieldDefinitionDto } from '@/common/dtos/metadata.dto';
+import { FieldValidationError } from '@/common/interfaces/response.interface';
+import { DatabaseService } from '../database/database.service';
+import { DynamicRelationService } from './relation.service';
+import { DynamicHistoryService, SnapshotOptions } from './history.service';
+import { DynamicEntityContext } from './query.types';
+
+const REFERENCE_PAGE_SIZE = 500;
+
+/**
+ * Most records deleting one may delete or clear references of, itself
+ * included, so a deletion stays one bounded transaction
+ */
+const MAX_CASCADE_RECORDS = 1000;
+
+/**
+ * Times a reference is cleared from a record another request keeps
+ * changing before the deletion fails with 412
+ */
+const MAX_CLEAR_ATTEMPTS = 3;
+
+export interface RecordRef {
+  context: DynamicEntityContext;
+  recordId: string;
+}
+
+export interface DeleteOptions extends SnapshotOptions {
+  expectedVersion?: number; // Version the deleted record must still be at
+}
+
+/**
+ * Reference fields of a record a deletion sets to null, with the record
+ * as it was read
+ */
+interface ReferenceClear extends RecordRef {
+  data: Record<string, any>;
+  version: number;
+  fieldNames: string[];
+}
+
+/**
+ * Records a deletion touches, collected before anything is changed
+ */
+interface DeletePlan {
+  deletes: (RecordRef & { data: Record<string, any>; parent?: RecordRef })[];
+  clears: Map<string, ReferenceClear>;
+  restricted: (RecordRef & { by: string })[];
+  visited: Set<string>;
+}
+
+/**
+ * Keeps references between dynamic entities intact: reference field
+ * values must point to a live record of the referenced entity, and
+ * deleting a record applies the onDelete behaviour of every reference
+ * field pointing to it
+ */
+@Injectable()
+export class DynamicReferenceService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly metadataService: MetadataService,
+    private readonly relationService: DynamicRelationService,
+    private readonly historyService: DynamicHistoryService,
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Check the reference values of a payload, returning an error for each
+   * one that points to a missing or deleted record
+   */
+  async validate(
+    context: DynamicEntityContext,
+    data: Record<string, any>,
+  ): Promise<FieldValidationError[]> {
+    return this.checkTargets(context, data, async (target, id) =>
+      Boolean(await this.databaseService.findOne(target, id)),
+    );
+  }
+
+  /**
+   * Check the reference values of a payload again in the transaction
+   * writing it, keeping the records they point to from being deleted
+   * until it ends (see DatabaseService.lockByIds). Fails with 400 when
+   * one was deleted since the payload was validated. Values equal to
+   * those in `previous` are left alone.
+   */
+  async lockTargets(
+    context: DynamicEntityContext,
+    data: Record<string, any>,
+    previous: Record<string, any> = {},
+  ): Promise<void> {
+    const changes = Object.fromEntries(
+      Object.entries(data).filter(([key, value]) => value !== previous[key]),
+    );
+    const errors = await this.checkTargets(
+      context,
+      changes,
+      async (target, id) =>
+        (await this.databaseService.lockByIds(target, [id])).length > 0,
+    );
+
+    if (errors.length) {
+      throw new BadRequestException({ message: 'Validation failed', errors });
+    }
+  }
+
+  private async checkTargets(
+    context: DynamicEntityContext,
+    data: Record<string, any>,
+    exists: (target: DynamicEntityContext, id: string) => Promise<boolean>,
+  ): Promise<FieldValidationError[]> {
+    const errors: FieldValidationError[] = [];
+
+    for (const field of context.fields) {
+      const value = data[field.fieldName];
+      if (field.fieldType !== 'reference' || typeof value !== 'string' || value === '') {
+        continue;
+      }
+
+      const target = await this.metadataService.getEntityById(
+        field.referenceEntityId,
+      );
+
+      if (!(await exists({ entity: target, fields: target.fields ?? [] }, value))) {
+        errors.push({
+          field: field.fieldName,
+          code: 'REFERENCE',
+          message: `Field '${field.displayName}' references a ${target.entityName} record that doesn't exist`,
+          params: { entity: target.entityName, id: value },
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Soft delete a record together with the effects of its incoming
+   * references: restrict fails the deletion, setNull clears the field and
+   * cascade deletes the referencing records the same way, up to
+   * MAX_CASCADE_RECORDS records changed in all. Everything runs in one
+   * transaction (see DatabaseService.transaction). The record is deleted
+   * first, which keeps new references to it from being written until the
+   * deletion ends, so every one is found; with `expectedVersion` that
+   * fails with 412 when it is at another version. The links of every
+   * deleted record are removed, each record deleted by a cascade is noted
+   * with the one that deleted it so restoring that one brings it back,
+   * and every changed record gets a version made by `userId`. References are cleared only from the versions of
+   * the records they were found in.
+   */
+  async deleteRecord(
+    context: DynamicEntityContext,
+    recordId: string,
+    options: DeleteOptions = {},
+  ): Promise<void> {
+    const plan = await this.databaseService.transaction(async () => {
+      const record = await this.softDelete(
+        { context, recordId },
+        options,
+        options.expectedVersion,
+      );
+      const plan = await this.plan(context, record);
+
+      const cascaded = plan.deletes.slice(1);
+      for (const ref of cascaded) {
+        await this.softDelete(ref, options);
+      }
+      if (cascaded.length) {
+        await this.prisma.client.trashCascade.createMany({
+          data: cascaded.map((ref) => ({
+            entityId: ref.context.entity.id,
+            recordId: ref.recordId,
+            parentEntityId: ref.parent.context.entity.id,
+            parentRecordId: ref.parent.recordId,
+          })),
+        });
+      }
+      for (const ref of plan.deletes) {
+        await this.relationService.unlinkRecord(ref.context, ref.recordId);
+      }
+      for (const [key, clear] of plan.clears) {
+        // Records deleted by a cascade keep their values
+        if (!plan.visited.has(key)) {
+          await this.clearReferences(clear, plan, options);
+        }
+      }
+
+      return plan;
+    });
+
+    if (plan.deletes.length > 1 || plan.clears.size) {
+      this.logger.log(
+        `✓ Deleted ${plan.deletes.length} records and cleared references of ${plan.clears.size} for ${context.entity.entityName} ${recordId}`,
+        'DynamicReferenceService',
+      );
+    }
+  }
+
+  /**
+   * Soft delete a record and keep the deletion as a version, returning
+   * the record as it was deleted
+   */
+  private async softDelete(
+    ref: RecordRef,
+    options: SnapshotOptions,
+    expectedVersion?: number,
+  ): Promise<DynamicRecordDto> {
+    await this.databaseService.softDelete(
+      ref.context,
+      ref.recordId,
+      expectedVersion,
+    );
+    const record = await this.databaseService.findDeletedOne(
+      ref.context,
+      ref.recordId,
+    );
+    await this.historyService.snapshot(ref.context, record, 'delete', options);
+    return record;
+  }
+
+  /**
+   * Set the planned fields of a record to null at the version it was read
+   * at, so a concurrent write isn't overwritten with stale values. When the
+   * record changed since, it is read again and the fields still pointing
+   * to a deleted record are cleared.
+   */
+  private async clearReferences(
+    clear: ReferenceClear,
+    plan: DeletePlan,
+    options: DeleteOptions,
+  ): Promise<void> {
+    let { data, version, fieldNames } = clear;
+
+    for (let attempt = 1; ; attempt++) {
+      const cleared = { ...data };
+      for (const fieldName of fieldNames) {
+        cleared[fieldName] = null;
+      }
+
+      try {
+        const record = await this.databaseService.update(
+          clear.context,
+          clear.recordId,
+          cleared,
+          version,
+        );
+        await this.historyService.snapshot(
+          clear.context,
+          record,
+          'update',
+          options,
+        );
+        return;
+      } catch (error) {
+        if (
+          !(error instanceof PreconditionFailedException) ||
+          attempt === MAX_CLEAR_ATTEMPTS
+        ) {
+          throw error;
+        }
+      }
+
+      // The transaction may still see the record as it was read, so it's
+      // read as last committed, and kept from changing again
+      const [current] = await this.databaseService.lockByIds(clear.context, [
+        clear.recordId,
+      ]);
+      fieldNames = current
+        ? fieldNames.filter((fieldName) =>
+            this.referencesDeleted(clear.context, fieldName, current.data, plan),
+          )
+        : [];
+      if (!fieldNames.length) {
+        return;
+      }
+      ({ data, version } = current);
+    }
+  }
+
+  private referencesDeleted(
+    context: DynamicEntityContext,
+    fieldName: string,
+    data: Record<string, any>,
+    plan: DeletePlan,
+  ): boolean {
+    const field = context.fields.find((f) => f.fieldName === fieldName);
+
+    return plan.deletes.some(
+      (ref) =>
+        ref.context.entity.id === field?.referenceEntityId &&
+        ref.recordId === data[fieldName],
+    );
+  }
+
+  /**
+   * Get the records deleting a record cascaded to and forget they were,
+   * for restoring them with it. Records of entities deleted since are
+   * left out.
+   */
+  async takeCascaded(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<RecordRef[]> {
+    const where = { parentEntityId: context.entity.id, parentRecordId: recordId };
+    const cascades = await this.prisma.client.trashCascade.findMany({
+      where,
+      orderBy: { id: 'asc' },
+    });
+    await this.prisma.client.trashCascade.deleteMany({ where });
+
+    const refs: RecordRef[] = [];
+    for (const cascade of cascades) {
+      const entity = await this.metadataService
+        .getEntityById(cascade.entityId)
+        .catch((error) => {
+          if (error instanceof NotFoundException) {
+            return null;
+          }
+          throw error;
+        });
+
+      if (entity) {
+        refs.push({
+          context: { entity, fields: entity.fields ?? [] },
+          recordId: cascade.recordId,
+        });
+      }
+    }
+
+    return refs;
+  }
+
+  /**
+   * Forget every cascade a record took part in, as the record deleted by
+   * it or as the one that deleted others
+   */
+  async discardCascades(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<void> {
+    await this.prisma.client.trashCascade.deleteMany({
+      where: {
+        OR: [
+          { entityId: context.entity.id, recordId },
+          { parentEntityId: context.entity.id, parentRecordId: recordId },
+        ],
+      },
+    });
+  }
+
+  /**
+   * Fail with 409 when the record can't be deleted, without changing
+   * anything
+   */
+  async assertDeletable(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<void> {
+    const record = await this.databaseService.findOne(context, recordId);
+    if (!record) {
+      throw new NotFoundException(
+        `Record ${recordId} not found in ${context.entity.entityName}`,
+      );
+    }
+    await this.plan(context, record);
+  }
+
+  /**
+   * Collect the records deleting a record changes, failing with 409 when
+   * a restrict reference keeps it or when they are more than
+   * MAX_CASCADE_RECORDS
+   */
+  private async plan(
+    context: DynamicEntityContext,
+    record: DynamicRecordDto,
+  ): Promise<DeletePlan> {
+    const recordId = record.id;
+    const plan: DeletePlan = {
+      deletes: [],
+      clears: new Map(),
+      restricted: [],
+      visited: new Set(),
+    };
+    await this.planDelete(context, record, plan);
+
+    const blocking = plan.restricted.filter(
+      (ref) => !plan.visited.has(this.key(ref)),
+    );
+    if (blocking.length) {
+      throw new ConflictException(
+        `Record ${recordId} of ${context.entity.entityName} is still referenced by ` +
+          blocking
+            .map((ref) => `${ref.context.entity.entityName} ${ref.recordId} (${ref.by})`)
+            .join(', '),
+      );
+    }
+
+    return plan;
+  }
+
+  private async planDelete(
+    context: DynamicEntityContext,
+    { id: recordId, data }: DynamicRecordDto,
+    plan: DeletePlan,
+    parent?: RecordRef,
+  ): Promise<void> {
+    plan.visited.add(this.key({ context, recordId }));
+    plan.deletes.push({ context, recordId, data, parent });
+
+    const fields = await this.metadataService.getReferencingFields(
+      context.entity.id,
+    );
+
+    for (const field of fields) {
+      const referencing: DynamicEntityContext = {
+        entity: field.entity,
+        fields: field.entity.fields ?? [],
+      };
+      const records = await this.findReferencing(
+        referencing,
+        field,
+        [recordId],
+        MAX_CASCADE_RECORDS + 1,
+      );
+
+      for (const record of records) {
+        const ref = { context: referencing, recordId: record.id };
+
+        switch (field.onDelete) {
+          case 'cascade':
+            if (!plan.visited.has(this.key(ref))) {
+              await this.planDelete(referencing, record, plan, {
+                context,
+                recordId,
+              });
+            }
+            break;
+          case 'setNull': {
+            const key = this.key(ref);
+            const clear = plan.clears.get(key) ?? {
+              ...ref,
+              data: record.data,
+              version: record.version,
+              fieldNames: [],
+            };
+            clear.fieldNames.push(field.fieldName);
+            plan.clears.set(key, clear);
+            break;
+          }
+          default:
+            plan.restricted.push({ ...ref, by: field.fieldName });
+        }
+
+        if (plan.deletes.length + plan.clears.size > MAX_CASCADE_RECORDS) {
+          throw new ConflictException(
+            `Deleting the record would change more than ${MAX_CASCADE_RECORDS} records, delete the records referencing it first`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the live records whose reference field holds one of the record
+   * ids, the latest created first, up to `limit` when given
+   */
+  async findReferencing(
+    context: DynamicEntityContext,
+    field: FieldDefinitionDto,
+    recordIds: string[],
+    limit?: number,
+  ): Promise<DynamicRecordDto[]> {
+    const records: DynamicRecordDto[] = [];
+
+    for (let page = 1; ; page++) {
+      const result = await this.databaseService.findMany(context, {
+        page,
+        pageSize: REFERENCE_PAGE_SIZE,
+        filters: [
+          {
+            fieldName: field.fieldName,
+            fieldType: field.fieldType,
+            operator: 'in',
+            value: recordIds,
+            indexedColumn: field.isIndexed ? indexedColumnName(field.id) : undefined,
+          },
+        ],
+      });
+
+      records.push(...result.records);
+      if (limit !== undefined && records.length >= limit) {
+        return records.slice(0, limit);
+      }
+      if (result.records.length < REFERENCE_PAGE_SIZE) {
+        return records;
+      }
+    }
+  }
+
+  private key(ref: RecordRef): string {
+    return `${ref.context.entity.id}:${ref.recordId}`;
+  }
+}
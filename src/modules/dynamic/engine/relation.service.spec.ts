@@ -0,0 +1,96 @@
+import { DynamicRelationService } from './relation.service';
+
+const product = { id: 1, entityName: 'Product', fields: [] };
+const tag = { id: 2, entityName: 'Tag', fields: [] };
+const products = { entity: product, fields: [] } as any;
+const tags = { entity: tag, fields: [] } as any;
+const relationship = {
+  id: 5,
+  name: 'tags',
+  inverseName: 'products',
+  sourceEntityId: 1,
+  targetEntityId: 2,
+};
+const createdAt = new Date('2026-01-02T03:04:05Z');
+
+describe('DynamicRelationService', () => {
+  let trashedLink: any;
+  let databaseService: any;
+  let service: DynamicRelationService;
+
+  beforeEach(() => {
+    trashedLink = {
+      createMany: jest.fn(),
+      findMany: jest.fn(async () => [
+        { id: 1, relationshipId: 5, sourceId: 'p1', targetId: 't1', createdAt },
+        { id: 2, relationshipId: 5, sourceId: 'p1', targetId: 't2', createdAt },
+        { id: 3, relationshipId: 5, sourceId: 'p1', targetId: 't3', createdAt },
+      ]),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+    databaseService = {
+      findLinks: jest.fn(async () => ({
+        links: [{ relationshipId: 5, sourceId: 'p1', targetId: 't1', createdAt }],
+        total: 1,
+      })),
+      unlink: jest.fn(async () => 1),
+      link: jest.fn(),
+      lockByIds: jest.fn(async (_context, [id]: string[]) => (id === 't1' ? [{ id }] : [])),
+      findDeletedOne: jest.fn(async (_context, id) => (id === 't2' ? { id } : null)),
+    };
+    const relationshipService = {
+      getRelationships: jest.fn(async () => [relationship]),
+      getRelationSide: jest.fn(async () => ({
+        relationship,
+        isSource: true,
+        source: product,
+        other: tag,
+      })),
+    };
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+    service = new DynamicRelationService(
+      relationshipService as any,
+      databaseService,
+      { client: { trashedLink } } as any,
+      logger as any,
+    );
+  });
+
+  it('keeps the links of a deleted record before removing them', async () => {
+    await service.unlinkRecord(products, 'p1');
+
+    expect(trashedLink.createMany).toHaveBeenCalledWith({
+      data: [
+        { entityId: 1, recordId: 'p1', relationshipId: 5, sourceId: 'p1', targetId: 't1', createdAt },
+      ],
+    });
+    expect(databaseService.unlink).toHaveBeenCalledWith(products, 5, { sourceId: 'p1' });
+  });
+
+  it('links a restored record again to the records still live', async () => {
+    await service.relinkRecord(products, 'p1');
+
+    expect(databaseService.lockByIds).toHaveBeenCalledWith(tags, ['t1']);
+    expect(databaseService.link).toHaveBeenCalledTimes(1);
+    expect(databaseService.link).toHaveBeenCalledWith(products, {
+      relationshipId: 5,
+      sourceId: 'p1',
+      targetId: 't1',
+      createdAt,
+    });
+    expect(trashedLink.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+  });
+
+  it('hands a link to a record in the trash over to that record and drops the others', async () => {
+    await service.relinkRecord(products, 'p1');
+
+    expect(trashedLink.update).toHaveBeenCalledWith({
+      where: { id: 2 },
+      data: { entityId: 2, recordId: 't2' },
+    });
+    expect(trashedLink.delete).toHaveBeenCalledWith({ where: { id: 3 } });
+    expect(trashedLink.delete).not.toHaveBeenCalledWith({ where: { id: 2 } });
+  });
+});
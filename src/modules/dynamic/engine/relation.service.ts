@@ -0,0 +1,305 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import {
+  RelationshipService,
+  RelationSide,
+} from '@/modules/metadata/relationship.service';
+import { EntityDefinitionDto } from '@/common/dtos/metadata.dto';
+import {
+  DynamicRecordDto,
+  PaginatedResponseDto,
+} from '@/common/dtos/dynamic.dto';
+import { DatabaseService } from '../database/database.service';
+import { LinkFilter, RecordLink } from '../database/database.adapter';
+import { DynamicEntityContext } from './query.types';
+
+const LINK_PAGE_SIZE = 500;
+
+/**
+ * Links and unlinks records of many-to-many relationships and lists the
+ * records linked to one, from either side of the relationship
+ */
+@Injectable()
+export class DynamicRelationService {
+  constructor(
+    private readonly relationshipService: RelationshipService,
+    private readonly databaseService: DatabaseService,
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Link a record to a record of the other side of a relation
+   */
+  async link(
+    context: DynamicEntityContext,
+    recordId: string,
+    relation: string,
+    otherId: string,
+  ): Promise<void> {
+    const side = await this.relationshipService.getRelationSide(
+      context.entity,
+      relation,
+    );
+    await this.assertExists(context, recordId);
+    await this.assertExists(this.toContext(side.other), otherId);
+
+    await this.databaseService.link(
+      this.toContext(side.source),
+      this.toLink(side, recordId, otherId),
+    );
+
+    this.logger.log(
+      `✓ Linked ${context.entity.entityName} ${recordId} to ${side.other.entityName} ${otherId} (${relation})`,
+      'DynamicRelationService',
+    );
+  }
+
+  /**
+   * Remove the link between a record and a record of the other side
+   */
+  async unlink(
+    context: DynamicEntityContext,
+    recordId: string,
+    relation: string,
+    otherId: string,
+  ): Promise<void> {
+    const side = await this.relationshipService.getRelationSide(
+      context.entity,
+      relation,
+    );
+    const { relationshipId, sourceId, targetId } = this.toLink(
+      side,
+      recordId,
+      otherId,
+    );
+
+    const removed = await this.databaseService.unlink(
+      this.toContext(side.source),
+      relationshipId,
+      { sourceId, targetId },
+    );
+
+    if (!removed) {
+      throw new NotFoundException(
+        `${context.entity.entityName} ${recordId} is not linked to ${side.other.entityName} ${otherId} through '${relation}'`,
+      );
+    }
+  }
+
+  /**
+   * Get a page of the records linked to a record, in the order they were
+   * linked
+   */
+  async getLinked(
+    context: DynamicEntityContext,
+    recordId: string,
+    relation: string,
+    page: number,
+    pageSize: number,
+  ): Promise<PaginatedResponseDto<DynamicRecordDto>> {
+    const side = await this.relationshipService.getRelationSide(
+      context.entity,
+      relation,
+    );
+    await this.assertExists(context, recordId);
+
+    const filter: LinkFilter = side.isSource
+      ? { sourceId: recordId }
+      : { targetId: recordId };
+    const { links, total } = await this.databaseService.findLinks(
+      this.toContext(side.source),
+      side.relationship.id,
+      filter,
+      { page, pageSize },
+    );
+
+    const ids = links.map((link) =>
+      side.isSource ? link.targetId : link.sourceId,
+    );
+    const records = await this.databaseService.findByIds(
+      this.toContext(side.other),
+      ids,
+    );
+    const byId = new Map(records.map((r) => [r.id, r]));
+
+    return {
+      // Linked records deleted since are left out
+      data: ids.filter((id) => byId.has(id)).map((id) => byId.get(id)),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  /**
+   * Remove every link of a deleted record, keeping them in the trash with
+   * it so restoring the record links it again (see relinkRecord)
+   */
+  async unlinkRecord(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<void> {
+    const relationships = await this.relationshipService.getRelationships(
+      context.entity.id,
+    );
+
+    for (const relationship of relationships) {
+      const isSource = relationship.sourceEntityId === context.entity.id;
+      const isTarget = relationship.targetEntityId === context.entity.id;
+      const side = await this.relationshipService.getRelationSide(
+        context.entity,
+        isSource ? relationship.name : relationship.inverseName,
+      );
+      const source = this.toContext(side.source);
+      const filters: LinkFilter[] = [
+        ...(isSource ? [{ sourceId: recordId }] : []),
+        ...(isTarget ? [{ targetId: recordId }] : []),
+      ];
+
+      for (const filter of filters) {
+        const links = await this.findAllLinks(source, relationship.id, filter);
+        if (!links.length) {
+          continue;
+        }
+
+        await this.prisma.client.trashedLink.createMany({
+          data: links.map((link) => ({
+            entityId: context.entity.id,
+            recordId,
+            relationshipId: relationship.id,
+            sourceId: link.sourceId,
+            targetId: link.targetId,
+            createdAt: link.createdAt ?? new Date(),
+          })),
+        });
+        await this.databaseService.unlink(source, relationship.id, filter);
+      }
+    }
+  }
+
+  /**
+   * Link a restored record again to the records it was linked to when it
+   * was deleted. A link to a record that is in the trash itself waits for
+   * that one to be restored; links to records or relationships gone for
+   * good are dropped.
+   */
+  async relinkRecord(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<void> {
+    const trashed = await this.prisma.client.trashedLink.findMany({
+      where: { entityId: context.entity.id, recordId },
+      orderBy: { id: 'asc' },
+    });
+    if (!trashed.length) {
+      return;
+    }
+
+    const relationships = new Map(
+      (await this.relationshipService.getRelationships(context.entity.id)).map(
+        (relationship) => [relationship.id, relationship],
+      ),
+    );
+
+    for (const { id, ...link } of trashed) {
+      const relationship = relationships.get(link.relationshipId);
+
+      if (relationship) {
+        const isSource =
+          relationship.sourceEntityId === context.entity.id &&
+          link.sourceId === recordId;
+        const side = await this.relationshipService.getRelationSide(
+          context.entity,
+          isSource ? relationship.name : relationship.inverseName,
+        );
+        const other = this.toContext(side.other);
+        const otherId = isSource ? link.targetId : link.sourceId;
+
+        // Keeps the other record from being deleted before this commits
+        const [live] = await this.databaseService.lockByIds(other, [otherId]);
+        if (live) {
+          await this.databaseService.link(this.toContext(side.source), {
+            relationshipId: link.relationshipId,
+            sourceId: link.sourceId,
+            targetId: link.targetId,
+            createdAt: link.createdAt,
+          });
+        } else if (await this.databaseService.findDeletedOne(other, otherId)) {
+          await this.prisma.client.trashedLink.update({
+            where: { id },
+            data: { entityId: other.entity.id, recordId: otherId },
+          });
+          continue;
+        }
+      }
+
+      await this.prisma.client.trashedLink.delete({ where: { id } });
+    }
+  }
+
+  /**
+   * Forget the links a record had when it was deleted, once it is purged
+   */
+  async discardTrashedLinks(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<void> {
+    await this.prisma.client.trashedLink.deleteMany({
+      where: { entityId: context.entity.id, recordId },
+    });
+  }
+
+  private async findAllLinks(
+    source: DynamicEntityContext,
+    relationshipId: number,
+    filter: LinkFilter,
+  ): Promise<RecordLink[]> {
+    const links: RecordLink[] = [];
+
+    for (let page = 1; ; page++) {
+      const result = await this.databaseService.findLinks(
+        source,
+        relationshipId,
+        filter,
+        { page, pageSize: LINK_PAGE_SIZE },
+      );
+      links.push(...result.links);
+
+      if (result.links.length < LINK_PAGE_SIZE) {
+        return links;
+      }
+    }
+  }
+
+  private toLink(
+    side: RelationSide,
+    recordId: string,
+    otherId: string,
+  ): RecordLink {
+    return {
+      relationshipId: side.relationship.id,
+      sourceId: side.isSource ? recordId : otherId,
+      targetId: side.isSource ? otherId : recordId,
+    };
+  }
+
+  private toContext(entity: EntityDefinitionDto): DynamicEntityContext {
+    return { entity, fields: entity.fields ?? [] };
+  }
+
+  private async assertExists(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<void> {
+    const record = await this.databaseService.findOne(context, recordId);
+
+    if (!record) {
+      throw new NotFoundException(
+        `Record ${recordId} not found in ${context.entity.entityName}`,
+      );
+    }
+  }
+}
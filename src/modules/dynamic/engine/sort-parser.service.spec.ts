@@ -0,0 +1,52 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  EntityDefinitionDto,
+  FieldDefinitionDto,
+} from '@/common/dtos/metadata.dto';
+import { DynamicSortParser } from './sort-parser.service';
+import { DynamicEntityContext } from './query.types';
+
+const context: DynamicEntityContext = {
+  entity: { id: 1, entityName: 'Customer' } as EntityDefinitionDto,
+  fields: [
+    { id: 1, fieldName: 'lastName', fieldType: 'string', isIndexed: true },
+    { id: 2, fieldName: 'email', fieldType: 'string', isIndexed: false },
+  ] as FieldDefinitionDto[],
+};
+
+describe('DynamicSortParser', () => {
+  const parser = new DynamicSortParser();
+
+  it('sorts the newest records first by default, then by id', () => {
+    expect(parser.parse(context)).toEqual([
+      { fieldName: 'createdAt', fieldType: 'datetime', direction: 'desc', system: true },
+      { fieldName: 'id', fieldType: 'string', direction: 'asc', system: true },
+    ]);
+  });
+
+  it('reads directions and field names in order', () => {
+    const sort = parser.parse(context, '-LastName, email');
+
+    expect(sort.map((spec) => [spec.fieldName, spec.direction])).toEqual([
+      ['lastName', 'desc'],
+      ['email', 'asc'],
+      ['id', 'asc'],
+    ]);
+    expect(sort[0].indexedColumn).toBeDefined();
+    expect(sort[1].indexedColumn).toBeUndefined();
+  });
+
+  it('does not add the tie-breaker twice', () => {
+    const sort = parser.parse(context, '-id');
+
+    expect(sort).toHaveLength(1);
+    expect(sort[0]).toMatchObject({ fieldName: 'id', direction: 'desc', system: true });
+  });
+
+  it('rejects unknown and repeated keys', () => {
+    expect(() => parser.parse(context, 'phone')).toThrow(BadRequestException);
+    expect(() => parser.parse(context, 'email,-email')).toThrow(
+      BadRequestException,
+    );
+  });
+});
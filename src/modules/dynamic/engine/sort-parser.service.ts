@@ -0,0 +1,83 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { indexedColumnName } from '@/core/database/mysql-json';
+import {
+  DEFAULT_SORT,
+  DynamicEntityContext,
+  SortDirection,
+  SortSpec,
+  SYSTEM_SORT_FIELDS,
+} from './query.types';
+
+/**
+ * Parses the `sort` query string into validated sort keys.
+ *
+ * Keys are comma-separated, a leading '-' sorts descending:
+ *   sort=-lastName,email
+ *   sort=createdAt
+ *
+ * Without a sort the newest records come first. The record id is always
+ * appended as a final tie-breaker so paging is stable.
+ */
+@Injectable()
+export class DynamicSortParser {
+  parse(context: DynamicEntityContext, rawSort?: string): SortSpec[] {
+    const keys = (rawSort ?? '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter((key) => key.length > 0);
+
+    const sort = keys.length
+      ? keys.map((key) => this.parseKey(context, key))
+      : [...DEFAULT_SORT];
+
+    const names = sort.map((spec) => spec.fieldName);
+    const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+    if (duplicate) {
+      throw new BadRequestException(
+        `Field '${duplicate}' appears more than once in sort`,
+      );
+    }
+
+    if (!names.includes('id')) {
+      sort.push(this.systemSpec('id', 'asc'));
+    }
+
+    return sort;
+  }
+
+  private parseKey(context: DynamicEntityContext, key: string): SortSpec {
+    const direction: SortDirection = key.startsWith('-') ? 'desc' : 'asc';
+    const name = key.replace(/^[-+]/, '');
+
+    const field = context.fields.find(
+      (f) => f.fieldName.toLowerCase() === name.toLowerCase(),
+    );
+
+    if (field) {
+      return {
+        fieldName: field.fieldName,
+        fieldType: field.fieldType,
+        direction,
+        system: false,
+        indexedColumn: field.isIndexed
+          ? indexedColumnName(field.id)
+          : undefined,
+      };
+    }
+
+    if (name in SYSTEM_SORT_FIELDS) {
+      return this.systemSpec(name, direction);
+    }
+
+    throw new BadRequestException(`Cannot sort on unknown field '${name}'`);
+  }
+
+  private systemSpec(fieldName: string, direction: SortDirection): SortSpec {
+    return {
+      fieldName,
+      fieldType: SYSTEM_SORT_FIELDS[fieldName],
+      direction,
+      system: true,
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import { DynamicSqlBuilder } from './sql-builder.service';
+import { FilterCondition, SortSpec } from './query.types';
+
+const normalize = (sql: string) => sql.replace(/\s+/g, ' ').trim();
+
+const byId: SortSpec = {
+  fieldName: 'id',
+  fieldType: 'string',
+  direction: 'asc',
+  system: true,
+};
+
+describe('DynamicSqlBuilder', () => {
+  const builder = new DynamicSqlBuilder();
+  const target = builder.jsonTarget(7);
+
+  it('scopes a page to the entity live records', () => {
+    const query = builder.buildSelect(target, [], [byId], { page: 3, pageSize: 20 });
+
+    expect(normalize(query.sql)).toBe(
+      'SELECT `id`, `entityId`, `data`, `createdAt`, `updatedAt`, `isDeleted`, `version` ' +
+        'FROM `dynamic_records` WHERE `entityId` = ? AND `isDeleted` = false ' +
+        'ORDER BY `id` ASC LIMIT ? OFFSET ?',
+    );
+    expect(query.values).toEqual([7, 20, 40]);
+  });
+
+  it('reads indexed fields from their generated column', () => {
+    const conditions: FilterCondition[] = [
+      { fieldName: 'status', fieldType: 'enum', operator: 'eq', value: 'open', indexedColumn: 'field_3' },
+      { fieldName: 'note', fieldType: 'string', operator: 'ne', value: 'x' },
+    ];
+    const query = builder.buildCount(target, conditions);
+
+    expect(normalize(query.sql)).toContain('AND `field_3` = ?');
+    expect(normalize(query.sql)).toContain(
+      "(JSON_UNQUOTE(NULLIF(JSON_EXTRACT(`data`, '$.\"note\"'), CAST('null' AS JSON))) IS NULL OR",
+    );
+    expect(query.values).toEqual([7, 'open', 'x']);
+  });
+
+  it('escapes LIKE patterns and converts typed values', () => {
+    const query = builder.buildCount(target, [
+      { fieldName: 'note', fieldType: 'string', operator: 'contains', value: '50%_off', indexedColumn: 'field_1' },
+      { fieldName: 'paid', fieldType: 'boolean', operator: 'eq', value: true, indexedColumn: 'field_2' },
+      { fieldName: 'placedAt', fieldType: 'datetime', operator: 'gte', value: 0, indexedColumn: 'field_4' },
+      { fieldName: 'amount', fieldType: 'decimal', operator: 'in', value: [1.5, 2], indexedColumn: 'field_5' },
+    ]);
+
+    expect(normalize(query.sql)).toContain(
+      '`field_5` IN (CAST(? AS DECIMAL(65,10)),CAST(? AS DECIMAL(65,10)))',
+    );
+    expect(query.values).toEqual([7, '%50\\%\\_off%', 1, '1970-01-01 00:00:00.000', 1.5, 2]);
+  });
+
+  it('continues a keyset page after the cursor values', () => {
+    const sort: SortSpec[] = [
+      { fieldName: 'amount', fieldType: 'decimal', direction: 'desc', system: false, indexedColumn: 'field_5' },
+      byId,
+    ];
+    const query = builder.buildKeysetSelect(target, [], sort, {
+      after: ['12345678901234.5678', 'clx1'],
+      limit: 10,
+    });
+
+    expect(normalize(query.sql)).toContain(
+      'AND (((`field_5` < CAST(? AS DECIMAL(65,10)) OR `field_5` IS NULL)) OR ' +
+        '(`field_5` = CAST(? AS DECIMAL(65,10)) AND `id` > ?)) ' +
+        'ORDER BY `field_5` DESC,`id` ASC LIMIT ?',
+    );
+    expect(query.values).toEqual([
+      7,
+      '12345678901234.5678',
+      '12345678901234.5678',
+      'clx1',
+      10,
+    ]);
+  });
+
+  it('matches nothing after a null key sorted descending', () => {
+    const sort: SortSpec[] = [
+      { fieldName: 'amount', fieldType: 'decimal', direction: 'desc', system: false, indexedColumn: 'field_5' },
+      byId,
+    ];
+    const query = builder.buildKeysetSelect(target, [], sort, {
+      after: [null, 'clx1'],
+      limit: 10,
+    });
+
+    expect(normalize(query.sql)).toContain(
+      'AND ((FALSE) OR (`field_5` IS NULL AND `id` > ?))',
+    );
+  });
+
+  it('reads every field of a physical table as its column', () => {
+    const physical = builder.physicalTarget('orders', ['amount']);
+    const query = builder.buildAggregate(
+      physical,
+      [],
+      {
+        groupBy: [{ fieldName: 'status', fieldType: 'enum' }],
+        metrics: [
+          { name: 'count', function: 'count' },
+          { name: 'sum:amount', function: 'sum', fieldName: 'amount', fieldType: 'decimal', system: false },
+        ],
+      },
+      1000,
+    );
+
+    expect(normalize(query.sql)).toBe(
+      'SELECT `status` AS `group_0`,COUNT(*) AS `metric_0`,COALESCE(SUM(`amount`), 0) AS `metric_1` ' +
+        'FROM `orders` WHERE `isDeleted` = false GROUP BY `status` ORDER BY `status` LIMIT ?',
+    );
+    expect(physical.columns).toBe(
+      '`id`, `createdAt`, `updatedAt`, `isDeleted`, `version`, `amount`',
+    );
+  });
+});
@@ -0,0 +1,356 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  fieldValueSql,
+  projectedDataSql,
+  quoteIdentifier,
+} from '@/core/database/mysql-json';
+import { ComparableValue } from './field-values';
+import {
+  AggregateQuery,
+  FilterCondition,
+  GroupSpec,
+  KeysetOptions,
+  MetricSpec,
+  PaginationOptions,
+  SortSpec,
+} from './query.types';
+
+/**
+ * Table holding the records of an entity, the columns read and how field
+ * values are read there
+ */
+export interface SqlRecordTarget {
+  table: string;
+  columns: string;
+  scope: Prisma.Sql[];
+  fieldExpression(field: FilterCondition | SortSpec | GroupSpec): string;
+}
+
+/**
+ * Builds MySQL statements that filter and order records on their fields.
+ * For JSON storage the fields live inside the `data` column of
+ * dynamic_records and indexed fields are read from their generated column
+ * so the (entityId, column) index can be used. For physical storage every
+ * field is a column of the entity's own table.
+ * Given `fields`, a target reads only those fields of each record.
+ */
+@Injectable()
+export class DynamicSqlBuilder {
+  jsonTarget(entityId: number, fields?: string[]): SqlRecordTarget {
+    // Named apart from `data`, which ORDER BY would otherwise resolve to it
+    const data = fields
+      ? `${projectedDataSql(fields)} AS \`selectedData\``
+      : '`data`';
+
+    return {
+      table: 'dynamic_records',
+      columns: `\`id\`, \`entityId\`, ${data}, \`createdAt\`, \`updatedAt\`, \`isDeleted\`, \`version\``,
+      scope: [Prisma.sql`\`entityId\` = ${entityId}`],
+      fieldExpression: (field) =>
+        field.indexedColumn
+          ? quoteIdentifier(field.indexedColumn)
+          : fieldValueSql(field),
+    };
+  }
+
+  physicalTarget(tableName: string, fields?: string[]): SqlRecordTarget {
+    return {
+      table: tableName,
+      columns: fields
+        ? ['id', 'createdAt', 'updatedAt', 'isDeleted', 'version', ...fields]
+            .map(quoteIdentifier)
+            .join(', ')
+        : '*',
+      scope: [],
+      fieldExpression: (field) => quoteIdentifier(field.fieldName),
+    };
+  }
+
+  buildSelect(
+    target: SqlRecordTarget,
+    conditions: FilterCondition[],
+    sort: SortSpec[],
+    pagination: PaginationOptions,
+  ): Prisma.Sql {
+    const skip = (pagination.page - 1) * pagination.pageSize;
+
+    return Prisma.sql`
+      SELECT ${Prisma.raw(target.columns)}
+      FROM ${Prisma.raw(quoteIdentifier(target.table))}
+      WHERE ${this.buildWhere(target, conditions)}
+      ORDER BY ${this.buildOrderBy(target, sort)}
+      LIMIT ${pagination.pageSize} OFFSET ${skip}`;
+  }
+
+  /**
+   * Select a page of keyset pagination: the rows following the keyset's
+   * sort key values, found through the sort keys instead of an offset
+   */
+  buildKeysetSelect(
+    target: SqlRecordTarget,
+    conditions: FilterCondition[],
+    sort: SortSpec[],
+    keyset: KeysetOptions,
+  ): Prisma.Sql {
+    const where = this.buildWhere(target, conditions);
+
+    return Prisma.sql`
+      SELECT ${Prisma.raw(target.columns)}
+      FROM ${Prisma.raw(quoteIdentifier(target.table))}
+      WHERE ${where}${
+        keyset.after
+          ? Prisma.sql` AND ${this.buildKeysetPredicate(target, sort, keyset.after)}`
+          : Prisma.empty
+      }
+      ORDER BY ${this.buildOrderBy(target, sort)}
+      LIMIT ${keyset.limit}`;
+  }
+
+  buildSelectById(target: SqlRecordTarget, recordId: string): Prisma.Sql {
+    return Prisma.sql`
+      SELECT ${Prisma.raw(target.columns)}
+      FROM ${Prisma.raw(quoteIdentifier(target.table))}
+      WHERE ${Prisma.join(
+        [
+          ...target.scope,
+          Prisma.sql`\`id\` = ${recordId}`,
+          Prisma.sql`\`isDeleted\` = false`,
+        ],
+        ' AND ',
+      )}
+      LIMIT 1`;
+  }
+
+  buildCount(
+    target: SqlRecordTarget,
+    conditions: FilterCondition[],
+  ): Prisma.Sql {
+    return Prisma.sql`
+      SELECT COUNT(*) AS \`total\`
+      FROM ${Prisma.raw(quoteIdentifier(target.table))}
+      WHERE ${this.buildWhere(target, conditions)}`;
+  }
+
+  /**
+   * Group the matching rows by the query's fields and compute its metrics,
+   * selecting group keys as group_<i> and metrics as metric_<i>, ordered
+   * by group key
+   */
+  buildAggregate(
+    target: SqlRecordTarget,
+    conditions: FilterCondition[],
+    query: AggregateQuery,
+    limit: number,
+  ): Prisma.Sql {
+    const groups = query.groupBy.map((group) =>
+      Prisma.raw(target.fieldExpression(group)),
+    );
+    const columns = [
+      ...groups.map(
+        (expr, i) =>
+          Prisma.sql`${expr} AS ${Prisma.raw(quoteIdentifier(`group_${i}`))}`,
+      ),
+      ...query.metrics.map(
+        (metric, i) =>
+          Prisma.sql`${this.buildMetric(target, metric)} AS ${Prisma.raw(
+            quoteIdentifier(`metric_${i}`),
+          )}`,
+      ),
+    ];
+
+    return Prisma.sql`
+      SELECT ${Prisma.join(columns)}
+      FROM ${Prisma.raw(quoteIdentifier(target.table))}
+      WHERE ${this.buildWhere(target, conditions)}
+      ${
+        groups.length
+          ? Prisma.sql`GROUP BY ${Prisma.join(groups)} ORDER BY ${Prisma.join(groups)}`
+          : Prisma.empty
+      }
+      LIMIT ${limit}`;
+  }
+
+  /**
+   * Aggregate function over a field; a sum of no values is 0
+   */
+  private buildMetric(target: SqlRecordTarget, metric: MetricSpec): Prisma.Sql {
+    if (metric.function === 'count') {
+      return Prisma.sql`COUNT(*)`;
+    }
+
+    const expr = Prisma.raw(
+      metric.system
+        ? quoteIdentifier(metric.fieldName)
+        : target.fieldExpression({
+            fieldName: metric.fieldName,
+            fieldType: metric.fieldType,
+            indexedColumn: metric.indexedColumn,
+          }),
+    );
+
+    switch (metric.function) {
+      case 'sum':
+        return Prisma.sql`COALESCE(SUM(${expr}), 0)`;
+      case 'avg':
+        return Prisma.sql`AVG(${expr})`;
+      case 'min':
+        return Prisma.sql`MIN(${expr})`;
+      case 'max':
+        return Prisma.sql`MAX(${expr})`;
+    }
+  }
+
+  private buildWhere(
+    target: SqlRecordTarget,
+    conditions: FilterCondition[],
+  ): Prisma.Sql {
+    return Prisma.join(
+      [
+        ...target.scope,
+        Prisma.sql`\`isDeleted\` = false`,
+        ...conditions.map((condition) =>
+          this.buildPredicate(target, condition),
+        ),
+      ],
+      ' AND ',
+    );
+  }
+
+  private buildPredicate(
+    target: SqlRecordTarget,
+    condition: FilterCondition,
+  ): Prisma.Sql {
+    const expr = Prisma.raw(target.fieldExpression(condition));
+    const value = condition.value as any;
+    const param = () => this.toSqlValue(condition.fieldType, value);
+
+    switch (condition.operator) {
+      case 'eq':
+        return Prisma.sql`${expr} = ${param()}`;
+      case 'ne':
+        return Prisma.sql`(${expr} IS NULL OR ${expr} <> ${param()})`;
+      case 'gt':
+        return Prisma.sql`${expr} > ${param()}`;
+      case 'gte':
+        return Prisma.sql`${expr} >= ${param()}`;
+      case 'lt':
+        return Prisma.sql`${expr} < ${param()}`;
+      case 'lte':
+        return Prisma.sql`${expr} <= ${param()}`;
+      case 'in':
+        return Prisma.sql`${expr} IN (${Prisma.join(
+          (value as unknown[]).map((item) =>
+            this.toSqlValue(condition.fieldType, item),
+          ),
+        )})`;
+      case 'contains':
+        return Prisma.sql`${expr} LIKE ${`%${this.escapeLike(value)}%`}`;
+      case 'startsWith':
+        return Prisma.sql`${expr} LIKE ${`${this.escapeLike(value)}%`}`;
+      case 'isNull':
+        return value
+          ? Prisma.sql`${expr} IS NULL`
+          : Prisma.sql`${expr} IS NOT NULL`;
+    }
+  }
+
+  private buildOrderBy(target: SqlRecordTarget, sort: SortSpec[]): Prisma.Sql {
+    return Prisma.join(
+      sort.map((spec) => {
+        const expr = this.sortExpression(target, spec);
+        return spec.direction === 'asc'
+          ? Prisma.sql`${expr} ASC`
+          : Prisma.sql`${expr} DESC`;
+      }),
+    );
+  }
+
+  /**
+   * Rows ordered after the given sort key values: a later value of the
+   * first key, or an equal one and a later value of the next key, and so
+   * on. NULL comes first in ascending order, as in ORDER BY.
+   */
+  private buildKeysetPredicate(
+    target: SqlRecordTarget,
+    sort: SortSpec[],
+    after: ComparableValue[],
+  ): Prisma.Sql {
+    const terms = sort.map((spec, i) =>
+      Prisma.join(
+        [
+          ...sort
+            .slice(0, i)
+            .map((previous, j) => this.keyEquals(target, previous, after[j])),
+          this.keyAfter(target, spec, after[i]),
+        ],
+        ' AND ',
+      ),
+    );
+
+    return Prisma.sql`(${Prisma.join(
+      terms.map((term) => Prisma.sql`(${term})`),
+      ' OR ',
+    )})`;
+  }
+
+  private keyEquals(
+    target: SqlRecordTarget,
+    spec: SortSpec,
+    value: ComparableValue,
+  ): Prisma.Sql {
+    const expr = this.sortExpression(target, spec);
+    return value === null
+      ? Prisma.sql`${expr} IS NULL`
+      : Prisma.sql`${expr} = ${this.toSqlValue(spec.fieldType, value)}`;
+  }
+
+  private keyAfter(
+    target: SqlRecordTarget,
+    spec: SortSpec,
+    value: ComparableValue,
+  ): Prisma.Sql {
+    const expr = this.sortExpression(target, spec);
+    const param = this.toSqlValue(spec.fieldType, value);
+
+    if (spec.direction === 'asc') {
+      return value === null
+        ? Prisma.sql`${expr} IS NOT NULL`
+        : Prisma.sql`${expr} > ${param}`;
+    }
+    return value === null
+      ? Prisma.sql`FALSE`
+      : Prisma.sql`(${expr} < ${param} OR ${expr} IS NULL)`;
+  }
+
+  private sortExpression(target: SqlRecordTarget, spec: SortSpec): Prisma.Sql {
+    return Prisma.raw(
+      spec.system ? quoteIdentifier(spec.fieldName) : target.fieldExpression(spec),
+    );
+  }
+
+  /**
+   * Convert a comparable value to the SQL value of the field expression
+   */
+  private toSqlValue(fieldType: string, value: unknown): unknown {
+    switch (fieldType) {
+      case 'decimal':
+        // Decimals are exact text; a text operand would make MySQL
+        // compare both sides as doubles
+        return Prisma.sql`CAST(${value} AS DECIMAL(65,10))`;
+      case 'datetime':
+        return new Date(value as number)
+          .toISOString()
+          .replace('T', ' ')
+          .replace('Z', '');
+      case 'boolean':
+        return value ? 1 : 0;
+      default:
+        return value;
+    }
+  }
+
+  private escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+  }
+}
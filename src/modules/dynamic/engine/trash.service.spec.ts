@@ -0,0 +1,148 @@
+import { ConflictException } from '@nestjs/common';
+import { DynamicTrashService } from './trash.service';
+
+const customer = { id: 1, entityName: 'Customer', fields: [] };
+const order = { id: 2, entityName: 'Order', fields: [] };
+const customers = { entity: customer, fields: [] } as any;
+const orders = { entity: order, fields: [] } as any;
+
+describe('DynamicTrashService', () => {
+  let deleted: Map<string, any>;
+  let cascades: Map<string, any[]>;
+  let jobLease: any;
+  let databaseService: any;
+  let historyService: any;
+  let referenceService: any;
+  let relationService: any;
+  let metadataService: any;
+  let service: DynamicTrashService;
+
+  beforeEach(() => {
+    deleted = new Map([
+      ['c1', { id: 'c1', version: 2, data: {} }],
+      ['o1', { id: 'o1', version: 4, data: { customer: 'c1' } }],
+    ]);
+    cascades = new Map([['c1', [{ context: orders, recordId: 'o1' }]]]);
+
+    jobLease = {
+      create: jest.fn(),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+    };
+    databaseService = {
+      transaction: jest.fn(async (work: () => Promise<unknown>) => work()),
+      findDeletedOne: jest.fn(async (_context, id) => deleted.get(id) ?? null),
+      findDeleted: jest.fn(async () => ({ records: [], total: 0 })),
+      restore: jest.fn(async (_context, id) => {
+        const record = deleted.get(id);
+        deleted.delete(id);
+        return record.version + 1;
+      }),
+      findOne: jest.fn(async (_context, id) => ({ id, version: 3, data: {} })),
+      hardDelete: jest.fn(),
+    };
+    historyService = { snapshot: jest.fn(), discard: jest.fn() };
+    referenceService = {
+      validate: jest.fn(async () => []),
+      lockTargets: jest.fn(),
+      takeCascaded: jest.fn(async (_context, id) => cascades.get(id) ?? []),
+      discardCascades: jest.fn(),
+    };
+    relationService = { relinkRecord: jest.fn(), discardTrashedLinks: jest.fn() };
+    metadataService = { getAllEntities: jest.fn(async () => [customer]) };
+    const config = { get: jest.fn((_key: string, fallback: unknown) => fallback) };
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+    service = new DynamicTrashService(
+      { jobLease } as any,
+      databaseService,
+      historyService,
+      referenceService,
+      relationService,
+      metadataService,
+      config as any,
+      logger as any,
+    );
+  });
+
+  afterEach(() => service.onModuleDestroy());
+
+  describe('restore', () => {
+    it('brings back the links and the records the deletion cascaded to', async () => {
+      await service.restore(customers, 'c1', 'u1');
+
+      expect(databaseService.transaction).toHaveBeenCalledTimes(1);
+      expect(databaseService.restore.mock.calls).toEqual([
+        [customers, 'c1'],
+        [orders, 'o1'],
+      ]);
+      expect(relationService.relinkRecord.mock.calls).toEqual([
+        [customers, 'c1'],
+        [orders, 'o1'],
+      ]);
+      expect(historyService.snapshot).toHaveBeenCalledWith(
+        orders,
+        expect.objectContaining({ id: 'o1' }),
+        'restore',
+        { userId: 'u1' },
+      );
+      expect(referenceService.discardCascades).toHaveBeenCalledWith(customers, 'c1');
+    });
+
+    it('leaves out cascaded records no longer in the trash', async () => {
+      deleted.delete('o1');
+
+      await service.restore(customers, 'c1');
+
+      expect(databaseService.restore).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails with 409 when a cascaded record references a deleted record', async () => {
+      referenceService.validate.mockImplementation(async (context) =>
+        context === orders ? [{ field: 'product', code: 'REFERENCE' }] : [],
+      );
+
+      const request = service.restore(customers, 'c1');
+
+      await expect(request).rejects.toThrow(ConflictException);
+      await expect(request).rejects.toThrow(
+        'Record o1 of Order references records that no longer exist, restore them first',
+      );
+    });
+  });
+
+  describe('purge', () => {
+    it('forgets the links and cascades of a purged record', async () => {
+      await service.purge(customers, 'c1');
+
+      expect(relationService.discardTrashedLinks).toHaveBeenCalledWith(customers, 'c1');
+      expect(referenceService.discardCascades).toHaveBeenCalledWith(customers, 'c1');
+    });
+
+    it('purges expired records while holding the purge lease', async () => {
+      service.onApplicationBootstrap();
+      await new Promise(setImmediate);
+
+      expect(jobLease.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ name: 'trash-purge' }),
+      });
+      expect(databaseService.findDeleted).toHaveBeenCalled();
+    });
+
+    it('skips the run while another instance holds the lease', async () => {
+      jobLease.create.mockRejectedValue(Object.assign(new Error('Unique'), { code: 'P2002' }));
+      jobLease.updateMany.mockResolvedValue({ count: 0 });
+
+      service.onApplicationBootstrap();
+      await new Promise(setImmediate);
+
+      expect(jobLease.updateMany).toHaveBeenCalledWith({
+        where: {
+          name: 'trash-purge',
+          OR: [{ ownerId: expect.any(String) }, { expiresAt: { lt: expect.any(Date) } }],
+        },
+        data: expect.objectContaining({ expiresAt: expect.any(Date) }),
+      });
+      expect(metadataService.getAllEntities).not.toHaveBeenCalled();
+    });
+  });
+});
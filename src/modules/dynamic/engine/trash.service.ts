@@ -0,0 +1,323 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { MetadataService } from '@/modules/metadata/metadata.service';
+import {
+  DynamicRecordDto,
+  PaginatedResponseDto,
+} from '@/common/dtos/dynamic.dto';
+import { DatabaseService } from '../database/database.service';
+import { DynamicHistoryService } from './history.service';
+import { DynamicReferenceService } from './reference.service';
+import { DynamicRelationService } from './relation.service';
+import { DynamicEntityContext } from './query.types';
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const PURGE_BATCH_SIZE = 500;
+
+/**
+ * Lease in job_leases one instance holds while it purges. It outlasts a
+ * run, so the other instances skip the runs due meanwhile, and runs out
+ * before the holder's next one in case it stopped.
+ */
+const PURGE_LEASE = 'trash-purge';
+
+const PURGE_LEASE_MS = PURGE_INTERVAL_MS - 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lists, restores and permanently deletes soft-deleted records.
+ * Every hour, records deleted more than TRASH_RETENTION_DAYS ago are
+ * purged together with their versions; 0 keeps them forever. Of several
+ * instances, the one holding the purge lease purges.
+ */
+@Injectable()
+export class DynamicTrashService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly instanceId = randomUUID();
+  private purgeTimer: NodeJS.Timeout | null = null;
+  private purging = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly databaseService: DatabaseService,
+    private readonly historyService: DynamicHistoryService,
+    private readonly referenceService: DynamicReferenceService,
+    private readonly relationService: DynamicRelationService,
+    private readonly metadataService: MetadataService,
+    private readonly config: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const days = this.retentionDays();
+    if (!days) {
+      this.logger.log(
+        'Trash retention disabled, deleted records are kept',
+        'DynamicTrashService',
+      );
+      return;
+    }
+
+    this.purgeTimer = setInterval(() => this.purgeExpired(), PURGE_INTERVAL_MS);
+    this.purgeExpired();
+  }
+
+  onModuleDestroy(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+    }
+  }
+
+  /**
+   * Get a page of the deleted records of an entity, the latest deleted
+   * first
+   */
+  async getDeleted(
+    context: DynamicEntityContext,
+    page: number,
+    pageSize: number,
+  ): Promise<PaginatedResponseDto<DynamicRecordDto>> {
+    const { records, total } = await this.databaseService.findDeleted(
+      context,
+      { page, pageSize },
+    );
+
+    return {
+      data: records,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    };
+  }
+
+  /**
+   * Bring a deleted record back, keeping the restore as a version, with
+   * the links it had and the records its deletion cascaded to. Fails
+   * with 409 when a record one of them references has been deleted since.
+   */
+  async restore(
+    context: DynamicEntityContext,
+    recordId: string,
+    userId: string | null = null,
+  ): Promise<DynamicRecordDto> {
+    const deleted = await this.findDeletedRecord(context, recordId);
+    await this.assertRestorable(context, deleted);
+
+    const record = await this.databaseService.transaction(() =>
+      this.restoreRecord(context, deleted, userId),
+    );
+
+    this.logger.log(
+      `✓ Record restored in ${context.entity.entityName}: ${recordId}`,
+      'DynamicTrashService',
+    );
+    return record;
+  }
+
+  /**
+   * Remove a record, its versions and what its restore would bring back
+   * for good
+   */
+  async purge(context: DynamicEntityContext, recordId: string): Promise<void> {
+    await this.databaseService.transaction(async () => {
+      await this.databaseService.hardDelete(context, recordId);
+      await this.historyService.discard(context, recordId);
+      await this.relationService.discardTrashedLinks(context, recordId);
+      await this.referenceService.discardCascades(context, recordId);
+    });
+  }
+
+  /**
+   * Restore a deleted record, then the records its deletion cascaded to
+   * that are still in the trash
+   */
+  private async restoreRecord(
+    context: DynamicEntityContext,
+    deleted: DynamicRecordDto,
+    userId: string | null,
+  ): Promise<DynamicRecordDto> {
+    await this.referenceService.lockTargets(context, deleted.data);
+    await this.databaseService.restore(context, deleted.id);
+    const restored = await this.databaseService.findOne(context, deleted.id);
+    await this.historyService.snapshot(context, restored, 'restore', {
+      userId,
+    });
+    await this.relationService.relinkRecord(context, deleted.id);
+
+    const cascaded = await this.referenceService.takeCascaded(
+      context,
+      deleted.id,
+    );
+    await this.referenceService.discardCascades(context, deleted.id);
+
+    for (const ref of cascaded) {
+      const child = await this.databaseService.findDeletedOne(
+        ref.context,
+        ref.recordId,
+      );
+      if (child) {
+        await this.assertRestorable(ref.context, child);
+        await this.restoreRecord(ref.context, child, userId);
+      }
+    }
+
+    return restored;
+  }
+
+  private async assertRestorable(
+    context: DynamicEntityContext,
+    deleted: DynamicRecordDto,
+  ): Promise<void> {
+    const errors = await this.referenceService.validate(context, deleted.data);
+    if (errors.length) {
+      throw new ConflictException({
+        message: `Record ${deleted.id} of ${context.entity.entityName} references records that no longer exist, restore them first`,
+        errors,
+      });
+    }
+  }
+
+  /**
+   * Purge the records of every entity deleted before the retention period
+   */
+  private async purgeExpired(): Promise<void> {
+    if (this.purging) {
+      return;
+    }
+
+    this.purging = true;
+    const deletedBefore = new Date(Date.now() - this.retentionDays() * DAY_MS);
+
+    try {
+      if (!(await this.claimPurge())) {
+        return;
+      }
+
+      for (const entity of await this.metadataService.getAllEntities()) {
+        await this.purgeEntity(
+          { entity, fields: entity.fields ?? [] },
+          deletedBefore,
+        );
+        // A long purge keeps the lease from running out under it
+        if (!(await this.claimPurge())) {
+          return;
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        'Error purging the trash',
+        error.message,
+        'DynamicTrashService',
+      );
+    } finally {
+      this.purging = false;
+    }
+  }
+
+  private async purgeEntity(
+    context: DynamicEntityContext,
+    deletedBefore: Date,
+  ): Promise<void> {
+    let purged = 0;
+
+    try {
+      for (;;) {
+        const { records } = await this.databaseService.findDeleted(context, {
+          page: 1,
+          pageSize: PURGE_BATCH_SIZE,
+          deletedBefore,
+        });
+
+        for (const record of records) {
+          await this.purge(context, record.id);
+        }
+        purged += records.length;
+
+        if (records.length < PURGE_BATCH_SIZE) {
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error purging the trash of ${context.entity.entityName}`,
+        error.message,
+        'DynamicTrashService',
+      );
+    }
+
+    if (purged) {
+      this.logger.log(
+        `✓ Purged ${purged} deleted records of ${context.entity.entityName}`,
+        'DynamicTrashService',
+      );
+    }
+  }
+
+  /**
+   * Take or extend the purge lease, returning whether this instance holds
+   * it: when no one does, its holder's ran out, or it is this instance's
+   */
+  private async claimPurge(): Promise<boolean> {
+    const expiresAt = new Date(Date.now() + PURGE_LEASE_MS);
+
+    try {
+      await this.prisma.jobLease.create({
+        data: { name: PURGE_LEASE, ownerId: this.instanceId, expiresAt },
+      });
+      return true;
+    } catch (error) {
+      if (error?.code !== 'P2002') {
+        throw error;
+      }
+    }
+
+    const { count } = await this.prisma.jobLease.updateMany({
+      where: {
+        name: PURGE_LEASE,
+        OR: [{ ownerId: this.instanceId }, { expiresAt: { lt: new Date() } }],
+      },
+      data: { ownerId: this.instanceId, expiresAt },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Get a deleted record, failing with 404 when it isn't in the trash
+   */
+  private async findDeletedRecord(
+    context: DynamicEntityContext,
+    recordId: string,
+  ): Promise<DynamicRecordDto> {
+    const record = await this.databaseService.findDeletedOne(context, recordId);
+
+    if (!record) {
+      throw new NotFoundException(
+        `Record ${recordId} not found in the trash of ${context.entity.entityName}`,
+      );
+    }
+
+    return record;
+  }
+
+  private retentionDays(): number {
+    const days = Number(
+      this.config.get('TRASH_RETENTION_DAYS', DEFAULT_RETENTION_DAYS),
+    );
+    return Number.isFinite(days) && days > 0 ? days : 0;
+  }
+}
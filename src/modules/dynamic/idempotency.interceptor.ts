@@ -0,0 +1,117 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { createHash } from 'crypto';
+import { Observable, of } from 'rxjs';
+import { catchError, finalize, mergeMap } from 'rxjs/operators';
+import { DynamicIdempotencyService } from './engine/idempotency.service';
+
+const IDEMPOTENT_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Runs a write sent with an Idempotency-Key header once: retries of the
+ * same request get the stored response, marked with Idempotent-Replayed.
+ * Failed requests aren't stored and can be retried with the same key.
+ * Keys are scoped to the calling user (X-User-Id), method and path, so
+ * callers can't collide on or replay each other's keys.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly idempotency: DynamicIdempotencyService) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+    const key = request.header('idempotency-key');
+
+    if (key === undefined || !IDEMPOTENT_METHODS.includes(request.method)) {
+      return next.handle();
+    }
+    if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency-Key must have 1 to ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    const scopedKey = this.scopedKey(request, key);
+    const claimedAt = new Date();
+    const stored = await this.idempotency.begin(
+      scopedKey,
+      this.fingerprint(request),
+      claimedAt,
+    );
+    if (stored) {
+      if (stored.etag) {
+        response.setHeader('ETag', stored.etag);
+      }
+      response.setHeader('Idempotent-Replayed', 'true');
+      return of(stored.body);
+    }
+
+    const stopRenewing = this.idempotency.keepAlive(scopedKey, claimedAt);
+
+    return next.handle().pipe(
+      mergeMap(async (body) => {
+        const etag = response.getHeader('ETag');
+        await this.idempotency.complete(
+          scopedKey,
+          claimedAt,
+          body,
+          typeof etag === 'string' ? etag : undefined,
+        );
+        return body;
+      }),
+      catchError(async (error) => {
+        await this.idempotency.release(scopedKey, claimedAt);
+        throw error;
+      }),
+      finalize(stopRenewing),
+    );
+  }
+
+  /**
+   * Hash of the key with the caller and route using it
+   */
+  private scopedKey(request: Request, key: string): string {
+    return createHash('sha256')
+      .update(
+        JSON.stringify([
+          request.header('x-user-id') ?? null,
+          request.method,
+          request.path,
+          key,
+        ]),
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Hash of what makes two requests the same: method, URL, the headers
+   * changing what a write does, and body
+   */
+  private fingerprint(request: Request): string {
+    return createHash('sha256')
+      .update(
+        JSON.stringify([
+          request.method,
+          request.originalUrl,
+          request.header('content-type') ?? null,
+          request.header('if-match') ?? null,
+          request.header('x-user-id') ?? null,
+          request.body ?? null,
+        ]),
+      )
+      .digest('hex');
+  }
+}
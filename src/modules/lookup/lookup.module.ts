@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 import { CoreModule } from '@/core/core.module';
 import { MetadataModule } from '@/modules/metadata/metadata.module';
+import { DatabaseModule } from '@/modules/dynamic/database/database.module';
 import { LookupService } from './lookup.service';
 import { LookupController } from './lookup.controller';
 
 @Module({
-  imports: [CoreModule, MetadataModule],
+  imports: [CoreModule, MetadataModule, DatabaseModule],
   controllers: [LookupController],
   providers: [LookupService],
   exports: [LookupService],
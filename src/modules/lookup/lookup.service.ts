@@ -1,7 +1,7 @@
 import { Injectable } from '@nestjs/common';
-import { PrismaService } from '@/core/database/prisma.service';
 import { LoggerService } from '@/core/logger/logger.service';
 import { MetadataService } from '@/modules/metadata/metadata.service';
+import { DatabaseService } from '@/modules/dynamic/database/database.service';
 import { LookupResponseDto, LookupValueDto } from '@/common/dtos/dynamic.dto';
 
 /**
@@ -13,7 +13,7 @@ export class LookupService {
   private lookupImplementations: Map<string, (records: any[]) => LookupValueDto[]> = new Map();
 
   constructor(
-    private prisma: PrismaService,
+    private databaseService: DatabaseService,
     private metadataService: MetadataService,
     private logger: LoggerService,
   ) {
@@ -53,16 +53,16 @@ export class LookupService {
     try {
       const entity = await this.metadataService.getEntityByName(entityName);
 
-      // Get all records
-      const records = await this.prisma.dynamicRecord.findMany({
-        where: { entityId: entity.id, isDeleted: false },
-        take: 1000, // Limit to 1000 for dropdown performance
-      });
+      // Get all records from the entity's database
+      const { records } = await this.databaseService.findMany(
+        { entity, fields: entity.fields ?? [] },
+        { page: 1, pageSize: 1000 }, // Limit to 1000 for dropdown performance
+      );
 
-      // Parse record data
+      // Flatten record data
       const parsedRecords = records.map((r) => ({
         id: r.id,
-        ...JSON.parse(r.data),
+        ...r.data,
       }));
 
       // Use entity-specific lookup implementation if available
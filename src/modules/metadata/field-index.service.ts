@@ -0,0 +1,312 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '@/core/database/prisma.service';
+import { MongoDBService } from '@/core/database/mongodb.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import {
+  addIndexedColumnSql,
+  addUniqueColumnSql,
+  dropIndexedColumnSql,
+  dropUniqueColumnSql,
+  indexedColumnType,
+  fieldValueSql,
+  indexedColumnName,
+  JsonFieldRef,
+  MAX_INDEXED_STRING_LENGTH,
+} from '@/core/database/mysql-json';
+import { uniqueConstraintName } from '@/core/database/unique-constraint';
+
+/**
+ * Secondary indexes InnoDB allows on one table
+ */
+const MAX_SECONDARY_INDEXES = 64;
+
+interface IndexableField extends JsonFieldRef {
+  isIndexed?: boolean;
+  isUnique?: boolean;
+  isDeleted?: boolean;
+}
+
+/**
+ * Service maintaining the indexes of fields flagged as indexed, so filters
+ * and sorts on them can use an index instead of scanning every record of
+ * the entity, and the unique constraints of fields flagged as unique, in
+ * the database the entity is routed to: generated columns on
+ * dynamic_records in `mysql`, partial indexes in `mongodb`
+ */
+@Injectable()
+export class FieldIndexService {
+  constructor(
+    private prisma: PrismaService,
+    private mongoDb: MongoDBService,
+    private logger: LoggerService,
+  ) {}
+
+  /**
+   * Reject index settings that can't be turned into a generated column
+   */
+  assertIndexable(field: IndexableField): void {
+    if (!field.isIndexed && !field.isUnique) {
+      return;
+    }
+
+    if (
+      field.fieldType === 'string' &&
+      (!field.maxLength || field.maxLength > MAX_INDEXED_STRING_LENGTH)
+    ) {
+      throw new BadRequestException(
+        `Indexed or unique string field '${field.fieldName}' needs a maxLength of at most ${MAX_INDEXED_STRING_LENGTH}`,
+      );
+    }
+  }
+
+  /**
+   * Bring the generated columns and indexes of a field in line with its
+   * definition.
+   * Pass null as `previous` for a new field and as `next` for a removed one.
+   */
+  async sync(
+    previous: IndexableField | null,
+    next: IndexableField | null,
+    backend: string,
+  ): Promise<void> {
+    await this.syncIndex(previous, next, backend);
+    await this.syncUniqueConstraint(previous, next, backend);
+  }
+
+  /**
+   * Create the index of an indexed field in a backend where it is missing
+   */
+  async ensureIndexed(field: IndexableField, backend: string): Promise<void> {
+    if (backend === 'mongodb') {
+      await this.createMongoIndex(field);
+    } else if (!(await this.hasColumn(indexedColumnName(field.id)))) {
+      await this.assertIndexCapacity(field);
+      await this.execute(field, addIndexedColumnSql(field));
+    }
+  }
+
+  /**
+   * Remove the index of a field from a backend, if it has one
+   */
+  async dropIndexed(field: IndexableField, backend: string): Promise<void> {
+    if (backend === 'mongodb') {
+      await this.dropMongoIndex(field, indexedColumnName(field.id));
+    } else if (await this.hasColumn(indexedColumnName(field.id))) {
+      await this.execute(field, dropIndexedColumnSql(field));
+    }
+  }
+
+  /**
+   * Create the unique constraint of a unique field in a backend where it
+   * is missing
+   */
+  async ensureUnique(field: IndexableField, backend: string): Promise<void> {
+    if (backend === 'mongodb') {
+      // createIndex is a no-op for an existing identical index
+      await this.createMongoUniqueIndex(field);
+    } else if (!(await this.hasColumn(uniqueConstraintName(field.id)))) {
+      await this.assertIndexCapacity(field);
+      await this.execute(field, addUniqueColumnSql(field));
+    }
+  }
+
+  /**
+   * Remove the unique constraint of a field from a backend, if it has one
+   */
+  async dropUnique(field: IndexableField, backend: string): Promise<void> {
+    if (backend === 'mongodb') {
+      await this.dropMongoIndex(field, uniqueConstraintName(field.id));
+    } else if (await this.hasColumn(uniqueConstraintName(field.id))) {
+      await this.execute(field, dropUniqueColumnSql(field));
+    }
+  }
+
+  private async hasColumn(name: string): Promise<boolean> {
+    const [{ found }] = await this.prisma.$queryRaw<{ found: bigint }[]>`
+      SELECT COUNT(*) AS found FROM information_schema.COLUMNS
+      WHERE TABLE_SCHEMA = DATABASE()
+        AND TABLE_NAME = 'dynamic_records'
+        AND COLUMN_NAME = ${name}`;
+
+    return Number(found) > 0;
+  }
+
+  private async syncIndex(
+    previous: IndexableField | null,
+    next: IndexableField | null,
+    backend: string,
+  ): Promise<void> {
+    const wasIndexed = !!previous?.isIndexed && !previous.isDeleted;
+    const isIndexed = !!next?.isIndexed && !next.isDeleted;
+    const changed =
+      wasIndexed &&
+      isIndexed &&
+      this.columnDefinition(previous) !== this.columnDefinition(next);
+
+    if (wasIndexed && (!isIndexed || changed)) {
+      await this.dropIndexed(previous, backend);
+      this.logger.log(
+        `✓ Index dropped for field: ${previous.fieldName}`,
+        'FieldIndexService',
+      );
+    }
+
+    if (isIndexed && (!wasIndexed || changed)) {
+      await this.ensureIndexed(next, backend);
+      this.logger.log(
+        `✓ Index created for field: ${next.fieldName}`,
+        'FieldIndexService',
+      );
+    }
+  }
+
+  private async syncUniqueConstraint(
+    previous: IndexableField | null,
+    next: IndexableField | null,
+    backend: string,
+  ): Promise<void> {
+    const wasUnique = !!previous?.isUnique && !previous.isDeleted;
+    const isUnique = !!next?.isUnique && !next.isDeleted;
+    const changed =
+      wasUnique &&
+      isUnique &&
+      this.columnDefinition(previous) !== this.columnDefinition(next);
+
+    if (wasUnique && (!isUnique || changed)) {
+      await this.dropUnique(previous, backend);
+      this.logger.log(
+        `✓ Unique constraint dropped for field: ${previous.fieldName}`,
+        'FieldIndexService',
+      );
+    }
+
+    if (isUnique && (!wasUnique || changed)) {
+      await this.ensureUnique(next, backend);
+      this.logger.log(
+        `✓ Unique constraint created for field: ${next.fieldName}`,
+        'FieldIndexService',
+      );
+    }
+  }
+
+  /**
+   * Reject another index once dynamic_records holds as many secondary
+   * indexes as InnoDB allows. The table is shared by every entity in
+   * json storage mode, so the limit is deployment-wide.
+   */
+  private async assertIndexCapacity(field: IndexableField): Promise<void> {
+    const [{ used }] = await this.prisma.$queryRaw<{ used: bigint }[]>`
+      SELECT COUNT(DISTINCT INDEX_NAME) AS used FROM information_schema.STATISTICS
+      WHERE TABLE_SCHEMA = DATABASE()
+        AND TABLE_NAME = 'dynamic_records'
+        AND INDEX_NAME <> 'PRIMARY'`;
+
+    if (Number(used) >= MAX_SECONDARY_INDEXES) {
+      this.logger.warn(
+        `dynamic_records holds ${Number(used)} secondary indexes, cannot index field: ${field.fieldName}`,
+        'FieldIndexService',
+      );
+      throw new BadRequestException(
+        `Cannot index field '${field.fieldName}': dynamic_records already holds the maximum of ${MAX_SECONDARY_INDEXES} secondary indexes. ` +
+          `Remove isIndexed or isUnique from fields that don't need them, or create entities needing many indexed fields in physical storage mode`,
+      );
+    }
+  }
+
+  /**
+   * Partial unique index over the entity's live records holding a value of
+   * the field type. The field id key never exists on documents, it only
+   * keeps the key pattern distinct from other entities' fields of the
+   * same name.
+   */
+  private async createMongoUniqueIndex(field: IndexableField): Promise<void> {
+    const path = `data.${field.fieldName}`;
+
+    try {
+      await this.mongoDb.getCollection('dynamic_records').createIndex(
+        { entityId: 1, [path]: 1, [`_${uniqueConstraintName(field.id)}`]: 1 },
+        {
+          name: uniqueConstraintName(field.id),
+          unique: true,
+          partialFilterExpression: {
+            entityId: field.entityId,
+            isDeleted: false,
+            [path]: { $type: this.mongoType(field) },
+          },
+        },
+      );
+    } catch (error) {
+      this.fail(field, error);
+    }
+  }
+
+  /**
+   * Index over the entity's live records serving filters on the field and
+   * sorts by it, keyed like the unique index
+   */
+  private async createMongoIndex(field: IndexableField): Promise<void> {
+    const name = indexedColumnName(field.id);
+
+    try {
+      await this.mongoDb.getCollection('dynamic_records').createIndex(
+        {
+          entityId: 1,
+          isDeleted: 1,
+          [`data.${field.fieldName}`]: 1,
+          [`_${name}`]: 1,
+        },
+        { name, partialFilterExpression: { entityId: field.entityId } },
+      );
+    } catch (error) {
+      this.fail(field, error);
+    }
+  }
+
+  private async dropMongoIndex(
+    field: IndexableField,
+    name: string,
+  ): Promise<void> {
+    try {
+      await this.mongoDb.getCollection('dynamic_records').dropIndex(name);
+    } catch (error) {
+      // Already gone
+      if (error.codeName !== 'IndexNotFound') {
+        this.fail(field, error);
+      }
+    }
+  }
+
+  private mongoType(field: IndexableField): string {
+    switch (field.fieldType) {
+      case 'integer':
+        return 'number';
+      case 'boolean':
+        return 'bool';
+      default:
+        return 'string';
+    }
+  }
+
+  private columnDefinition(field: IndexableField): string {
+    return `${indexedColumnType(field)} ${fieldValueSql(field)}`;
+  }
+
+  private async execute(field: IndexableField, sql: string): Promise<void> {
+    try {
+      await this.prisma.$executeRawUnsafe(sql);
+    } catch (error) {
+      this.fail(field, error);
+    }
+  }
+
+  private fail(field: IndexableField, error: any): never {
+    this.logger.error(
+      `Error updating index for field ${field.fieldName}`,
+      error.message,
+      'FieldIndexService',
+    );
+    throw new BadRequestException(
+      `Could not update index for field '${field.fieldName}': ${error.message}`,
+    );
+  }
+}
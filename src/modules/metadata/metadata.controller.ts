@@ -6,6 +6,7 @@ import {
   Delete,
   Body,
   Param,
+  Query,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
@@ -14,19 +15,26 @@ import {
   ApiOperation,
   ApiResponse,
   ApiParam,
+  ApiQuery,
 } from '@nestjs/swagger';
 import { MetadataService } from './metadata.service';
+import { RelationshipService } from './relationship.service';
 import {
   CreateEntityDefinitionDto,
   CreateFieldDefinitionDto,
+  CreateRelationshipDefinitionDto,
   EntityDefinitionDto,
   FieldDefinitionDto,
+  RelationshipDefinitionDto,
 } from '@/common/dtos/metadata.dto';
 
 @Controller('metadata')
 @ApiTags('Metadata')
 export class MetadataController {
-  constructor(private metadataService: MetadataService) {}
+  constructor(
+    private metadataService: MetadataService,
+    private relationshipService: RelationshipService,
+  ) {}
 
   /**
    * Get all entity definitions
@@ -285,4 +293,114 @@ export class MetadataController {
   async deleteField(@Param('id') id: number): Promise<void> {
     return this.metadataService.deleteField(Number(id));
   }
+
+  /**
+   * Get relationships
+   */
+  @Get('relationships')
+  @ApiOperation({
+    summary: 'Get relationships',
+    description: 'Retrieve many-to-many relationships, optionally only those of one entity',
+  })
+  @ApiQuery({
+    name: 'entityId',
+    type: Number,
+    required: false,
+    description: 'Only relationships with this entity on either side',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of relationships',
+    type: [RelationshipDefinitionDto],
+  })
+  async getRelationships(
+    @Query('entityId') entityId?: string,
+  ): Promise<RelationshipDefinitionDto[]> {
+    return this.relationshipService.getRelationships(
+      entityId ? Number(entityId) : undefined,
+    );
+  }
+
+  /**
+   * Get relationship by ID
+   */
+  @Get('relationships/:id')
+  @ApiOperation({
+    summary: 'Get relationship by ID',
+    description: 'Retrieve a specific relationship',
+  })
+  @ApiParam({
+    name: 'id',
+    type: Number,
+    description: 'Relationship ID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Relationship details',
+    type: RelationshipDefinitionDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Relationship not found',
+  })
+  async getRelationshipById(
+    @Param('id') id: number,
+  ): Promise<RelationshipDefinitionDto> {
+    return this.relationshipService.getRelationshipById(Number(id));
+  }
+
+  /**
+   * Create relationship
+   */
+  @Post('relationships')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create relationship',
+    description:
+      'Create a many-to-many relationship between two entities, named on each side (e.g. Product.tags and Tag.products)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Relationship created successfully',
+    type: RelationshipDefinitionDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entity not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Relation name already used on the entity',
+  })
+  async createRelationship(
+    @Body() dto: CreateRelationshipDefinitionDto,
+  ): Promise<RelationshipDefinitionDto> {
+    return this.relationshipService.createRelationship(dto);
+  }
+
+  /**
+   * Delete relationship
+   */
+  @Delete('relationships/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete relationship',
+    description: 'Soft delete a relationship definition',
+  })
+  @ApiParam({
+    name: 'id',
+    type: Number,
+    description: 'Relationship ID',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Relationship deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Relationship not found',
+  })
+  async deleteRelationship(@Param('id') id: number): Promise<void> {
+    return this.relationshipService.deleteRelationship(Number(id));
+  }
 }
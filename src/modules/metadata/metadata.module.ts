@@ -1,12 +1,21 @@
 import { Module } from '@nestjs/common';
 import { CoreModule } from '@/core/core.module';
+import { DatabaseModule } from '@/modules/dynamic/database/database.module';
 import { MetadataService } from './metadata.service';
 import { MetadataController } from './metadata.controller';
+import { FieldIndexService } from './field-index.service';
+import { TableSchemaService } from './table-schema.service';
+import { RelationshipService } from './relationship.service';
 
 @Module({
-  imports: [CoreModule],
+  imports: [CoreModule, DatabaseModule],
   controllers: [MetadataController],
-  providers: [MetadataService],
-  exports: [MetadataService],
+  providers: [
+    MetadataService,
+    FieldIndexService,
+    TableSchemaService,
+    RelationshipService,
+  ],
+  exports: [MetadataService, RelationshipService],
 })
 export class MetadataModule {}
@@ -3,6 +3,7 @@ import {
   BadRequestException,
   NotFoundException,
   ConflictException,
+  OnApplicationBootstrap,
 } from '@nestjs/common';
 import { PrismaService } from '@/core/database/prisma.service';
 import { LoggerService } from '@/core/logger/logger.service';
@@ -12,18 +13,83 @@ import {
   EntityDefinitionDto,
   FieldDefinitionDto,
 } from '@/common/dtos/metadata.dto';
+import { FieldIndexService } from './field-index.service';
+import { TableSchemaService } from './table-schema.service';
+import { DatabaseService } from '@/modules/dynamic/database/database.service';
+import { defaultValueError } from '@/modules/dynamic/engine/field-defaults';
 
 /**
  * Service for managing entity and field definitions
  * Mirrors the .NET MetadataService
  */
 @Injectable()
-export class MetadataService {
+export class MetadataService implements OnApplicationBootstrap {
   constructor(
     private prisma: PrismaService,
     private logger: LoggerService,
+    private fieldIndexService: FieldIndexService,
+    private tableSchemaService: TableSchemaService,
+    private databaseService: DatabaseService,
   ) {}
 
+  /**
+   * Add the version and deletion time columns to physical tables created
+   * before records had them, and create indexes and unique constraints missing for fields
+   * marked indexed or unique before they were enforced or seeded straight
+   * into field_definitions
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      const physicalEntities = await this.prisma.entityDefinition.findMany({
+        where: { storageMode: 'physical', isDeleted: false },
+      });
+
+      for (const entity of physicalEntities) {
+        await this.tableSchemaService.ensureVersionColumn(entity.tableName);
+        await this.tableSchemaService.ensureDeletedAtColumn(entity.tableName);
+      }
+    } catch (error) {
+      this.logger.error(
+        'Error adding record version and deletion time columns',
+        error.message,
+        'MetadataService',
+      );
+    }
+
+    try {
+      const fields = await this.prisma.fieldDefinition.findMany({
+        where: {
+          OR: [{ isUnique: true }, { isIndexed: true }],
+          isDeleted: false,
+          entity: { isDeleted: false },
+        },
+        include: { entity: true },
+      });
+
+      for (const field of fields) {
+        if (field.entity.storageMode === 'physical') {
+          if (field.isUnique) {
+            await this.tableSchemaService.ensureUnique(field.entity.tableName, field);
+          }
+          continue;
+        }
+        const backend = this.backendOf(field.entity);
+        if (field.isIndexed) {
+          await this.fieldIndexService.ensureIndexed(field, backend);
+        }
+        if (field.isUnique) {
+          await this.fieldIndexService.ensureUnique(field, backend);
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        'Error creating field indexes',
+        error.message,
+        'MetadataService',
+      );
+    }
+  }
+
   /**
    * Get all entity definitions
    */
@@ -115,17 +181,44 @@ export class MetadataService {
       );
     }
 
+    const tableName = dto.tableName || dto.entityName;
+    const storageMode = dto.storageMode || 'json';
+    const storageBackend = dto.storageBackend || null;
+    const unknownFieldPolicy = dto.unknownFieldPolicy || 'strip';
+
+    this.assertStorageBackend(storageBackend, storageMode);
+    this.assertUnknownFieldPolicy(unknownFieldPolicy, storageMode);
+
+    if (storageMode === 'physical') {
+      this.tableSchemaService.assertTableName(tableName);
+    }
+
     try {
       const entity = await this.prisma.entityDefinition.create({
         data: {
           entityName: dto.entityName,
           displayName: dto.displayName,
-          tableName: dto.tableName || dto.entityName,
+          tableName,
           description: dto.description,
+          storageMode,
+          storageBackend,
+          coercionMode: dto.coercionMode || 'lenient',
+          unknownFieldPolicy,
         },
         include: { fields: true },
       });
 
+      if (storageMode === 'physical') {
+        try {
+          await this.tableSchemaService.createTable(tableName);
+        } catch (error) {
+          await this.prisma.entityDefinition.delete({
+            where: { id: entity.id },
+          });
+          throw error;
+        }
+      }
+
       this.logger.log(
         `✓ Entity created: ${entity.entityName}`,
         'MetadataService',
@@ -164,6 +257,47 @@ export class MetadataService {
       }
     }
 
+    if (dto.storageMode && dto.storageMode !== entity.storageMode) {
+      throw new BadRequestException(
+        `Storage mode of entity '${entity.entityName}' cannot be changed`,
+      );
+    }
+
+    if (dto.unknownFieldPolicy) {
+      this.assertUnknownFieldPolicy(dto.unknownFieldPolicy, entity.storageMode);
+    }
+
+    if (dto.storageBackend !== undefined) {
+      this.assertStorageBackend(dto.storageBackend || null, entity.storageMode);
+      await this.assertBackendSwitchable(entity, dto.storageBackend || null);
+    }
+
+    // Field indexes and unique constraints follow the records of an (empty)
+    // entity switched to another backend: created there first, dropped
+    // from the old one once the switch is saved
+    const [previousBackend, nextBackend] =
+      dto.storageBackend !== undefined && entity.storageMode !== 'physical'
+        ? [
+            this.backendOf(entity),
+            this.backendOf({ ...entity, storageBackend: dto.storageBackend || null }),
+          ]
+        : [null, null];
+    if (nextBackend !== previousBackend) {
+      await this.ensureFieldIndexes(entity, nextBackend);
+    }
+
+    if (
+      entity.storageMode === 'physical' &&
+      dto.tableName &&
+      dto.tableName !== entity.tableName
+    ) {
+      this.tableSchemaService.assertTableName(dto.tableName);
+      await this.tableSchemaService.renameTable(
+        entity.tableName,
+        dto.tableName,
+      );
+    }
+
     try {
       const updated = await this.prisma.entityDefinition.update({
         where: { id },
@@ -172,6 +306,13 @@ export class MetadataService {
           ...(dto.displayName && { displayName: dto.displayName }),
           ...(dto.tableName && { tableName: dto.tableName }),
           ...(dto.description !== undefined && { description: dto.description }),
+          ...(dto.storageBackend !== undefined && {
+            storageBackend: dto.storageBackend || null,
+          }),
+          ...(dto.coercionMode && { coercionMode: dto.coercionMode }),
+          ...(dto.unknownFieldPolicy && {
+            unknownFieldPolicy: dto.unknownFieldPolicy,
+          }),
         },
         include: {
           fields: {
@@ -181,6 +322,10 @@ export class MetadataService {
         },
       });
 
+      if (nextBackend !== previousBackend) {
+        await this.dropFieldIndexes(updated, previousBackend);
+      }
+
       this.logger.log(`✓ Entity updated: ${updated.entityName}`, 'MetadataService');
       return updated;
     } catch (error) {
@@ -194,18 +339,209 @@ export class MetadataService {
   }
 
   /**
-   * Soft delete entity (mark as deleted)
+   * Resolve the target entity and on-delete behaviour of a reference field;
+   * other field types have neither
+   */
+  private async referenceSettings(field: {
+    fieldType: string;
+    isRequired?: boolean;
+    referenceEntityId?: number | null;
+    onDelete?: string | null;
+  }): Promise<{ referenceEntityId: number | null; onDelete: string | null }> {
+    if (field.fieldType !== 'reference') {
+      return { referenceEntityId: null, onDelete: null };
+    }
+
+    if (!field.referenceEntityId) {
+      throw new BadRequestException(
+        'Reference fields need a referenceEntityId',
+      );
+    }
+
+    const target = await this.prisma.entityDefinition.findFirst({
+      where: { id: field.referenceEntityId, isDeleted: false },
+    });
+    if (!target) {
+      throw new BadRequestException(
+        `Referenced entity with ID ${field.referenceEntityId} not found`,
+      );
+    }
+
+    const onDelete = field.onDelete || 'restrict';
+    if (onDelete === 'setNull' && field.isRequired) {
+      throw new BadRequestException(
+        'Required reference fields cannot use onDelete setNull',
+      );
+    }
+
+    return { referenceEntityId: target.id, onDelete };
+  }
+
+  /**
+   * Physical tables only have columns for defined fields
+   */
+  private assertUnknownFieldPolicy(
+    unknownFieldPolicy: string,
+    storageMode: string,
+  ): void {
+    if (storageMode === 'physical' && unknownFieldPolicy === 'store') {
+      throw new BadRequestException(
+        "Entities in physical storage mode can't store unknown fields",
+      );
+    }
+  }
+
+  /**
+   * Reject defaults that aren't a value of the field type
+   */
+  private assertDefaultValue(
+    fieldType: string,
+    defaultValue: string | null | undefined,
+  ): void {
+    if (defaultValue === null || defaultValue === undefined) {
+      return;
+    }
+
+    const error = defaultValueError(fieldType, defaultValue);
+    if (error) {
+      throw new BadRequestException(`Invalid default value: ${error}`);
+    }
+  }
+
+  /**
+   * Reject storage backends that have no registered adapter
+   */
+  private assertStorageBackend(
+    storageBackend: string | null,
+    storageMode: string,
+  ): void {
+    if (!storageBackend) {
+      return;
+    }
+
+    const available = this.databaseService.getAvailableAdapters();
+    if (!available.includes(storageBackend)) {
+      throw new BadRequestException(
+        `Storage backend '${storageBackend}' is not available (available: ${available.join(', ')})`,
+      );
+    }
+
+    if (storageMode === 'physical' && storageBackend !== 'mysql') {
+      throw new BadRequestException(
+        'Entities in physical storage mode must use the mysql storage backend',
+      );
+    }
+  }
+
+  /**
+   * Create the indexes and unique constraints of an entity's fields in a
+   * backend, before its records are moved there
+   */
+  async ensureFieldIndexes(
+    entity: EntityDefinitionDto,
+    backend: string,
+  ): Promise<void> {
+    for (const field of entity.fields ?? []) {
+      if (field.isIndexed) {
+        await this.fieldIndexService.ensureIndexed(field, backend);
+      }
+      if (field.isUnique) {
+        await this.fieldIndexService.ensureUnique(field, backend);
+      }
+    }
+  }
+
+  /**
+   * Remove the indexes and unique constraints of an entity's fields from
+   * a backend the entity has left
+   */
+  async dropFieldIndexes(
+    entity: EntityDefinitionDto,
+    backend: string,
+  ): Promise<void> {
+    for (const field of entity.fields ?? []) {
+      if (field.isIndexed) {
+        await this.fieldIndexService.dropIndexed(field, backend);
+      }
+      if (field.isUnique) {
+        await this.fieldIndexService.dropUnique(field, backend);
+      }
+    }
+  }
+
+  /**
+   * Database a JSON-mode entity's records are routed to
+   */
+  private backendOf(entity: EntityDefinitionDto): string {
+    return this.databaseService.getEntityRouting({ entity, fields: [] }).database;
+  }
+
+  /**
+   * Records are not copied between databases, so an entity can only be
+   * switched to another backend while its current one holds no records
+   */
+  private async assertBackendSwitchable(
+    entity: EntityDefinitionDto,
+    storageBackend: string | null,
+  ): Promise<void> {
+    const current = { entity, fields: entity.fields ?? [] };
+    const next = { ...current, entity: { ...entity, storageBackend } };
+
+    const from = this.databaseService.getEntityRouting(current).database;
+    const to = this.databaseService.getEntityRouting(next).database;
+    if (from === to) {
+      return;
+    }
+
+    const total = await this.databaseService.count(current);
+    if (total > 0) {
+      throw new ConflictException(
+        `Entity '${entity.entityName}' has ${total} records in ${from}; move them with POST /api/migrations instead`,
+      );
+    }
+  }
+
+  /**
+   * Soft delete entity (mark as deleted) and drop the indexes and unique
+   * constraints of its fields
    */
   async deleteEntity(id: number): Promise<void> {
     this.logger.debug(`Deleting entity ${id}`, 'MetadataService');
 
     const entity = await this.getEntityById(id);
 
+    const referencing = (await this.getReferencingFields(id)).filter(
+      (f) => f.entityId !== id,
+    );
+    if (referencing.length) {
+      throw new ConflictException(
+        `Entity '${entity.entityName}' is referenced by ${referencing
+          .map((f) => `${f.entity.entityName}.${f.fieldName}`)
+          .join(', ')}`,
+      );
+    }
+
     try {
-      await this.prisma.entityDefinition.update({
-        where: { id },
-        data: { isDeleted: true },
-      });
+      await this.prisma.$transaction([
+        this.prisma.entityDefinition.update({
+          where: { id },
+          data: { isDeleted: true },
+        }),
+        this.prisma.relationshipDefinition.updateMany({
+          where: { OR: [{ sourceEntityId: id }, { targetEntityId: id }] },
+          data: { isDeleted: true },
+        }),
+      ]);
+
+      // The generated columns of its fields would otherwise stay on
+      // dynamic_records, counting toward the indexes the table allows
+      if (entity.storageMode !== 'physical') {
+        const backend = this.backendOf(entity);
+        for (const field of entity.fields ?? []) {
+          await this.fieldIndexService.dropIndexed(field, backend);
+          await this.fieldIndexService.dropUnique(field, backend);
+        }
+      }
 
       this.logger.log(`✓ Entity deleted: ${entity.entityName}`, 'MetadataService');
     } catch (error) {
@@ -252,6 +588,32 @@ export class MetadataService {
     return fields;
   }
 
+  /**
+   * Get the reference fields pointing to an entity, with their entity
+   */
+  async getReferencingFields(
+    entityId: number,
+  ): Promise<(FieldDefinitionDto & { entity: EntityDefinitionDto })[]> {
+    return this.prisma.fieldDefinition.findMany({
+      where: {
+        referenceEntityId: entityId,
+        fieldType: 'reference',
+        isDeleted: false,
+        entity: { isDeleted: false },
+      },
+      include: {
+        entity: {
+          include: {
+            fields: {
+              where: { isDeleted: false },
+              orderBy: { displayOrder: 'asc' },
+            },
+          },
+        },
+      },
+    });
+  }
+
   /**
    * Create field definition
    */
@@ -264,7 +626,7 @@ export class MetadataService {
     );
 
     // Verify entity exists
-    await this.getEntityById(dto.entityId);
+    const entity = await this.getEntityById(dto.entityId);
 
     // Check if field already exists for this entity
     const existing = await this.prisma.fieldDefinition.findFirst({
@@ -277,6 +639,15 @@ export class MetadataService {
       );
     }
 
+    this.assertDefaultValue(dto.fieldType, dto.defaultValue);
+    const reference = await this.referenceSettings(dto);
+    if (entity.storageMode === 'physical') {
+      this.tableSchemaService.assertColumnName(dto.fieldName);
+      this.tableSchemaService.assertUniqueColumn(dto);
+    } else {
+      this.fieldIndexService.assertIndexable(dto);
+    }
+
     try {
       const field = await this.prisma.fieldDefinition.create({
         data: {
@@ -292,9 +663,18 @@ export class MetadataService {
           defaultValue: dto.defaultValue,
           options: dto.options,
           displayOrder: dto.displayOrder || 0,
+          isIndexed: dto.isIndexed || false,
+          ...reference,
         },
       });
 
+      try {
+        await this.syncFieldStorage(entity, null, field);
+      } catch (error) {
+        await this.prisma.fieldDefinition.delete({ where: { id: field.id } });
+        throw error;
+      }
+
       this.logger.log(`✓ Field created: ${field.fieldName}`, 'MetadataService');
       return field;
     } catch (error) {
@@ -324,6 +704,30 @@ export class MetadataService {
       throw new NotFoundException(`Field with ID ${id} not found`);
     }
 
+    const entity = await this.getEntityById(field.entityId);
+    const next = {
+      ...field,
+      ...(dto.fieldType && { fieldType: dto.fieldType }),
+      ...(dto.maxLength !== undefined && { maxLength: dto.maxLength }),
+      ...(dto.options !== undefined && { options: dto.options }),
+      ...(dto.isIndexed !== undefined && { isIndexed: dto.isIndexed }),
+      ...(dto.isUnique !== undefined && { isUnique: dto.isUnique }),
+      ...(dto.defaultValue !== undefined && { defaultValue: dto.defaultValue }),
+    };
+    this.assertDefaultValue(next.fieldType, next.defaultValue);
+    const reference = await this.referenceSettings({
+      fieldType: next.fieldType,
+      isRequired: dto.isRequired ?? field.isRequired,
+      referenceEntityId: dto.referenceEntityId ?? field.referenceEntityId,
+      onDelete: dto.onDelete ?? field.onDelete,
+    });
+    if (entity.storageMode === 'physical') {
+      this.tableSchemaService.assertUniqueColumn(next);
+    } else {
+      this.fieldIndexService.assertIndexable(next);
+    }
+    await this.syncFieldStorage(entity, field, next);
+
     try {
       const updated = await this.prisma.fieldDefinition.update({
         where: { id },
@@ -338,12 +742,15 @@ export class MetadataService {
           ...(dto.defaultValue !== undefined && { defaultValue: dto.defaultValue }),
           ...(dto.options !== undefined && { options: dto.options }),
           ...(dto.displayOrder !== undefined && { displayOrder: dto.displayOrder }),
+          ...(dto.isIndexed !== undefined && { isIndexed: dto.isIndexed }),
+          ...reference,
         },
       });
 
       this.logger.log(`✓ Field updated: ${updated.fieldName}`, 'MetadataService');
       return updated;
     } catch (error) {
+      await this.revertFieldStorage(entity, next, field);
       this.logger.error(
         'Error updating field',
         error.message,
@@ -367,14 +774,24 @@ export class MetadataService {
       throw new NotFoundException(`Field with ID ${id} not found`);
     }
 
+    const entity = await this.getEntityById(field.entityId);
+
+    // The definition goes first: a column dropped from a physical table
+    // can't be brought back with its values, a deleted flag can
+    await this.prisma.fieldDefinition.update({
+      where: { id },
+      data: { isDeleted: true },
+    });
+
     try {
-      await this.prisma.fieldDefinition.update({
-        where: { id },
-        data: { isDeleted: true },
-      });
+      await this.syncFieldStorage(entity, field, null);
 
       this.logger.log(`✓ Field deleted: ${field.fieldName}`, 'MetadataService');
     } catch (error) {
+      await this.prisma.fieldDefinition.update({
+        where: { id },
+        data: { isDeleted: false },
+      });
       this.logger.error(
         'Error deleting field',
         error.message,
@@ -383,4 +800,40 @@ export class MetadataService {
       throw error;
     }
   }
+
+  /**
+   * Apply a field change to the entity's storage: a table column for
+   * physical entities, a generated column for indexed JSON fields
+   */
+  private async syncFieldStorage(
+    entity: EntityDefinitionDto,
+    previous: FieldDefinitionDto | null,
+    next: FieldDefinitionDto | null,
+  ): Promise<void> {
+    if (entity.storageMode === 'physical') {
+      await this.tableSchemaService.syncField(entity.tableName, previous, next);
+    } else {
+      await this.fieldIndexService.sync(previous, next, this.backendOf(entity));
+    }
+  }
+
+  /**
+   * Undo a storage change whose field definition couldn't be saved, so
+   * the storage keeps matching the definition
+   */
+  private async revertFieldStorage(
+    entity: EntityDefinitionDto,
+    applied: FieldDefinitionDto,
+    previous: FieldDefinitionDto,
+  ): Promise<void> {
+    try {
+      await this.syncFieldStorage(entity, applied, previous);
+    } catch (error) {
+      this.logger.error(
+        `Error reverting the storage of field ${previous.fieldName}`,
+        error.message,
+        'MetadataService',
+      );
+    }
+  }
 }
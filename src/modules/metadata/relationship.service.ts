@@ -0,0 +1,218 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { DatabaseService } from '@/modules/dynamic/database/database.service';
+import {
+  CreateRelationshipDefinitionDto,
+  EntityDefinitionDto,
+  RelationshipDefinitionDto,
+} from '@/common/dtos/metadata.dto';
+import { MetadataService } from './metadata.service';
+
+/**
+ * A relationship seen from one of its entities
+ */
+export interface RelationSide {
+  relationship: RelationshipDefinitionDto;
+  isSource: boolean; // whether the entity is the relationship's source
+  source: EntityDefinitionDto;
+  other: EntityDefinitionDto;
+}
+
+/**
+ * Service managing many-to-many relationships between entities.
+ * A relationship has a name on each side (Product.tags, Tag.products) and
+ * its links are stored in the database of the source entity.
+ */
+@Injectable()
+export class RelationshipService {
+  constructor(
+    private prisma: PrismaService,
+    private metadataService: MetadataService,
+    private databaseService: DatabaseService,
+    private logger: LoggerService,
+  ) {}
+
+  /**
+   * Get relationships, optionally only those of one entity
+   */
+  async getRelationships(
+    entityId?: number,
+  ): Promise<RelationshipDefinitionDto[]> {
+    return this.prisma.relationshipDefinition.findMany({
+      where: {
+        isDeleted: false,
+        ...(entityId && {
+          OR: [{ sourceEntityId: entityId }, { targetEntityId: entityId }],
+        }),
+      },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  /**
+   * Get relationship by ID
+   */
+  async getRelationshipById(id: number): Promise<RelationshipDefinitionDto> {
+    const relationship = await this.prisma.relationshipDefinition.findFirst({
+      where: { id, isDeleted: false },
+    });
+
+    if (!relationship) {
+      throw new NotFoundException(`Relationship with ID ${id} not found`);
+    }
+
+    return relationship;
+  }
+
+  /**
+   * Resolve a relation name of an entity to its relationship
+   */
+  async getRelationSide(
+    entity: EntityDefinitionDto,
+    name: string,
+  ): Promise<RelationSide> {
+    const match = this.matchName(
+      await this.getRelationships(entity.id),
+      entity.id,
+      name,
+    );
+
+    if (match) {
+      const { relationship, isSource } = match;
+      const source = isSource
+        ? entity
+        : await this.metadataService.getEntityById(relationship.sourceEntityId);
+      const other = isSource
+        ? await this.metadataService.getEntityById(relationship.targetEntityId)
+        : source;
+      return { relationship, isSource, source, other };
+    }
+
+    throw new NotFoundException(
+      `Relation '${name}' not found on entity '${entity.entityName}'`,
+    );
+  }
+
+  /**
+   * Create a relationship and the link store in its source's database
+   */
+  async createRelationship(
+    dto: CreateRelationshipDefinitionDto,
+  ): Promise<RelationshipDefinitionDto> {
+    this.logger.debug(
+      `Creating relationship: ${dto.name} / ${dto.inverseName}`,
+      'RelationshipService',
+    );
+
+    const source = await this.metadataService.getEntityById(dto.sourceEntityId);
+    const target = await this.metadataService.getEntityById(dto.targetEntityId);
+
+    if (
+      source.id === target.id &&
+      dto.name.toLowerCase() === dto.inverseName.toLowerCase()
+    ) {
+      throw new BadRequestException(
+        'A relationship of an entity with itself needs two different names',
+      );
+    }
+    await this.assertNameFree(source, dto.name);
+    await this.assertNameFree(target, dto.inverseName);
+
+    const relationship = await this.prisma.relationshipDefinition.create({
+      data: {
+        name: dto.name,
+        inverseName: dto.inverseName,
+        displayName: dto.displayName || dto.name,
+        sourceEntityId: source.id,
+        targetEntityId: target.id,
+      },
+    });
+
+    try {
+      await this.databaseService.prepareLinkStore({
+        entity: source,
+        fields: source.fields ?? [],
+      });
+    } catch (error) {
+      await this.prisma.relationshipDefinition.delete({
+        where: { id: relationship.id },
+      });
+      this.logger.error(
+        'Error creating link store',
+        error.message,
+        'RelationshipService',
+      );
+      throw error;
+    }
+
+    this.logger.log(
+      `✓ Relationship created: ${source.entityName}.${dto.name} ↔ ${target.entityName}.${dto.inverseName}`,
+      'RelationshipService',
+    );
+    return relationship;
+  }
+
+  /**
+   * Soft delete relationship
+   */
+  async deleteRelationship(id: number): Promise<void> {
+    const relationship = await this.getRelationshipById(id);
+
+    await this.prisma.relationshipDefinition.update({
+      where: { id },
+      data: { isDeleted: true },
+    });
+
+    this.logger.log(
+      `✓ Relationship deleted: ${relationship.name}`,
+      'RelationshipService',
+    );
+  }
+
+  private async assertNameFree(
+    entity: EntityDefinitionDto,
+    name: string,
+  ): Promise<void> {
+    const relationships = await this.getRelationships(entity.id);
+
+    if (this.matchName(relationships, entity.id, name)) {
+      throw new ConflictException(
+        `Entity '${entity.entityName}' already has a relation named '${name}'`,
+      );
+    }
+  }
+
+  /**
+   * Find the relationship an entity calls by a name, case-insensitively
+   */
+  private matchName(
+    relationships: RelationshipDefinitionDto[],
+    entityId: number,
+    name: string,
+  ): { relationship: RelationshipDefinitionDto; isSource: boolean } | null {
+    const lower = name.toLowerCase();
+
+    for (const relationship of relationships) {
+      if (
+        relationship.sourceEntityId === entityId &&
+        relationship.name.toLowerCase() === lower
+      ) {
+        return { relationship, isSource: true };
+      }
+      if (
+        relationship.targetEntityId === entityId &&
+        relationship.inverseName.toLowerCase() === lower
+      ) {
+        return { relationship, isSource: false };
+      }
+    }
+
+    return null;
+  }
+}
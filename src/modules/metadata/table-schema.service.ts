@@ -0,0 +1,208 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import {
+  addColumnSql,
+  addDeletedAtColumnSql,
+  addIndexSql,
+  addUniqueConstraintSql,
+  addVersionColumnSql,
+  columnTypeSql,
+  createTableSql,
+  dropColumnSql,
+  dropIndexSql,
+  dropUniqueConstraintSql,
+  fillDeletedAtSql,
+  modifyColumnSql,
+  renameTableSql,
+  RESERVED_TABLES,
+  SYSTEM_COLUMNS,
+  TableFieldRef,
+} from '@/core/database/mysql-table';
+import { MAX_INDEXED_STRING_LENGTH } from '@/core/database/mysql-json';
+import { uniqueConstraintName } from '@/core/database/unique-constraint';
+
+interface TableField extends TableFieldRef {
+  isIndexed?: boolean;
+  isUnique?: boolean;
+  isDeleted?: boolean;
+}
+
+/**
+ * Service maintaining the tables of entities in physical storage mode,
+ * where each entity has its own table and each field is a typed column
+ */
+@Injectable()
+export class TableSchemaService {
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+  ) {}
+
+  /**
+   * Reject table names that would clash with the service's own tables
+   */
+  assertTableName(tableName: string): void {
+    if (RESERVED_TABLES.includes(tableName.toLowerCase())) {
+      throw new BadRequestException(
+        `Table name '${tableName}' is reserved`,
+      );
+    }
+  }
+
+  /**
+   * Reject field names that would clash with the system columns
+   */
+  assertColumnName(fieldName: string): void {
+    if (SYSTEM_COLUMNS.some((c) => c.toLowerCase() === fieldName.toLowerCase())) {
+      throw new BadRequestException(
+        `Field name '${fieldName}' is reserved for physical entities`,
+      );
+    }
+  }
+
+  /**
+   * Reject unique settings the column can't be indexed for; a prefix
+   * index would make values sharing a prefix conflict
+   */
+  assertUniqueColumn(field: Omit<TableField, 'id'>): void {
+    if (
+      field.isUnique &&
+      field.fieldType === 'string' &&
+      (!field.maxLength || field.maxLength > MAX_INDEXED_STRING_LENGTH)
+    ) {
+      throw new BadRequestException(
+        `Unique string field '${field.fieldName}' needs a maxLength of at most ${MAX_INDEXED_STRING_LENGTH}`,
+      );
+    }
+  }
+
+  async createTable(tableName: string): Promise<void> {
+    await this.execute(tableName, createTableSql(tableName));
+    this.logger.log(`✓ Table created: ${tableName}`, 'TableSchemaService');
+  }
+
+  async renameTable(from: string, to: string): Promise<void> {
+    await this.execute(from, renameTableSql(from, to));
+    this.logger.log(`✓ Table renamed: ${from} → ${to}`, 'TableSchemaService');
+  }
+
+  /**
+   * Bring the column of a field in line with its definition.
+   * Pass null as `previous` for a new field and as `next` for a removed one.
+   */
+  async syncField(
+    tableName: string,
+    previous: TableField | null,
+    next: TableField | null,
+  ): Promise<void> {
+    const existed = !!previous && !previous.isDeleted;
+    const exists = !!next && !next.isDeleted;
+
+    if (!existed && exists) {
+      await this.execute(tableName, addColumnSql(tableName, next));
+      if (next.isIndexed) {
+        await this.execute(tableName, addIndexSql(tableName, next));
+      }
+      if (next.isUnique) {
+        await this.execute(tableName, addUniqueConstraintSql(tableName, next));
+      }
+    } else if (existed && !exists) {
+      // The unique column is generated from the field column
+      if (previous.isUnique) {
+        await this.execute(tableName, dropUniqueConstraintSql(tableName, previous));
+      }
+      await this.execute(tableName, dropColumnSql(tableName, previous));
+    } else if (existed && exists) {
+      const retyped = columnTypeSql(previous) !== columnTypeSql(next);
+      if (previous.isUnique && (!next.isUnique || retyped)) {
+        await this.execute(tableName, dropUniqueConstraintSql(tableName, previous));
+      }
+      if (retyped) {
+        await this.execute(tableName, modifyColumnSql(tableName, next));
+      }
+      if (previous.isIndexed && !next.isIndexed) {
+        await this.execute(tableName, dropIndexSql(tableName, previous));
+      } else if (!previous.isIndexed && next.isIndexed) {
+        await this.execute(tableName, addIndexSql(tableName, next));
+      }
+      if (next.isUnique && (!previous.isUnique || retyped)) {
+        await this.execute(tableName, addUniqueConstraintSql(tableName, next));
+      }
+    } else {
+      return;
+    }
+
+    this.logger.log(
+      `✓ Column synced: ${tableName}.${(next ?? previous).fieldName}`,
+      'TableSchemaService',
+    );
+  }
+
+  /**
+   * Add the record version column to a table created without it
+   */
+  async ensureVersionColumn(tableName: string): Promise<void> {
+    if (!(await this.hasColumn(tableName, 'version'))) {
+      await this.execute(tableName, addVersionColumnSql(tableName));
+      this.logger.log(
+        `✓ Version column added: ${tableName}`,
+        'TableSchemaService',
+      );
+    }
+  }
+
+  /**
+   * Add the deletion time column to a table created without it, filled
+   * for the records already in the trash
+   */
+  async ensureDeletedAtColumn(tableName: string): Promise<void> {
+    if (!(await this.hasColumn(tableName, 'deletedAt'))) {
+      await this.execute(tableName, addDeletedAtColumnSql(tableName));
+      await this.execute(tableName, fillDeletedAtSql(tableName));
+      this.logger.log(
+        `✓ Deletion time column added: ${tableName}`,
+        'TableSchemaService',
+      );
+    }
+  }
+
+  private async hasColumn(tableName: string, column: string): Promise<boolean> {
+    const [{ found }] = await this.prisma.$queryRaw<{ found: bigint }[]>`
+      SELECT COUNT(*) AS found FROM information_schema.COLUMNS
+      WHERE TABLE_SCHEMA = DATABASE()
+        AND TABLE_NAME = ${tableName}
+        AND COLUMN_NAME = ${column}`;
+    return Number(found) > 0;
+  }
+
+  /**
+   * Create the unique constraint of a unique field where it is missing
+   */
+  async ensureUnique(tableName: string, field: TableField): Promise<void> {
+    const [{ found }] = await this.prisma.$queryRaw<{ found: bigint }[]>`
+      SELECT COUNT(*) AS found FROM information_schema.COLUMNS
+      WHERE TABLE_SCHEMA = DATABASE()
+        AND TABLE_NAME = ${tableName}
+        AND COLUMN_NAME = ${uniqueConstraintName(field.id)}`;
+
+    if (!Number(found)) {
+      await this.execute(tableName, addUniqueConstraintSql(tableName, field));
+    }
+  }
+
+  private async execute(tableName: string, sql: string): Promise<void> {
+    try {
+      await this.prisma.$executeRawUnsafe(sql);
+    } catch (error) {
+      this.logger.error(
+        `Error altering table ${tableName}`,
+        error.message,
+        'TableSchemaService',
+      );
+      throw new BadRequestException(
+        `Could not update table '${tableName}': ${error.message}`,
+      );
+    }
+  }
+}
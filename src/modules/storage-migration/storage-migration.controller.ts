@@ -0,0 +1,146 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { StorageMigrationService } from './storage-migration.service';
+import {
+  StartStorageMigrationDto,
+  StorageMigrationDto,
+} from '@/common/dtos/storage-migration.dto';
+
+@Controller('migrations')
+@ApiTags('Storage Migrations')
+export class StorageMigrationController {
+  constructor(private storageMigrationService: StorageMigrationService) {}
+
+  /**
+   * Get storage migrations
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get storage migrations',
+    description: 'Retrieve storage migrations, latest first',
+  })
+  @ApiQuery({
+    name: 'entityName',
+    type: String,
+    required: false,
+    description: 'Only migrations of this entity',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of storage migrations',
+    type: [StorageMigrationDto],
+  })
+  async getMigrations(
+    @Query('entityName') entityName?: string,
+  ): Promise<StorageMigrationDto[]> {
+    return this.storageMigrationService.getMigrations(entityName);
+  }
+
+  /**
+   * Get storage migration progress
+   */
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get storage migration',
+    description: 'Retrieve a storage migration and its progress',
+  })
+  @ApiParam({
+    name: 'id',
+    type: Number,
+    description: 'Migration ID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Storage migration',
+    type: StorageMigrationDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Migration not found',
+  })
+  async getMigration(@Param('id') id: number): Promise<StorageMigrationDto> {
+    return this.storageMigrationService.getMigration(Number(id));
+  }
+
+  /**
+   * Start storage migration
+   */
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Start storage migration',
+    description:
+      'Copy all records of an entity to another storage backend in the background, ' +
+      'then switch the entity to it. The entity stays readable and writable while copying.',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Migration started',
+    type: StorageMigrationDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown backend, physical entity or entity already in the backend',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Entity not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A migration of the entity is already in progress',
+  })
+  async startMigration(
+    @Body() dto: StartStorageMigrationDto,
+  ): Promise<StorageMigrationDto> {
+    return this.storageMigrationService.startMigration(dto);
+  }
+
+  /**
+   * Resume storage migration
+   */
+  @Post(':id/resume')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Resume storage migration',
+    description: 'Continue a failed or interrupted migration where it stopped',
+  })
+  @ApiParam({
+    name: 'id',
+    type: Number,
+    description: 'Migration ID',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Migration resumed',
+    type: StorageMigrationDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Migration not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Migration is completed or still running',
+  })
+  async resumeMigration(
+    @Param('id') id: number,
+  ): Promise<StorageMigrationDto> {
+    return this.storageMigrationService.resumeMigration(Number(id));
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CoreModule } from '@/core/core.module';
+import { MetadataModule } from '@/modules/metadata/metadata.module';
+import { DatabaseModule } from '@/modules/dynamic/database/database.module';
+import { StorageMigrationService } from './storage-migration.service';
+import { StorageMigrationController } from './storage-migration.controller';
+
+@Module({
+  imports: [CoreModule, MetadataModule, DatabaseModule],
+  controllers: [StorageMigrationController],
+  providers: [StorageMigrationService],
+})
+export class StorageMigrationModule {}
@@ -0,0 +1,146 @@
+import { ConflictException } from '@nestjs/common';
+import { StorageMigrationService } from './storage-migration.service';
+
+const entity = { id: 7, entityName: 'Customer', storageBackend: 'mysql', fields: [] };
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('StorageMigrationService', () => {
+  let migrations: Map<number, any>;
+  let prisma: any;
+  let source: any;
+  let target: any;
+  let metadataService: any;
+  let service: StorageMigrationService;
+
+  beforeEach(() => {
+    migrations = new Map();
+    prisma = {
+      storageMigration: {
+        findMany: jest.fn(async () => [...migrations.values()]),
+        findUnique: jest.fn(async ({ where }) => migrations.get(where.id) ?? null),
+        update: jest.fn(async ({ where, data }) =>
+          Object.assign(migrations.get(where.id), data),
+        ),
+        // Claims and progress are conditional on the owner
+        updateMany: jest.fn(async ({ where, data }) => {
+          const migration = migrations.get(where.id);
+          const owned =
+            migration &&
+            (where.ownerId === undefined || where.ownerId === migration.ownerId) &&
+            (!where.OR || !migration.ownerId || migration.heartbeatAt < new Date(Date.now() - 60000));
+          if (!owned) {
+            return { count: 0 };
+          }
+          Object.assign(migration, data);
+          return { count: 1 };
+        }),
+      },
+      entityDefinition: { update: jest.fn() },
+    };
+    source = {
+      exportBatch: jest.fn(async () => []),
+      purge: jest.fn(),
+      unlink: jest.fn(),
+    };
+    target = { importBatch: jest.fn(), purge: jest.fn() };
+    metadataService = {
+      getEntityById: jest.fn(async () => entity),
+      dropFieldIndexes: jest.fn(),
+    };
+    const relationshipService = {
+      getRelationships: jest.fn(async () => [
+        { id: 3, sourceEntityId: 7, targetEntityId: 9 },
+        { id: 4, sourceEntityId: 9, targetEntityId: 7 },
+      ]),
+    };
+    const databaseService = {
+      getAdapter: jest.fn((backend: string) => (backend === 'mysql' ? source : target)),
+    };
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+    service = new StorageMigrationService(
+      prisma,
+      metadataService,
+      relationshipService as any,
+      databaseService as any,
+      logger as any,
+    );
+  });
+
+  afterEach(() => service.onModuleDestroy());
+
+  const addMigration = (migration: Record<string, unknown>) =>
+    migrations.set(migration.id as number, {
+      entityId: 7,
+      sourceBackend: 'mysql',
+      targetBackend: 'mongodb',
+      status: 'running',
+      batchSize: 500,
+      copied: 0,
+      lastRecordId: null,
+      ownerId: null,
+      heartbeatAt: null,
+      ...migration,
+    });
+
+  it('removes the records and links left in the source after the switch', async () => {
+    addMigration({ id: 1, phase: 'cleaning' });
+
+    await service.onApplicationBootstrap();
+    await settle();
+
+    expect(source.purge).toHaveBeenCalledWith({ entity, fields: [] });
+    expect(source.unlink).toHaveBeenCalledTimes(1);
+    expect(source.unlink).toHaveBeenCalledWith(3, {});
+    expect(metadataService.dropFieldIndexes).toHaveBeenCalledWith(entity, 'mysql');
+    expect(migrations.get(1)).toMatchObject({ status: 'completed', phase: 'done' });
+  });
+
+  it('leaves a migration another instance holds to it', async () => {
+    addMigration({ id: 1, phase: 'cleaning', ownerId: 'other', heartbeatAt: new Date() });
+
+    await service.onApplicationBootstrap();
+    await settle();
+
+    expect(metadataService.getEntityById).not.toHaveBeenCalled();
+    expect(source.purge).not.toHaveBeenCalled();
+    expect(migrations.get(1)).toMatchObject({ status: 'running', ownerId: 'other' });
+  });
+
+  it('takes over a migration whose owner stopped beating', async () => {
+    addMigration({
+      id: 1,
+      phase: 'cleaning',
+      ownerId: 'other',
+      heartbeatAt: new Date(Date.now() - 120000),
+    });
+
+    await service.onApplicationBootstrap();
+    await settle();
+
+    expect(source.purge).toHaveBeenCalled();
+    expect(migrations.get(1).status).toBe('completed');
+  });
+
+  it('stops without failing when another instance claimed the migration meanwhile', async () => {
+    addMigration({ id: 1, phase: 'copying' });
+    source.exportBatch.mockImplementation(async () => {
+      migrations.get(1).ownerId = 'other';
+      return [{ id: 'a' }];
+    });
+
+    await service.onApplicationBootstrap();
+    await settle();
+
+    expect(target.importBatch).toHaveBeenCalledTimes(1);
+    expect(migrations.get(1)).toMatchObject({ status: 'running', ownerId: 'other' });
+    expect(prisma.entityDefinition.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to resume a migration whose owner is alive', async () => {
+    addMigration({ id: 1, phase: 'copying', ownerId: 'other', heartbeatAt: new Date() });
+
+    await expect(service.resumeMigration(1)).rejects.toThrow(ConflictException);
+  });
+});
@@ -0,0 +1,608 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '@/core/database/prisma.service';
+import { LoggerService } from '@/core/logger/logger.service';
+import { MetadataService } from '@/modules/metadata/metadata.service';
+import { RelationshipService } from '@/modules/metadata/relationship.service';
+import { DatabaseService } from '@/modules/dynamic/database/database.service';
+import { IDatabaseAdapter } from '@/modules/dynamic/database/database.adapter';
+import { DynamicEntityContext } from '@/modules/dynamic/engine/query.types';
+import {
+  StartStorageMigrationDto,
+  StorageMigrationDto,
+} from '@/common/dtos/storage-migration.dto';
+import { RelationshipDefinitionDto } from '@/common/dtos/metadata.dto';
+
+const DEFAULT_BATCH_SIZE = 500;
+
+// Catch-up passes before writes are held back for the final one
+const MAX_SYNC_PASSES = 5;
+
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+
+// A running migration whose owner gave no sign of life for longer is
+// taken to be interrupted and can be claimed by another instance
+const CLAIM_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Thrown inside a run whose migration another instance claimed
+ */
+class ClaimLostError extends Error {}
+
+interface MigrationRun {
+  migration: StorageMigrationDto;
+  context: DynamicEntityContext;
+  source: IDatabaseAdapter;
+  target: IDatabaseAdapter;
+}
+
+/**
+ * Service moving an entity's records from one storage backend to another
+ * while the entity stays online.
+ *
+ * Before the copy starts the migration becomes the entity's
+ * activeMigrationId, from then on every record write logs the record in
+ * storage_migration_changes (see DatabaseService). Records are copied in
+ * id order in batches, then the logged records are copied again, or
+ * removed from the target when they no longer exist, until a pass finds
+ * none. The last pass runs with writes locked in entity_definitions, the
+ * links of relationships the entity is the source of are copied, counts
+ * are compared and the entity's storageBackend is switched in the same
+ * transaction that unlocks writes. The records, links and unique
+ * constraints left in the source are removed after the switch, then the
+ * migration completes.
+ *
+ * A migration runs on the instance that claimed it in storage_migrations
+ * and keeps its claim with a heartbeat; another instance takes over
+ * a running migration only once the heartbeat stops. Progress is saved
+ * after every batch, so an interrupted migration continues where it
+ * stopped.
+ */
+@Injectable()
+export class StorageMigrationService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly instanceId = randomUUID();
+  private running: Set<number> = new Set(); // migration ids executing in this process
+  private resumeTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private prisma: PrismaService,
+    private metadataService: MetadataService,
+    private relationshipService: RelationshipService,
+    private databaseService: DatabaseService,
+    private logger: LoggerService,
+  ) {}
+
+  /**
+   * Continue migrations that were running when their instance stopped,
+   * now and whenever an owner's heartbeat runs out
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    this.resumeTimer = setInterval(
+      () => this.resumeInterrupted(),
+      CLAIM_TIMEOUT_MS,
+    );
+    await this.resumeInterrupted();
+  }
+
+  onModuleDestroy(): void {
+    if (this.resumeTimer) {
+      clearInterval(this.resumeTimer);
+    }
+  }
+
+  private async resumeInterrupted(): Promise<void> {
+    try {
+      const interrupted = await this.prisma.storageMigration.findMany({
+        where: {
+          status: 'running',
+          OR: [{ heartbeatAt: null }, { heartbeatAt: { lt: this.staleBefore() } }],
+        },
+      });
+
+      for (const migration of interrupted) {
+        this.launch(migration.id);
+      }
+    } catch (error) {
+      this.logger.error(
+        'Error resuming storage migrations',
+        error.message,
+        'StorageMigrationService',
+      );
+    }
+  }
+
+  /**
+   * Start moving an entity's records to another storage backend
+   */
+  async startMigration(
+    dto: StartStorageMigrationDto,
+  ): Promise<StorageMigrationDto> {
+    this.logger.debug(
+      `Starting migration of ${dto.entityName} to ${dto.targetBackend}`,
+      'StorageMigrationService',
+    );
+
+    const entity = await this.metadataService.getEntityByName(dto.entityName);
+    const context = { entity, fields: entity.fields ?? [] };
+
+    if (entity.storageMode === 'physical') {
+      throw new BadRequestException(
+        `Entity '${entity.entityName}' is in physical storage mode and stays in mysql`,
+      );
+    }
+
+    const available = this.databaseService.getAvailableAdapters();
+    if (!available.includes(dto.targetBackend)) {
+      throw new BadRequestException(
+        `Storage backend '${dto.targetBackend}' is not available (available: ${available.join(', ')})`,
+      );
+    }
+
+    const sourceBackend = this.databaseService.getEntityRouting(context).database;
+    if (sourceBackend === dto.targetBackend) {
+      throw new BadRequestException(
+        `Entity '${entity.entityName}' is already stored in ${sourceBackend}`,
+      );
+    }
+
+    const active = await this.prisma.storageMigration.findFirst({
+      where: { entityId: entity.id, status: { in: ['pending', 'running'] } },
+    });
+    if (active) {
+      throw new ConflictException(
+        `Storage migration ${active.id} of entity '${entity.entityName}' is already in progress`,
+      );
+    }
+
+    const migration = await this.prisma.storageMigration.create({
+      data: {
+        entityId: entity.id,
+        sourceBackend,
+        targetBackend: dto.targetBackend,
+        batchSize: dto.batchSize ?? DEFAULT_BATCH_SIZE,
+        status: 'running',
+      },
+    });
+
+    this.launch(migration.id);
+
+    this.logger.log(
+      `✓ Storage migration ${migration.id} started: ${entity.entityName} ${sourceBackend} → ${dto.targetBackend}`,
+      'StorageMigrationService',
+    );
+    return migration;
+  }
+
+  /**
+   * Continue a failed or interrupted migration where it stopped
+   */
+  async resumeMigration(id: number): Promise<StorageMigrationDto> {
+    const migration = await this.getMigration(id);
+
+    if (
+      migration.status === 'completed' ||
+      (migration.status === 'running' &&
+        migration.heartbeatAt >= this.staleBefore())
+    ) {
+      throw new ConflictException(
+        `Storage migration ${id} is ${migration.status}`,
+      );
+    }
+
+    const resumed = await this.prisma.storageMigration.update({
+      where: { id },
+      data: { status: 'running', error: null },
+    });
+
+    this.launch(id);
+
+    this.logger.log(
+      `✓ Storage migration ${id} resumed`,
+      'StorageMigrationService',
+    );
+    return resumed;
+  }
+
+  /**
+   * Get a migration with its progress
+   */
+  async getMigration(id: number): Promise<StorageMigrationDto> {
+    const migration = await this.prisma.storageMigration.findUnique({
+      where: { id },
+    });
+
+    if (!migration) {
+      throw new NotFoundException(`Storage migration ${id} not found`);
+    }
+
+    return migration;
+  }
+
+  /**
+   * Get migrations, latest first, optionally of one entity
+   */
+  async getMigrations(entityName?: string): Promise<StorageMigrationDto[]> {
+    const entityId = entityName
+      ? (await this.metadataService.getEntityByName(entityName)).id
+      : undefined;
+
+    return this.prisma.storageMigration.findMany({
+      where: { ...(entityId && { entityId }) },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Run a migration in the background once this instance claimed it,
+   * recording a failure on it
+   */
+  private launch(id: number): void {
+    if (this.running.has(id)) {
+      return;
+    }
+
+    this.running.add(id);
+    let heartbeat: NodeJS.Timeout | null = null;
+
+    this.claim(id)
+      .then(async (claimed) => {
+        if (!claimed) {
+          return;
+        }
+
+        this.logger.log(
+          `Running storage migration ${id}`,
+          'StorageMigrationService',
+        );
+        heartbeat = setInterval(
+          () => this.beat(id).catch(() => undefined),
+          HEARTBEAT_INTERVAL_MS,
+        );
+        await this.run(id);
+      })
+      .catch(async (error) => {
+        if (error instanceof ClaimLostError) {
+          this.logger.warn(error.message, 'StorageMigrationService');
+          return;
+        }
+
+        this.logger.error(
+          `Storage migration ${id} failed`,
+          error.message,
+          'StorageMigrationService',
+        );
+        const { count } = await this.prisma.storageMigration
+          .updateMany({
+            where: { id, ownerId: this.instanceId },
+            data: { status: 'failed', error: error.message, ownerId: null },
+          })
+          .catch(() => ({ count: 0 }));
+        const failed = count
+          ? await this.getMigration(id).catch(() => null)
+          : null;
+        if (failed) {
+          await this.unlockWrites(failed.entityId);
+        }
+      })
+      .finally(() => {
+        clearInterval(heartbeat);
+        this.running.delete(id);
+      });
+  }
+
+  /**
+   * Claim a running migration for this instance, unless another instance
+   * holds it with a live heartbeat
+   */
+  private async claim(id: number): Promise<boolean> {
+    const { count } = await this.prisma.storageMigration.updateMany({
+      where: {
+        id,
+        status: 'running',
+        OR: [
+          { ownerId: null },
+          { ownerId: this.instanceId },
+          { heartbeatAt: null },
+          { heartbeatAt: { lt: this.staleBefore() } },
+        ],
+      },
+      data: { ownerId: this.instanceId, heartbeatAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  private async beat(id: number): Promise<void> {
+    await this.prisma.storageMigration.updateMany({
+      where: { id, ownerId: this.instanceId },
+      data: { heartbeatAt: new Date() },
+    });
+  }
+
+  private async run(id: number): Promise<void> {
+    const migration = await this.getMigration(id);
+    const entity = await this.metadataService.getEntityById(migration.entityId);
+    const run: MigrationRun = {
+      migration,
+      context: { entity, fields: entity.fields ?? [] },
+      source: this.databaseService.getAdapter(migration.sourceBackend),
+      target: this.databaseService.getAdapter(migration.targetBackend),
+    };
+
+    if (run.migration.phase === 'pending') {
+      // Waits for writes that started before changes were logged. Changes
+      // logged for an abandoned migration of the entity are dropped.
+      const previous = await this.prisma.entityDefinition.findUnique({
+        where: { id: entity.id },
+        select: { activeMigrationId: true },
+      });
+      await this.prisma.entityDefinition.update({
+        where: { id: entity.id },
+        data: { activeMigrationId: id },
+      });
+      if (previous?.activeMigrationId) {
+        await this.prisma.storageMigrationChange.deleteMany({
+          where: { migrationId: previous.activeMigrationId },
+        });
+      }
+      // Records left in the target by an earlier stay there can't be reached
+      // and would throw off the count verification
+      await run.target.purge(run.context);
+      await this.metadataService.ensureFieldIndexes(
+        entity,
+        migration.targetBackend,
+      );
+      await this.saveProgress(run, {
+        phase: 'copying',
+        startedAt: new Date(),
+        total: await run.source.countStored(run.context),
+      });
+    }
+
+    if (run.migration.phase === 'copying') {
+      await this.copyAll(run);
+      await this.saveProgress(run, { phase: 'syncing' });
+    }
+
+    // Writes stay locked when the process stops while verifying, until the
+    // migration is resumed and switches or fails
+    if (run.migration.phase !== 'cleaning') {
+      await this.syncAndSwitch(run);
+    }
+    await this.cleanUp(run);
+
+    this.logger.log(
+      `✓ Storage migration ${id} completed: ${entity.entityName} now in ${migration.targetBackend}`,
+      'StorageMigrationService',
+    );
+  }
+
+  /**
+   * Copy every record in id order, continuing after the last copied batch
+   */
+  private async copyAll(run: MigrationRun): Promise<void> {
+    for (;;) {
+      const batch = await run.source.exportBatch(run.context, {
+        afterId: run.migration.lastRecordId,
+        limit: run.migration.batchSize,
+      });
+      if (!batch.length) {
+        return;
+      }
+
+      await run.target.importBatch(run.context, batch);
+      await this.saveProgress(run, {
+        lastRecordId: batch[batch.length - 1].id,
+        copied: run.migration.copied + batch.length,
+      });
+    }
+  }
+
+  /**
+   * Copy the records logged as changed up to now, removing from the target
+   * those the source no longer has, and return how many. A log entry is
+   * removed once its record is copied; entries committed after a batch was
+   * read stay for the next pass.
+   */
+  private async copyChanged(run: MigrationRun): Promise<number> {
+    const migrationId = run.migration.id;
+    const last = await this.prisma.storageMigrationChange.findFirst({
+      where: { migrationId },
+      orderBy: { id: 'desc' },
+    });
+    let changed = 0;
+
+    while (last) {
+      const entries = await this.prisma.storageMigrationChange.findMany({
+        where: { migrationId, id: { lte: last.id } },
+        orderBy: { id: 'asc' },
+        take: run.migration.batchSize,
+      });
+      if (!entries.length) {
+        break;
+      }
+
+      const ids = [...new Set(entries.map((e) => e.recordId))];
+      const records = await run.source.exportBatch(run.context, {
+        ids,
+        limit: ids.length,
+      });
+      const removed = ids.filter((id) => !records.some((r) => r.id === id));
+
+      if (records.length) {
+        await run.target.importBatch(run.context, records);
+      }
+      if (removed.length) {
+        await run.target.purge(run.context, removed);
+      }
+      await this.prisma.storageMigrationChange.deleteMany({
+        where: { id: { in: entries.map((e) => e.id) } },
+      });
+      changed += ids.length;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Copy the links of relationships whose source is the entity, replacing
+   * any the target holds from an earlier migration
+   */
+  private async copyLinks(run: MigrationRun): Promise<void> {
+    for (const relationship of await this.sourceRelationships(run)) {
+      await run.target.prepareLinkStore();
+      await run.target.unlink(relationship.id, {});
+
+      for (let page = 1; ; page++) {
+        const { links } = await run.source.findLinks(
+          relationship.id,
+          {},
+          { page, pageSize: run.migration.batchSize },
+        );
+        for (const link of links) {
+          await run.target.link(link);
+        }
+        if (links.length < run.migration.batchSize) {
+          break;
+        }
+      }
+    }
+  }
+
+  private async syncAndSwitch(run: MigrationRun): Promise<void> {
+    const { migration, context } = run;
+
+    for (let pass = 0; pass < MAX_SYNC_PASSES; pass++) {
+      if (!(await this.copyChanged(run))) {
+        break;
+      }
+    }
+
+    await this.saveProgress(run, { phase: 'verifying' });
+
+    try {
+      // Waits for writes in progress, so the log is complete once it's done
+      await this.prisma.entityDefinition.update({
+        where: { id: context.entity.id },
+        data: { writesLocked: true },
+      });
+      await this.copyChanged(run);
+      await this.copyLinks(run);
+
+      const [sourceCount, targetCount] = await Promise.all([
+        run.source.countStored(context),
+        run.target.countStored(context),
+      ]);
+      if (sourceCount !== targetCount) {
+        throw new Error(
+          `Count mismatch: ${migration.sourceBackend} has ${sourceCount} records, ` +
+            `${migration.targetBackend} has ${targetCount}; start a new migration to copy again`,
+        );
+      }
+
+      await this.prisma.$transaction([
+        this.prisma.entityDefinition.update({
+          where: { id: context.entity.id },
+          data: {
+            storageBackend: migration.targetBackend,
+            activeMigrationId: null,
+            writesLocked: false,
+          },
+        }),
+        this.prisma.storageMigration.update({
+          where: { id: migration.id, ownerId: this.instanceId },
+          data: { phase: 'cleaning' },
+        }),
+        this.prisma.storageMigrationChange.deleteMany({
+          where: { migrationId: migration.id },
+        }),
+      ]);
+    } catch (error) {
+      // A migration claimed by another instance is left to it
+      if (!(error instanceof ClaimLostError)) {
+        await this.unlockWrites(context.entity.id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove what the entity left in the source backend once it was
+   * switched away from it, then complete the migration
+   */
+  private async cleanUp(run: MigrationRun): Promise<void> {
+    const { migration, context } = run;
+
+    await run.source.purge(context);
+    for (const relationship of await this.sourceRelationships(run)) {
+      await run.source.unlink(relationship.id, {});
+    }
+    await this.metadataService.dropFieldIndexes(
+      context.entity,
+      migration.sourceBackend,
+    );
+
+    await this.saveProgress(run, {
+      status: 'completed',
+      phase: 'done',
+      completedAt: new Date(),
+    });
+  }
+
+  /**
+   * Relationships the entity is the source of, whose links are kept in
+   * the entity's backend
+   */
+  private async sourceRelationships(
+    run: MigrationRun,
+  ): Promise<RelationshipDefinitionDto[]> {
+    const entityId = run.context.entity.id;
+    return (await this.relationshipService.getRelationships(entityId)).filter(
+      (r) => r.sourceEntityId === entityId,
+    );
+  }
+
+  /**
+   * Let writes through again after a failed switch. Changes stay logged,
+   * so the migration can be resumed.
+   */
+  private async unlockWrites(entityId: number): Promise<void> {
+    await this.prisma.entityDefinition
+      .update({ where: { id: entityId }, data: { writesLocked: false } })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Save the progress of a run, failing with ClaimLostError when another
+   * instance claimed its migration in the meantime
+   */
+  private async saveProgress(
+    run: MigrationRun,
+    data: Partial<StorageMigrationDto>,
+  ): Promise<void> {
+    const id = run.migration.id;
+    const { count } = await this.prisma.storageMigration.updateMany({
+      where: { id, ownerId: this.instanceId },
+      data,
+    });
+    if (!count) {
+      throw new ClaimLostError(
+        `Storage migration ${id} was claimed by another instance, stopped running it here`,
+      );
+    }
+
+    run.migration = await this.getMigration(id);
+  }
+
+  private staleBefore(): Date {
+    return new Date(Date.now() - CLAIM_TIMEOUT_MS);
+  }
+}